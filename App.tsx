@@ -1,16 +1,23 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { User, AppView, Slide, IntegrationConfig, IntegrationSource, ReportedIssue } from './types';
+import { User, AppView, Slide, Session, IntegrationConfig, IntegrationSource, ReportedIssue } from './types';
 import { Editor } from './components/Editor';
 import { Dashboard } from './components/Dashboard';
 import { IntegrationsHub } from './components/IntegrationsHub';
+import { SessionSwitcher } from './components/SessionSwitcher';
+import { RecordingSetupModal } from './components/RecordingSetupModal';
+import { AudioLevelMeter } from './components/AudioLevelMeter';
 import { useToast } from './components/ToastProvider';
 import { fetchClickUpTasks, getAllClickUpLists } from './services/clickUpService';
 import { fetchJiraIssues } from './services/jiraService';
 import { postSlackMessage, generateDashboardSummary } from './services/slackService';
 import { postTeamsMessage } from './services/teamsService';
-import { saveSlidesToDB, loadSlidesFromDB } from './services/storageService';
+import { persistSlideChanges, loadSlidesFromDB, clearDatabase, createSession, loadSessionsFromDB, persistSessionChanges, duplicateSessionInDB, saveSlideToDB } from './services/storageService';
+import { getSlideType, readFileAsDataURL, generateThumbnail, collectDroppedFiles, downloadBlob } from './services/mediaService';
+import { createSessionArchive, readSessionArchive, isArchiveFile, ARCHIVE_EXTENSION } from './services/archiveService';
+import { startRecordingStreams, getAudioRecorderMimeType, RecordingAudioOptions } from './services/audioService';
+import { captureEnvironment } from './services/environmentService';
 import { 
   LogOut, 
   Monitor,
@@ -28,7 +35,8 @@ import {
   Moon,
   Sun,
   Plus,
-  Trash2
+  Trash2,
+  ImagePlus
 } from 'lucide-react';
 
 // Helper to get Client ID from Env or Fallback
@@ -188,9 +196,16 @@ const App: React.FC = () => {
     } catch (e) { return null; }
   });
 
-  // 2. Slides State (Loaded from IndexedDB)
+  // 2. Sessions & Slides State (Loaded from IndexedDB)
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isSessionsLoaded, setIsSessionsLoaded] = useState(false);
+  const persistedSessionsRef = useRef<Session[]>([]); // Last session list written to IndexedDB
+
   const [slides, setSlides] = useState<Slide[]>([]);
   const [isSlidesLoaded, setIsSlidesLoaded] = useState(false);
+  const persistedSlidesRef = useRef<Slide[]>([]); // Last state written to IndexedDB
+  const loadedSessionIdRef = useRef<string | null>(null); // Session the in-memory slides belong to
 
   // 3. Lazy Init Active Slide
   const [activeSlideId, setActiveSlideId] = useState<string | null>(null);
@@ -224,6 +239,8 @@ const App: React.FC = () => {
   // Recording State
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
+  const [isRecordingSetupOpen, setIsRecordingSetupOpen] = useState(false);
+  const [recordingLevel, setRecordingLevel] = useState<(() => number) | null>(null); // Level probe while audio is captured
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
@@ -237,8 +254,13 @@ const App: React.FC = () => {
   const addMenuRef = useRef<HTMLDivElement>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const { addToast } = useToast();
 
+  // Drag & Drop State
+  const [isDragOver, setIsDragOver] = useState(false);
+  const dragDepthRef = useRef(0);
+
   // --- Theme Effect ---
   useEffect(() => {
     const root = window.document.documentElement;
@@ -255,29 +277,68 @@ const App: React.FC = () => {
 
   // --- Persistence Effect (IndexedDB) ---
   
-  // Load on mount
+  // Load sessions on mount, reopening the last used one
+  useEffect(() => {
+      const initSessions = async () => {
+          const loadedSessions = await loadSessionsFromDB();
+          persistedSessionsRef.current = loadedSessions;
+          const savedId = localStorage.getItem('bugsnap_active_session');
+          const openSessions = loadedSessions.filter(s => !s.archived);
+          const initial = loadedSessions.find(s => s.id === savedId) || openSessions[openSessions.length - 1];
+          if (initial) {
+              setSessions(loadedSessions);
+              setActiveSessionId(initial.id);
+          } else {
+              const fresh = createSession(`Session ${loadedSessions.length + 1}`);
+              setSessions([...loadedSessions, fresh]);
+              setActiveSessionId(fresh.id);
+          }
+          setIsSessionsLoaded(true);
+      };
+
+      initSessions();
+  }, []);
+
+  // Load the active session's slides whenever it changes
   useEffect(() => {
+      if (!activeSessionId) return;
+      localStorage.setItem('bugsnap_active_session', activeSessionId);
+      let cancelled = false;
+      setIsSlidesLoaded(false);
+
       const initSlides = async () => {
           try {
-              const loadedSlides = await loadSlidesFromDB();
+              const loadedSlides = await loadSlidesFromDB(activeSessionId);
+              if (cancelled) return;
+              loadedSessionIdRef.current = activeSessionId;
+              persistedSlidesRef.current = loadedSlides;
               setSlides(loadedSlides);
-              if (loadedSlides.length > 0 && !activeSlideId) {
-                  setActiveSlideId(loadedSlides[0].id);
-              }
+              setActiveSlideId(loadedSlides.length > 0 ? loadedSlides[0].id : null);
           } catch (e) {
               console.error("Failed to load slides", e);
           } finally {
-              setIsSlidesLoaded(true);
+              if (!cancelled) setIsSlidesLoaded(true);
           }
       };
-      
+
       initSlides();
-  }, []);
+      return () => { cancelled = true; };
+  }, [activeSessionId]);
+
+  // Save sessions on change
+  useEffect(() => {
+    if (!isSessionsLoaded) return;
+    persistSessionChanges(persistedSessionsRef.current, sessions);
+    persistedSessionsRef.current = sessions;
+  }, [sessions, isSessionsLoaded]);
 
   // Save on change
   useEffect(() => {
-    if (isSlidesLoaded) {
-        saveSlidesToDB(slides);
+    const sessionId = loadedSessionIdRef.current;
+    if (isSlidesLoaded && sessionId && slides !== persistedSlidesRef.current) {
+        persistSlideChanges(sessionId, persistedSlidesRef.current, slides);
+        persistedSlidesRef.current = slides;
+        updateSession(sessionId, { updatedAt: Date.now() });
     }
     
     // Update PIP window if open
@@ -286,6 +347,71 @@ const App: React.FC = () => {
     }
   }, [slides, isSlidesLoaded, isFloatingSnapping]); 
 
+  // --- Session Management ---
+
+  const updateSession = (id: string, changes: Partial<Session>) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const switchSession = (id: string) => {
+    if (id === activeSessionId) return;
+    const target = sessions.find(s => s.id === id);
+    if (target?.archived) updateSession(id, { archived: false });
+    setActiveSessionId(id);
+  };
+
+  const handleCreateSession = () => {
+    const session = createSession(`Session ${sessions.length + 1}`);
+    setSessions(prev => [...prev, session]);
+    setActiveSessionId(session.id);
+  };
+
+  const handleDuplicateSession = async (id: string) => {
+    const source = sessions.find(s => s.id === id);
+    if (!source) return;
+    const copy: Session = { ...createSession(`${source.name} (copy)`), exportHistory: [] };
+    try {
+      await duplicateSessionInDB(id, copy);
+      // Already stored with its slides, so the save effect has nothing to do
+      persistedSessionsRef.current = [...persistedSessionsRef.current, copy];
+      setSessions(prev => [...prev, copy]);
+      setActiveSessionId(copy.id);
+      addToast(`Duplicated "${source.name}"`, 'success');
+    } catch (e) {
+      console.error("Failed to duplicate session", e);
+      addToast("Could not duplicate session.", 'error');
+    }
+  };
+
+  // Leaving the active session (archive/delete) moves to the newest open one, or a fresh one
+  const leaveSession = (id: string, remaining: Session[]): Session[] => {
+    if (id !== activeSessionId) return remaining;
+    const openSessions = remaining.filter(s => !s.archived);
+    const next = openSessions[openSessions.length - 1];
+    if (next) {
+      setActiveSessionId(next.id);
+      return remaining;
+    }
+    const fresh = createSession(`Session ${remaining.length + 1}`);
+    setActiveSessionId(fresh.id);
+    return [...remaining, fresh];
+  };
+
+  const handleArchiveSession = (id: string, archived: boolean) => {
+    const updated = sessions.map(s => s.id === id ? { ...s, archived } : s);
+    setSessions(archived ? leaveSession(id, updated) : updated);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    setSessions(leaveSession(id, sessions.filter(s => s.id !== id)));
+  };
+
+  const handleExportComplete = (platform: string, url?: string) => {
+    const entry = { platform, url, exportedAt: Date.now() };
+    // Exports finish asynchronously, so append against the latest state
+    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, exportHistory: [...s.exportHistory, entry] } : s));
+  };
+
   useEffect(() => {
     setIsInIframe(window.self !== window.top);
   }, []);
@@ -449,7 +575,14 @@ const App: React.FC = () => {
     setView(AppView.LOGIN);
     setSlides([]); // Clear slides from state
     setActiveSlideId(null);
-    saveSlidesToDB([]); // Clear DB
+    clearDatabase();
+    // Start the next login with a clean, empty session
+    const fresh = createSession('Session 1');
+    persistedSessionsRef.current = [];
+    persistedSlidesRef.current = [];
+    loadedSessionIdRef.current = fresh.id;
+    setSessions([fresh]);
+    setActiveSessionId(fresh.id);
     localStorage.removeItem('bugsnap_user');
     addToast('Logged out successfully', 'info');
   };
@@ -564,71 +697,167 @@ const App: React.FC = () => {
 
 
   // --- Capture Logic (Updated for Base64 Persistence) ---
-  const handleFileUpload = (files: FileList | null) => {
-    if (!files) return;
-    
-    let firstNewSlideId: string | null = null;
-    let count = 0;
-    const fileArray = Array.from(files);
-
-    // Process files sequentially to maintain order and update state correctly
-    // We use FileReader to get Base64
-    fileArray.forEach((file, index) => {
-      const isVideo = file.type.startsWith('video/');
-      const isImage = file.type.startsWith('image/');
-
-      if (isImage || isVideo) {
-        const reader = new FileReader();
-        
-        reader.onload = (e) => {
-            const base64Data = e.target?.result as string;
-            
-            setSlides(prev => {
-                const newSlide: Slide = {
-                  id: crypto.randomUUID(),
-                  type: isVideo ? 'video' : 'image',
-                  src: base64Data, // Persistable Base64
-                  name: file.name,
-                  annotations: [],
-                  createdAt: Date.now() + index
-                };
-                
-                // If it's the first one added in this batch, switch to it
-                if (!activeSlideId && prev.length === 0) {
-                    setActiveSlideId(newSlide.id);
-                    setView(AppView.EDITOR);
-                } else if (!firstNewSlideId) {
-                    // Just mark it for switching if we want auto-switch logic
-                    firstNewSlideId = newSlide.id;
-                    // Auto-switch to the *first* new slide if user was on dashboard
-                    if (view === AppView.DASHBOARD) {
-                        setActiveSlideId(newSlide.id);
-                        setView(AppView.EDITOR);
-                    }
-                }
-                
-                return [...prev, newSlide];
-            });
+
+  // A .bugsnap archive is restored as a new session
+  const handleArchiveImport = useCallback(async (file: File) => {
+    addToast(`Importing ${file.name}...`, 'info');
+    try {
+      const { sessionName, slides: importedSlides } = await readSessionArchive(file);
+      const session = createSession(sessionName);
+      // Write the slides first so the session loads with them once it becomes active
+      for (const slide of importedSlides) {
+        await saveSlideToDB(session.id, slide);
+      }
+      setSessions(prev => [...prev, session]);
+      setActiveSessionId(session.id);
+      setView(AppView.EDITOR);
+      addToast(`Imported "${sessionName}" (${importedSlides.length} slide${importedSlides.length === 1 ? '' : 's'})`, 'success');
+    } catch (e) {
+      console.error("Archive import failed", e);
+      addToast(e instanceof Error ? e.message : "Could not import archive.", 'error');
+    }
+  }, [addToast]);
+
+  const handleExportSessionArchive = async (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    try {
+      const sessionSlides = id === activeSessionId ? slides : await loadSlidesFromDB(id);
+      if (sessionSlides.length === 0) {
+        addToast("This session has no slides to export.", 'error');
+        return;
+      }
+      const archive = await createSessionArchive(session.name, sessionSlides);
+      const filename = (session.name.replace(/[^\w\- ]+/g, '').trim() || 'session') + ARCHIVE_EXTENSION;
+      downloadBlob(archive, filename);
+    } catch (e) {
+      console.error("Archive export failed", e);
+      addToast("Could not export session archive.", 'error');
+    }
+  };
+
+  // Shared entry point for uploads, pasted clipboard images and dropped files
+  const ingestFiles = useCallback(async (files: File[]) => {
+    files.filter(isArchiveFile).forEach(handleArchiveImport);
+    const mediaFiles = files.filter(file => !isArchiveFile(file));
+    if (mediaFiles.length === 0) return;
+
+    const accepted = mediaFiles.filter(file => getSlideType(file.type));
+    const rejected = mediaFiles.filter(file => !getSlideType(file.type));
+
+    if (rejected.length > 0) {
+      const names = rejected.slice(0, 3).map(f => f.name || f.type || 'file').join(', ');
+      const more = rejected.length > 3 ? ` and ${rejected.length - 3} more` : '';
+      addToast(`Unsupported file type: ${names}${more}. Use PNG, JPEG, GIF, WebP, BMP, WebM, MP4 or MOV.`, 'error');
+    }
+    if (accepted.length === 0) return;
+
+    addToast(`Processing ${accepted.length} file${accepted.length > 1 ? 's' : ''}...`, 'info');
+
+    const now = Date.now();
+    const environment = captureEnvironment('file');
+    const results = await Promise.all(accepted.map(async (file, index): Promise<Slide | null> => {
+      try {
+        const type = getSlideType(file.type)!;
+        const base64Data = await readFileAsDataURL(file);
+        return {
+          id: crypto.randomUUID(),
+          type,
+          src: base64Data, // Persistable Base64
+          thumbnail: await generateThumbnail(base64Data, type),
+          name: file.name || `Pasted ${type} ${new Date(now).toLocaleTimeString()}`,
+          annotations: [],
+          environment,
+          createdAt: now + index
         };
-        
-        reader.readAsDataURL(file);
-        count++;
+      } catch (e) {
+        console.error("Failed to read file", file.name, e);
+        return null;
       }
-    });
+    }));
+
+    const newSlides = results.filter((s): s is Slide => s !== null);
+    if (newSlides.length < accepted.length) {
+      addToast(`${accepted.length - newSlides.length} file(s) could not be read.`, 'error');
+    }
+    if (newSlides.length === 0) return;
 
-    if (count > 0) {
-      addToast(`Processing ${count} file${count > 1 ? 's' : ''}...`, 'info');
+    setSlides(prev => [...prev, ...newSlides]);
+    // Jump to the first new slide unless the user is already editing
+    if (!activeSlideId || view !== AppView.EDITOR) {
+      setActiveSlideId(newSlides[0].id);
+      setView(AppView.EDITOR);
     }
+  }, [activeSlideId, view, addToast, handleArchiveImport]);
+
+  const handleInsertSlides = (afterId: string, newSlides: Slide[]) => {
+    setSlides(prev => {
+      const index = prev.findIndex(s => s.id === afterId);
+      if (index === -1) return [...prev, ...newSlides];
+      return [...prev.slice(0, index + 1), ...newSlides, ...prev.slice(index + 1)];
+    });
+  };
+
+  const handleFileUpload = (files: FileList | null) => {
+    if (!files) return;
+    ingestFiles(Array.from(files));
+  };
+
+  // Paste screenshots straight from the clipboard (Ctrl/Cmd+V)
+  useEffect(() => {
+    if (view === AppView.LOGIN) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []);
+      if (files.length === 0) return; // Plain text paste, leave it alone
+      e.preventDefault();
+      ingestFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [view, ingestFiles]);
+
+  // Drag enter/leave fire for every child element, so track nesting depth
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (view === AppView.LOGIN || !isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDragOver(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (view === AppView.LOGIN || !isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragOver(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (view === AppView.LOGIN || !isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragOver(false);
+    const files = await collectDroppedFiles(e.dataTransfer);
+    ingestFiles(files);
   };
 
   // --- Video Recording Logic (Updated for Base64) ---
-  const handleVideoRecord = async () => {
+  const handleVideoRecord = () => setIsRecordingSetupOpen(true);
+
+  const startVideoRecording = async (options: RecordingAudioOptions) => {
+    setIsRecordingSetupOpen(false);
     try {
-        const stream = await navigator.mediaDevices.getDisplayMedia({ 
-            video: { displaySurface: "monitor" }, 
-            audio: true 
-        });
-        
+        const recording = await startRecordingStreams(options);
+        const { stream, audioStream } = recording;
+        // Read while the share is live; track settings are gone once it stops
+        const environment = captureEnvironment(stream);
+
         mediaStreamRef.current = stream;
         const mediaRecorder = new MediaRecorder(stream);
         mediaRecorderRef.current = mediaRecorder;
@@ -638,39 +867,56 @@ const App: React.FC = () => {
             if (e.data.size > 0) chunksRef.current.push(e.data);
         };
 
-        mediaRecorder.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            
-            // Convert to Base64 for persistence
-            const reader = new FileReader();
-            reader.readAsDataURL(blob);
-            reader.onloadend = () => {
-                const base64Data = reader.result as string;
-                
-                const newSlide: Slide = {
-                    id: crypto.randomUUID(),
-                    type: 'video',
-                    src: base64Data,
-                    name: `Recording ${new Date().toLocaleTimeString()}`,
-                    annotations: [],
-                    createdAt: Date.now()
-                };
-                
-                setSlides(prev => [...prev, newSlide]);
-                setActiveSlideId(newSlide.id);
-                setView(AppView.EDITOR);
-                setIsRecording(false);
-                setRecordingTime(0);
+        // The soundtrack is also recorded on its own so narration can be transcribed without the video
+        const audioChunks: Blob[] = [];
+        const audioMimeType = getAudioRecorderMimeType();
+        const audioRecorder = audioStream ? new MediaRecorder(audioStream, audioMimeType ? { mimeType: audioMimeType } : undefined) : null;
+        if (audioRecorder) {
+            audioRecorder.ondataavailable = (e) => {
+                if (e.data.size > 0) audioChunks.push(e.data);
             };
-            
+        }
+        const audioStopped = new Promise<void>(resolve => {
+            if (audioRecorder) audioRecorder.onstop = () => resolve();
+            else resolve();
+        });
+
+        mediaRecorder.onstop = async () => {
+            if (audioRecorder && audioRecorder.state !== 'inactive') audioRecorder.stop();
+            await audioStopped;
             if (timerRef.current) clearInterval(timerRef.current);
-            
+
             // Stop all tracks
-            stream.getTracks().forEach(track => track.stop());
+            recording.stop();
             mediaStreamRef.current = null;
+            setRecordingLevel(null);
+
+            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
+            const audioBlob = audioChunks.length > 0 ? new Blob(audioChunks, { type: audioMimeType.split(';')[0] || 'audio/webm' }) : null;
+
+            // Convert to Base64 for persistence
+            const base64Data = await readFileAsDataURL(blob);
+            const newSlide: Slide = {
+                id: crypto.randomUUID(),
+                type: 'video',
+                src: base64Data,
+                name: `Recording ${new Date().toLocaleTimeString()}`,
+                annotations: [],
+                audio: audioBlob ? await readFileAsDataURL(audioBlob) : undefined,
+                environment,
+                createdAt: Date.now()
+            };
+
+            setSlides(prev => [...prev, newSlide]);
+            setActiveSlideId(newSlide.id);
+            setView(AppView.EDITOR);
+            setIsRecording(false);
+            setRecordingTime(0);
         };
 
         mediaRecorder.start();
+        audioRecorder?.start();
+        setRecordingLevel(audioStream ? () => recording.getLevel : null);
         setIsRecording(true);
         setView(AppView.EDITOR); 
 
@@ -685,7 +931,8 @@ const App: React.FC = () => {
 
     } catch (err) {
         console.error("Video record failed", err);
-        addToast("Recording cancelled.", 'info');
+        const message = err instanceof Error && err.message === "Microphone access was denied." ? err.message : "Recording cancelled.";
+        addToast(message, 'info');
     }
   };
 
@@ -756,6 +1003,7 @@ const App: React.FC = () => {
                 src: base64Data, // Persistable Base64
                 name: `Snap ${new Date().toLocaleTimeString()}`,
                 annotations: [],
+                environment: captureEnvironment(stream),
                 createdAt: Date.now()
             };
             
@@ -875,10 +1123,17 @@ const App: React.FC = () => {
     }
   };
 
+  // Closing keeps the work: the session is archived (or dropped if it is still empty)
   const handleCloseSession = () => {
-      setSlides([]);
-      saveSlidesToDB([]); // Clear DB on session close
-      setActiveSlideId(null);
+      if (!activeSessionId) return;
+      const session = sessions.find(s => s.id === activeSessionId);
+      const isEmpty = slides.length === 0 && (!session || session.exportHistory.length === 0);
+      if (isEmpty) {
+          handleDeleteSession(activeSessionId);
+      } else {
+          handleArchiveSession(activeSessionId, true);
+          addToast(`"${session?.name}" archived. Restore it from the session menu.`, 'info');
+      }
       setView(AppView.DASHBOARD);
   };
 
@@ -900,9 +1155,27 @@ const App: React.FC = () => {
   );
 
   return (
-    <div className={`h-screen w-screen flex flex-col bg-slate-50 dark:bg-[#0f0f0f] text-slate-900 dark:text-zinc-100 font-sans transition-colors duration-200 ${isDarkMode ? 'dark' : ''}`}>
+    <div 
+      className={`h-screen w-screen flex flex-col bg-slate-50 dark:bg-[#0f0f0f] text-slate-900 dark:text-zinc-100 font-sans transition-colors duration-200 ${isDarkMode ? 'dark' : ''}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop Overlay */}
+      {isDragOver && (
+        <div className="fixed inset-0 z-[200] bg-blue-600/10 backdrop-blur-sm flex items-center justify-center pointer-events-none p-8">
+          <div className="w-full h-full border-4 border-dashed border-blue-500 rounded-3xl flex flex-col items-center justify-center gap-3 text-blue-600 dark:text-blue-400">
+            <ImagePlus size={48} />
+            <p className="text-xl font-bold">Drop images or videos to add slides</p>
+            <p className="text-sm opacity-80">Folders and {ARCHIVE_EXTENSION} session archives are supported too</p>
+          </div>
+        </div>
+      )}
+
       {/* Restricted Modal */}
       <RestrictedModal isOpen={isRestrictedModalOpen} onClose={() => setIsRestrictedModalOpen(false)} />
+      <RecordingSetupModal isOpen={isRecordingSetupOpen} onClose={() => setIsRecordingSetupOpen(false)} onStart={startVideoRecording} />
       
       {view === AppView.LOGIN ? (
         <div className="flex items-center justify-center min-h-screen bg-slate-50 dark:bg-[#0f0f0f] relative overflow-hidden">
@@ -997,6 +1270,19 @@ const App: React.FC = () => {
                         <span className="font-extrabold text-xl tracking-tight text-slate-900 dark:text-white">BugSnap</span>
                     </div>
 
+                    <SessionSwitcher
+                        sessions={sessions}
+                        activeSessionId={activeSessionId}
+                        onSelect={switchSession}
+                        onCreate={handleCreateSession}
+                        onRename={(id, name) => updateSession(id, { name, updatedAt: Date.now() })}
+                        onDuplicate={handleDuplicateSession}
+                        onArchive={handleArchiveSession}
+                        onDelete={handleDeleteSession}
+                        onExport={handleExportSessionArchive}
+                        onImport={() => archiveInputRef.current?.click()}
+                    />
+
                     {/* Navigation Links */}
                     <div className="flex items-center gap-2">
                         <NavButton active={view === AppView.DASHBOARD} onClick={() => setView(AppView.DASHBOARD)} icon={Home}>Dashboard</NavButton>
@@ -1039,6 +1325,7 @@ const App: React.FC = () => {
                  <div className="bg-red-500 text-white text-xs font-bold px-4 py-1 text-center animate-pulse flex items-center justify-center gap-2 shadow-md z-40">
                     <div className="w-2 h-2 bg-white rounded-full"></div>
                     Recording Screen... {new Date(recordingTime * 1000).toISOString().substr(14, 5)}
+                    {recordingLevel && <AudioLevelMeter getLevel={recordingLevel} className="w-20 ml-2" />}
                     <button onClick={() => { 
                         if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
                             mediaRecorderRef.current.stop();
@@ -1073,6 +1360,9 @@ const App: React.FC = () => {
                    onCaptureScreen={handleCaptureClick}
                    onRecordVideo={handleVideoRecord}
                    onClose={handleCloseSession}
+                   onExportComplete={handleExportComplete}
+                   onExportArchive={() => activeSessionId && handleExportSessionArchive(activeSessionId)}
+                   onInsertSlides={handleInsertSlides}
                  />
                )}
                {view === AppView.INTEGRATIONS && <IntegrationsHub />}
@@ -1089,6 +1379,13 @@ const App: React.FC = () => {
         ref={fileInputRef}
         onChange={(e) => handleFileUpload(e.target.files)}
       />
+      <input 
+        type="file" 
+        accept={ARCHIVE_EXTENSION} 
+        className="hidden" 
+        ref={archiveInputRef}
+        onChange={(e) => { handleFileUpload(e.target.files); e.target.value = ''; }}
+      />
     </div>
   );
 };
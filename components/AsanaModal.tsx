@@ -1,22 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
-import { AsanaExportMode, Slide, AsanaWorkspace, AsanaProject, IntegrationConfig } from '../types';
-import { CheckCircle2, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight } from 'lucide-react';
-import { getAsanaWorkspaces, getAsanaProjects } from '../services/asanaService';
+import { AsanaExportMode, BugReportFields, AsanaWorkspace, AsanaProject, IntegrationConfig, TrackerModalProps } from '../types';
+import { CheckCircle2, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight, ClipboardList } from 'lucide-react';
+import { getAsanaWorkspaces, getAsanaProjects, fetchAsanaOpenTasks } from '../services/asanaService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
+import { DuplicateSuggestions } from './DuplicateSuggestions';
 
-interface AsanaModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: AsanaExportMode, workspaceId: string, projectId: string, title: string, description: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
 
-export const AsanaModal: React.FC<AsanaModalProps> = ({
+export const AsanaModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -24,7 +17,8 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
   slides,
   activeSlideId,
   error,
-  onConfigure
+  onConfigure,
+  onAttachToExisting
 }) => {
   const [mode, setMode] = useState<AsanaExportMode>('current');
   const [workspaces, setWorkspaces] = useState<AsanaWorkspace[]>([]);
@@ -39,6 +33,7 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
 
   const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
 
@@ -107,6 +102,8 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
       setIsGeneratingAI(true);
       try {
           const isSingle = mode === 'current';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
           const targetSlide = activeSlide; 
           
           const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
@@ -116,8 +113,8 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -316,6 +313,30 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Duplicates */}
+                    {onAttachToExisting && (
+                        <DuplicateSuggestions
+                            destinationKey={selectedProjectId}
+                            loadCandidates={() => {
+                                const config: IntegrationConfig = JSON.parse(localStorage.getItem('bugsnap_config') || '{}');
+                                return fetchAsanaOpenTasks(config.asanaToken!, selectedProjectId);
+                            }}
+                            title={title}
+                            description={description}
+                            onAttach={(issue) => onAttachToExisting(issue, title, description, mode === 'current')}
+                            attaching={loading}
+                        />
+                    )}
+
+                    {/* Classification */}
+                    <div>
+                        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                            <ClipboardList size={16} className="text-slate-400"/> Classification
+                        </label>
+                        <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                        <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Fills the project's Severity, Priority and Component custom fields when it has them.</p>
+                    </div>
+
                     {/* Export Mode Cards */}
                     <div className="flex-1">
                         <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
@@ -378,7 +399,7 @@ export const AsanaModal: React.FC<AsanaModalProps> = ({
           
           {!isCorsDemoError && (
              <button 
-               onClick={() => onExport(mode, selectedWorkspaceId, selectedProjectId, title, description)}
+               onClick={() => onExport({ mode, destinationId: selectedProjectId, containerId: selectedWorkspaceId, title, description, fields: reportFields })}
                disabled={loading || !selectedWorkspaceId || !selectedProjectId || isGeneratingAI}
                className="px-8 py-2.5 bg-[#F06A6A] hover:bg-[#e05a5a] text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
              >
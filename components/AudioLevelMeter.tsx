@@ -0,0 +1,28 @@
+
+import React, { useEffect, useRef } from 'react';
+
+interface AudioLevelMeterProps {
+  getLevel: () => number; // 0..1
+  className?: string;
+}
+
+/** Live loudness bar; polls every animation frame and writes the width directly to skip re-renders */
+export const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ getLevel, className = '' }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      if (barRef.current) barRef.current.style.width = `${Math.round(getLevel() * 100)}%`;
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [getLevel]);
+
+  return (
+    <div className={`h-1.5 rounded-full bg-white/30 overflow-hidden ${className}`} title="Audio level">
+      <div ref={barRef} className="h-full bg-white rounded-full transition-[width] duration-75" style={{ width: 0 }} />
+    </div>
+  );
+};
@@ -1,23 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { ClickUpExportMode, Slide, ClickUpHierarchyList, IntegrationConfig, ReportedIssue } from '../types';
-import { Layers, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, List, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, ListTree, ArrowRight, HardDrive, ShieldAlert, GitMerge } from 'lucide-react';
-import { extractListId, getAllClickUpLists, fetchClickUpTasks } from '../services/clickUpService';
+import { ClickUpExportMode, BugReportFields, ClickUpHierarchyList, IntegrationConfig, ReportedIssue, TrackerModalProps } from '../types';
+import { Layers, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, List, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, ListTree, ArrowRight, HardDrive, ShieldAlert, GitMerge, ClipboardList } from 'lucide-react';
+import { extractListId, getAllClickUpLists, fetchClickUpTasks, fetchClickUpOpenTasks } from '../services/clickUpService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
+import { DuplicateSuggestions } from './DuplicateSuggestions';
 import { requestDriveToken } from '../services/googleDriveService';
 
-interface ClickUpModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: ClickUpExportMode, listId: string, title: string, description: string, parentId?: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
 
-export const ClickUpModal: React.FC<ClickUpModalProps> = ({
+export const ClickUpModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -25,7 +18,8 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
   slides,
   activeSlideId,
   error,
-  onConfigure
+  onConfigure,
+  onAttachToExisting
 }) => {
   const [mode, setMode] = useState<ClickUpExportMode>('current');
   const [listId, setListId] = useState('');
@@ -42,6 +36,7 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
   const [isAuthorizingDrive, setIsAuthorizingDrive] = useState(false);
 
   const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
@@ -125,6 +120,8 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
       try {
           // Determine context based on mode
           const isSingle = mode === 'current' || mode === 'attach_to_task';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
           const targetSlide = activeSlide; 
           
           const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
@@ -134,8 +131,8 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -219,7 +216,7 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
          localStorage.setItem('bugsnap_config', JSON.stringify(parsed));
       }
 
-      onExport(mode, listId, title, description, selectedParentId);
+      onExport({ mode, destinationId: listId, parentId: selectedParentId, title, description, fields: reportFields });
   };
 
   return (
@@ -421,6 +418,30 @@ export const ClickUpModal: React.FC<ClickUpModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Duplicates */}
+                    {onAttachToExisting && (
+                        <DuplicateSuggestions
+                            destinationKey={listId}
+                            loadCandidates={() => {
+                                const config: IntegrationConfig = JSON.parse(localStorage.getItem('bugsnap_config') || '{}');
+                                return fetchClickUpOpenTasks(listId, config.clickUpToken!);
+                            }}
+                            title={title}
+                            description={description}
+                            onAttach={(issue) => onAttachToExisting(issue, title, description, mode === 'current' || mode === 'attach_to_task')}
+                            attaching={loading}
+                        />
+                    )}
+
+                    {/* Classification */}
+                    <div>
+                        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                            <ClipboardList size={16} className="text-slate-400"/> Classification
+                        </label>
+                        <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                        <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Priority is set on the task; component and labels become tags.</p>
+                    </div>
+
                     {/* Export Mode Cards */}
                     <div className="flex-1">
                         <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
@@ -0,0 +1,117 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Search, CornerDownLeft } from 'lucide-react';
+import { formatShortcut } from '../services/shortcutService';
+
+export interface EditorCommand {
+  id: string;
+  label: string;
+  group: string;
+  keys?: string[]; // Shortcut combos, see shortcutService
+  run: () => void;
+  enabled?: boolean; // Defaults to true
+  allowInInput?: boolean; // Fire even while typing in a field
+  hidden?: boolean; // Shortcut only, not listed in the palette
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: EditorCommand[];
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, commands }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const visible = commands.filter(c =>
+    !c.hidden && c.enabled !== false &&
+    terms.every(t => `${c.group} ${c.label}`.toLowerCase().includes(t))
+  );
+
+  const runCommand = (command: EditorCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, visible.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (visible[activeIndex]) runCommand(visible[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  let lastGroup = '';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm flex items-start justify-center pt-[15vh] z-[110] p-4" onMouseDown={onClose}>
+      <div
+        className="bg-white dark:bg-[#1e1e1e] rounded-xl shadow-2xl w-full max-w-lg border border-slate-200 dark:border-[#272727] overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-slate-100 dark:border-[#272727]">
+          <Search size={16} className="text-slate-400" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setActiveIndex(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or integration..."
+            className="flex-1 py-3.5 bg-transparent text-sm text-slate-800 dark:text-zinc-100 placeholder-slate-400 outline-none"
+          />
+          <kbd className="text-[10px] font-bold text-slate-400 border border-slate-200 dark:border-[#3f3f3f] rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto p-1">
+          {visible.length === 0 && (
+            <p className="px-3 py-6 text-center text-sm text-slate-400 dark:text-zinc-500">No matching commands</p>
+          )}
+          {visible.map((command, index) => {
+            const showGroup = command.group !== lastGroup;
+            lastGroup = command.group;
+            return (
+              <React.Fragment key={command.id}>
+                {showGroup && (
+                  <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 dark:text-zinc-500">{command.group}</div>
+                )}
+                <button
+                  onClick={() => runCommand(command)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-left text-sm transition-colors ${index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'text-slate-700 dark:text-zinc-200'}`}
+                >
+                  <span>{command.label}</span>
+                  <span className="flex items-center gap-2">
+                    {command.keys && command.keys.length > 0 && (
+                      <kbd className="text-[10px] font-bold text-slate-500 dark:text-zinc-400 bg-slate-100 dark:bg-[#272727] rounded px-1.5 py-0.5">{formatShortcut(command.keys[0])}</kbd>
+                    )}
+                    {index === activeIndex && <CornerDownLeft size={12} className="opacity-60" />}
+                  </span>
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
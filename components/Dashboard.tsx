@@ -1,15 +1,12 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { ReportedIssue, IssueMetric, IntegrationConfig, IntegrationSource, ClickUpHierarchyList, DashboardFilter, SortField, SortOrder, AsanaProject } from '../types';
-import { fetchClickUpTasks, getAllClickUpLists } from '../services/clickUpService';
+import { ReportedIssue, IssueMetric, IntegrationConfig, IntegrationSource, TrackerDestination, DashboardFilter, SortField, SortOrder } from '../types';
 import { fetchSlackHistory, postSlackMessage, generateDashboardSummary } from '../services/slackService';
-import { fetchJiraIssues } from '../services/jiraService';
 import { postTeamsMessage } from '../services/teamsService';
-import { fetchAsanaTasks, getAsanaWorkspaces, getAsanaProjects } from '../services/asanaService';
-import { fetchTrelloCards } from '../services/trelloService';
-import { fetchZohoSprintsItems } from '../services/zohoSprintsService';
+import { TRACKERS, getTracker } from '../services/trackerService';
 import { useToast } from './ToastProvider';
 import { IntegrationModal } from './IntegrationModal';
+import { TRACKER_ICONS } from './trackerIcons';
 import { 
   ExternalLink, 
   CheckCircle2, 
@@ -26,12 +23,8 @@ import {
   LayoutTemplate,
   AlertTriangle,
   RefreshCcw,
-  CreditCard,
-  Briefcase,
-  Database,
   Plus,
-  Users,
-  Trello
+  Users
 } from 'lucide-react';
 
 const KPICard = ({ label, value, color, icon }: { label: string, value: string | number, color: string, icon: React.ReactNode }) => {
@@ -85,28 +78,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  // ClickUp Lists
-  const [availableLists, setAvailableLists] = useState<ClickUpHierarchyList[]>([]);
-  
-  // Asana Projects (For Filtering)
-  const [asanaProjects, setAsanaProjects] = useState<AsanaProject[]>([]);
-  const [selectedAsanaProjectId, setSelectedAsanaProjectId] = useState('');
-
-  // Initialize with persisted list ID if available
-  const [selectedListId, setSelectedListId] = useState<string>(() => {
-      try {
-        const savedConfig = localStorage.getItem('bugsnap_config');
-        if (savedConfig) {
-            const config = JSON.parse(savedConfig);
-            return config.clickUpListId || '';
-        }
-      } catch (e) {
-          console.error("Failed to parse config", e);
-      }
-      return '';
-  });
-  
-  const [isLoadingLists, setIsLoadingLists] = useState(false);
+  // Destinations (lists, projects) for trackers whose dashboard shows one at a time
+  const [destinations, setDestinations] = useState<TrackerDestination[]>([]);
+  const [destinationsSource, setDestinationsSource] = useState<IntegrationSource | null>(null);
+  const [selectedDestinationId, setSelectedDestinationId] = useState('');
+  const [isLoadingDestinations, setIsLoadingDestinations] = useState(false);
 
   // Filters & Sort
   const [filters, setFilters] = useState<DashboardFilter>({
@@ -132,14 +108,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
          if (savedConfig) {
              const config: IntegrationConfig = JSON.parse(savedConfig);
              
-             const connected: IntegrationSource[] = [];
-             if (config.clickUpToken) connected.push('ClickUp');
-             if (config.jiraToken) connected.push('Jira');
+             const connected: IntegrationSource[] = TRACKERS.filter(tracker => tracker.isConfigured(config)).map(tracker => tracker.source);
              if (config.slackToken) connected.push('Slack');
              if (config.teamsWebhookUrl) connected.push('Teams'); // Updated to use webhookUrl check
-             if (config.asanaToken) connected.push('Asana');
-             if (config.trelloToken) connected.push('Trello');
-             if (config.zohoSprintsToken) connected.push('ZohoSprints');
              
              setConnectedSources(connected);
 
@@ -147,53 +118,53 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
              if (connected.length > 0 && !connected.includes(activeSource)) {
                  setActiveSource(connected[0]);
              }
-
-             // ClickUp Lists
-             if (config.clickUpToken) {
-                 setIsLoadingLists(true);
-                 getAllClickUpLists(config.clickUpToken)
-                     .then(lists => {
-                         setAvailableLists(lists);
-                         if (!selectedListId) {
-                             if (config.clickUpListId) {
-                                 setSelectedListId(config.clickUpListId);
-                             } else if (lists.length > 0) {
-                                 setSelectedListId(lists[0].id);
-                             }
-                         }
-                     })
-                     .catch(err => {
-                         console.error("Failed to load lists for dashboard", err);
-                         if (err.message === 'corsdemo_required') {
-                             setError('corsdemo_required');
-                         }
-                     })
-                     .finally(() => setIsLoadingLists(false));
-             }
-
-             // Asana Projects
-             if (config.asanaToken) {
-                 getAsanaWorkspaces(config.asanaToken).then(ws => {
-                     if (ws.length > 0) {
-                         getAsanaProjects(config.asanaToken!, ws[0].gid).then(projs => {
-                             setAsanaProjects(projs);
-                             if (projs.length > 0) setSelectedAsanaProjectId(projs[0].gid);
-                         });
-                     }
-                 }).catch(err => console.error(err));
-             }
          }
      } catch(e) { console.error("Config load error", e); }
   }, []);
 
-  const handleListChange = (newListId: string) => {
-      setSelectedListId(newListId);
+  // Load the active tracker's destinations for the picker
+  useEffect(() => {
+      setDestinations([]);
+      setDestinationsSource(null);
+      setSelectedDestinationId('');
+      setIsLoadingDestinations(false);
+
+      const tracker = getTracker(activeSource);
+      const savedConfig = localStorage.getItem('bugsnap_config');
+      if (!tracker || tracker.dashboardScope !== 'destination' || !savedConfig) return;
+      const config: IntegrationConfig = JSON.parse(savedConfig);
+      if (!tracker.isConfigured(config)) return;
+
+      let cancelled = false;
+      setIsLoadingDestinations(true);
+      tracker.listDestinations(config)
+          .then(list => {
+              if (cancelled) return;
+              setDestinations(list);
+              setDestinationsSource(activeSource);
+              // ClickUp shares its list choice with the export modal
+              const remembered = activeSource === 'ClickUp' ? config.clickUpListId : undefined;
+              setSelectedDestinationId(remembered || (list.length > 0 ? list[0].id : ''));
+          })
+          .catch(err => {
+              console.error("Failed to load destinations for dashboard", err);
+              if (!cancelled && err.message === 'corsdemo_required') {
+                  setError('corsdemo_required');
+              }
+          })
+          .finally(() => { if (!cancelled) setIsLoadingDestinations(false); });
+      return () => { cancelled = true; };
+  }, [activeSource]);
+
+  const handleDestinationChange = (destinationId: string) => {
+      setSelectedDestinationId(destinationId);
+      if (activeSource !== 'ClickUp') return;
       try {
           const savedConfig = localStorage.getItem('bugsnap_config');
           if (savedConfig) {
               const config = JSON.parse(savedConfig);
-              config.clickUpListId = newListId;
-              const listName = availableLists.find(l => l.id === newListId)?.name;
+              config.clickUpListId = destinationId;
+              const listName = destinations.find(d => d.id === destinationId)?.name;
               if (listName) config.clickUpListName = listName;
               localStorage.setItem('bugsnap_config', JSON.stringify(config));
           }
@@ -205,7 +176,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
   };
 
   // --- Data Loading ---
-  const loadData = async (isRefresh = false, overrideListId?: string) => {
+  const loadData = async (isRefresh = false) => {
     setIsLoading(true);
     setError(null);
     
@@ -218,37 +189,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
         }
 
         const config: IntegrationConfig = JSON.parse(savedConfig);
-        const targetListId = overrideListId || selectedListId || config.clickUpListId;
-
-        if (activeSource === 'ClickUp') {
-            if (!config.clickUpToken || !targetListId) {
-                if (!targetListId && availableLists.length > 0) {
-                    // Wait for selection
-                } else if (!config.clickUpToken) {
-                    setError("ClickUp is not fully configured. Please go to Integrations.");
-                }
-                setIssues([]);
-                setIsLoading(false);
-                return;
-            }
-            const tasks = await fetchClickUpTasks(targetListId, config.clickUpToken);
-            setIssues(tasks);
-        } 
-        else if (activeSource === 'Jira') {
-            if (!config.jiraUrl || !config.jiraToken || !config.jiraEmail) {
-                setError("Jira is not configured.");
-                setIssues([]);
-                setIsLoading(false);
-                return;
-            }
-            const jiraIssues = await fetchJiraIssues({
-                domain: config.jiraUrl,
-                email: config.jiraEmail,
-                token: config.jiraToken
-            });
-            setIssues(jiraIssues);
-        }
-        else if (activeSource === 'Slack') {
+
+        if (activeSource === 'Slack') {
             if (!config.slackToken || !config.slackChannel) {
                 setError("Slack is not configured.");
                 setIssues([]);
@@ -258,40 +200,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
             const history = await fetchSlackHistory(config.slackToken, config.slackChannel);
             setIssues(history);
         }
-        else if (activeSource === 'Asana') {
-            if (!config.asanaToken) {
-                setError("Asana is not configured.");
+        else {
+            const tracker = getTracker(activeSource);
+            if (!tracker) {
                 setIssues([]);
                 setIsLoading(false);
                 return;
             }
-            if (!selectedAsanaProjectId) {
+            if (!tracker.isConfigured(config)) {
+                setError(`${tracker.name} is not configured.`);
                 setIssues([]);
                 setIsLoading(false);
                 return;
             }
-            const asanaTasks = await fetchAsanaTasks(config.asanaToken, selectedAsanaProjectId);
-            setIssues(asanaTasks);
-        }
-        else if (activeSource === 'Trello') {
-            if (!config.trelloApiKey || !config.trelloToken) {
-                setError("Trello is not configured.");
-                setIssues([]);
-                setIsLoading(false);
-                return;
-            }
-            const trelloCards = await fetchTrelloCards(config.trelloApiKey, config.trelloToken);
-            setIssues(trelloCards);
-        }
-        else if (activeSource === 'ZohoSprints') {
-            if (!config.zohoSprintsToken || !config.zohoSprintsDC) {
-                setError("Zoho Sprints is not configured.");
-                setIssues([]);
-                setIsLoading(false);
-                return;
+            let destination: TrackerDestination | undefined;
+            if (tracker.dashboardScope === 'destination') {
+                // Wait for the picker; the list may still belong to the previous source
+                destination = destinationsSource === activeSource
+                    ? destinations.find(d => d.id === selectedDestinationId) || (selectedDestinationId ? { id: selectedDestinationId, name: '' } : undefined)
+                    : undefined;
+                if (!destination) {
+                    setIssues([]);
+                    setIsLoading(false);
+                    return;
+                }
             }
-            setError("Select a Team/Project context feature coming soon for Zoho Sprints dashboard.");
-            setIssues([]);
+            setIssues(await tracker.fetchIssues(config, destination));
         }
         
         if (isRefresh) addToast("Dashboard updated", 'success');
@@ -307,7 +241,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
   // Trigger load when source or list changes
   useEffect(() => {
     loadData();
-  }, [activeSource, selectedListId, selectedAsanaProjectId]);
+  }, [activeSource, destinationsSource, selectedDestinationId]);
 
 
   // --- Derived Data (Filtering & Analytics) ---
@@ -518,16 +452,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
   };
 
   // Icon Helper
+  const activeTracker = getTracker(activeSource);
+
   const getSourceIcon = (source: IntegrationSource) => {
-      switch(source) {
-          case 'ClickUp': return <Layers size={16} />;
-          case 'Jira': return <CreditCard size={16} />;
-          case 'Slack': return <Slack size={16} />;
-          case 'Asana': return <CheckCircle2 size={16} />;
-          case 'Trello': return <Trello size={16} />;
-          case 'ZohoSprints': return <Database size={16} />;
-          default: return <Layers size={16} />;
-      }
+      if (source === 'Slack') return <Slack size={16} />;
+      const TrackerIcon = TRACKER_ICONS[source] || Layers;
+      return <TrackerIcon size={16} />;
   };
 
   return (
@@ -607,30 +537,30 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
             </div>
             
             <div className="flex items-center gap-3">
-                {/* List Selector (Context Switcher) */}
-                {activeSource === 'ClickUp' && (
+                {/* Destination Selector (Context Switcher) */}
+                {activeTracker?.dashboardScope === 'destination' && (
                     <div className="flex items-center gap-2 bg-white dark:bg-[#1e1e1e] p-2 rounded-xl border border-slate-200 dark:border-[#272727] shadow-sm transition-colors">
-                        <div className="bg-[#7B68EE]/10 dark:bg-[#7B68EE]/20 p-1.5 rounded-lg text-[#7B68EE] dark:text-[#9d8ef0]">
-                            <Layers size={18} />
+                        <div className="bg-blue-500/10 dark:bg-blue-500/20 p-1.5 rounded-lg text-blue-600 dark:text-blue-400">
+                            {getSourceIcon(activeSource)}
                         </div>
-                        <span className="text-xs font-bold text-slate-400 dark:text-zinc-500 uppercase px-2 hidden sm:inline">List:</span>
+                        <span className="text-xs font-bold text-slate-400 dark:text-zinc-500 uppercase px-2 hidden sm:inline">{activeTracker.destinationLabel || 'Project'}:</span>
                         <div className="relative min-w-[150px] sm:min-w-[200px]">
                             <select 
-                                value={selectedListId} 
-                                onChange={(e) => handleListChange(e.target.value)}
-                                className="w-full appearance-none bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg py-1.5 pl-3 pr-8 text-sm font-bold text-slate-700 dark:text-zinc-200 focus:ring-2 focus:ring-[#7B68EE] focus:border-transparent outline-none cursor-pointer hover:bg-slate-100 dark:hover:bg-[#222] transition"
-                                disabled={isLoadingLists}
+                                value={selectedDestinationId} 
+                                onChange={(e) => handleDestinationChange(e.target.value)}
+                                className="w-full appearance-none bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg py-1.5 pl-3 pr-8 text-sm font-bold text-slate-700 dark:text-zinc-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none cursor-pointer hover:bg-slate-100 dark:hover:bg-[#222] transition"
+                                disabled={isLoadingDestinations}
                             >
-                                {availableLists.map(l => (
-                                    <option key={l.id} value={l.id}>{l.groupName} &gt; {l.name}</option>
+                                {destinations.map(d => (
+                                    <option key={d.id} value={d.id}>{d.group ? `${d.group} > ${d.name}` : d.name}</option>
                                 ))}
-                                {availableLists.length === 0 && <option value="">{isLoadingLists ? 'Loading lists...' : 'No lists found'}</option>}
+                                {destinations.length === 0 && <option value="">{isLoadingDestinations ? 'Loading...' : 'None found'}</option>}
                             </select>
                             <ChevronDown size={14} className="absolute right-3 top-2.5 text-slate-400 pointer-events-none"/>
                         </div>
                         <button 
                             onClick={handleRefresh} 
-                            className="p-1.5 rounded-lg text-slate-400 hover:text-[#7B68EE] hover:bg-[#7B68EE]/5 dark:hover:bg-[#7B68EE]/10 transition"
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-500/5 dark:hover:bg-blue-500/10 transition"
                             title="Refresh Data"
                             disabled={isLoading}
                         >
@@ -639,56 +569,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onCapture, onRecord, onUpl
                     </div>
                 )}
                  
-                 {activeSource === 'Jira' && (
-                     <div className="flex items-center gap-2">
-                        <span className="text-sm font-bold text-slate-500">Jira Projects</span>
-                        <button 
-                            onClick={handleRefresh} 
-                            className="p-1.5 rounded-lg text-slate-400 hover:text-[#0052CC] transition"
-                            title="Refresh Data"
-                            disabled={isLoading}
-                        >
-                            <RefreshCcw size={16} className={isLoading ? "animate-spin" : ""} />
-                        </button>
-                     </div>
-                 )}
-                 
-                 {activeSource === 'Asana' && (
-                    <div className="flex items-center gap-2 bg-white dark:bg-[#1e1e1e] p-2 rounded-xl border border-slate-200 dark:border-[#272727] shadow-sm transition-colors">
-                        <div className="bg-[#F06A6A]/10 dark:bg-[#F06A6A]/20 p-1.5 rounded-lg text-[#F06A6A] dark:text-[#F06A6A]">
-                            <Briefcase size={18} />
-                        </div>
-                        <span className="text-xs font-bold text-slate-400 dark:text-zinc-500 uppercase px-2 hidden sm:inline">Project:</span>
-                        <div className="relative min-w-[150px] sm:min-w-[200px]">
-                            <select 
-                                value={selectedAsanaProjectId} 
-                                onChange={(e) => setSelectedAsanaProjectId(e.target.value)}
-                                className="w-full appearance-none bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg py-1.5 pl-3 pr-8 text-sm font-bold text-slate-700 dark:text-zinc-200 focus:ring-2 focus:ring-[#F06A6A] focus:border-transparent outline-none cursor-pointer hover:bg-slate-100 dark:hover:bg-[#222] transition"
-                            >
-                                {asanaProjects.map(p => (
-                                    <option key={p.gid} value={p.gid}>{p.name}</option>
-                                ))}
-                                {asanaProjects.length === 0 && <option value="">No Projects Found</option>}
-                            </select>
-                            <ChevronDown size={14} className="absolute right-3 top-2.5 text-slate-400 pointer-events-none"/>
-                        </div>
-                        <button 
-                            onClick={handleRefresh} 
-                            className="p-1.5 rounded-lg text-slate-400 hover:text-[#F06A6A] hover:bg-[#F06A6A]/5 dark:hover:bg-[#F06A6A]/10 transition"
-                            title="Refresh Data"
-                            disabled={isLoading}
-                        >
-                            <RefreshCcw size={16} className={isLoading ? "animate-spin" : ""} />
-                        </button>
-                    </div>
-                 )}
-
-                 {activeSource === 'Trello' && (
+                 {activeTracker?.dashboardScope === 'account' && (
                      <div className="flex items-center gap-2">
-                        <span className="text-sm font-bold text-slate-500">My Cards</span>
+                        <span className="text-sm font-bold text-slate-500">{activeSource === 'Trello' ? 'My Cards' : `${activeTracker.name} Issues`}</span>
                         <button 
                             onClick={handleRefresh} 
-                            className="p-1.5 rounded-lg text-slate-400 hover:text-[#0079BF] transition"
+                            className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 transition"
                             title="Refresh Data"
                             disabled={isLoading}
                         >
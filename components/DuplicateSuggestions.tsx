@@ -0,0 +1,134 @@
+
+import React, { useState, useEffect } from 'react';
+import { DuplicateCandidate, DuplicateMatch, IntegrationConfig } from '../types';
+import { findDuplicates } from '../services/duplicateService';
+import { isGeminiConfigured } from '../services/geminiService';
+import { Copy, ExternalLink, Loader2, MessageSquarePlus } from 'lucide-react';
+
+interface DuplicateSuggestionsProps {
+  destinationKey: string; // Project or list the issue would be filed in; empty while none is picked
+  loadCandidates: () => Promise<DuplicateCandidate[]>;
+  title: string;
+  description: string;
+  onAttach: (issue: DuplicateMatch) => void;
+  attaching: boolean;
+}
+
+const loadSemanticPreference = () => {
+  const saved = localStorage.getItem('bugsnap_config');
+  return saved ? !!(JSON.parse(saved) as IntegrationConfig).duplicateSemanticMatch : false;
+};
+
+/** Likely duplicates among the destination's open issues, with the option to add to one instead of filing */
+export const DuplicateSuggestions: React.FC<DuplicateSuggestionsProps> = ({ destinationKey, loadCandidates, title, description, onAttach, attaching }) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[] | null>(null);
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [semantic, setSemantic] = useState(loadSemanticPreference);
+  const [attachingId, setAttachingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCandidates(null);
+    setMatches([]);
+    if (!destinationKey) return;
+    let cancelled = false;
+    setIsChecking(true);
+    loadCandidates()
+      .then(result => { if (!cancelled) setCandidates(result); })
+      .catch(e => {
+        // Filing still works without the check; don't block the export on it
+        console.warn("Duplicate check skipped:", e);
+        if (!cancelled) setCandidates([]);
+      })
+      .finally(() => { if (!cancelled) setIsChecking(false); });
+    return () => { cancelled = true; };
+  }, [destinationKey]);
+
+  useEffect(() => {
+    if (!candidates || candidates.length === 0 || !title.trim()) {
+      setMatches([]);
+      // A check cancelled mid-flight would leave the spinner on; while candidates load, that effect owns it
+      if (candidates) setIsChecking(false);
+      return;
+    }
+    let cancelled = false;
+    // Wait for typing to settle; semantic matching calls the embedding API
+    const timer = setTimeout(async () => {
+      setIsChecking(true);
+      try {
+        const ranked = await findDuplicates({ title, description }, candidates, semantic);
+        if (!cancelled) setMatches(ranked);
+      } catch {
+        // A failed check shouldn't leave the previous title's matches showing
+        if (!cancelled) setMatches([]);
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    }, 600);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [candidates, title, description, semantic]);
+
+  useEffect(() => {
+    if (!attaching) setAttachingId(null);
+  }, [attaching]);
+
+  const toggleSemantic = (enabled: boolean) => {
+    setSemantic(enabled);
+    const saved = localStorage.getItem('bugsnap_config');
+    const current = saved ? JSON.parse(saved) : {};
+    localStorage.setItem('bugsnap_config', JSON.stringify({ ...current, duplicateSemanticMatch: enabled }));
+  };
+
+  if (!destinationKey) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2">
+          <Copy size={16} className="text-slate-400"/> Possible Duplicates
+          {isChecking && <Loader2 size={14} className="animate-spin text-slate-400" />}
+        </label>
+        {isGeminiConfigured() && (
+          <label className="flex items-center gap-1.5 text-[11px] text-slate-500 dark:text-zinc-400 cursor-pointer" title="Compare meaning with Gemini embeddings, not only shared words">
+            <input type="checkbox" checked={semantic} onChange={(e) => toggleSemantic(e.target.checked)} className="accent-blue-600" />
+            AI matching
+          </label>
+        )}
+      </div>
+
+      {matches.length === 0 ? (
+        <p className="text-xs text-slate-400 dark:text-zinc-500">
+          {isChecking ? 'Checking open issues...' : 'No similar open issues found.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {matches.map(match => (
+            <div key={match.id} className="p-3 rounded-xl border border-amber-200 dark:border-amber-800/60 bg-amber-50/60 dark:bg-amber-900/10">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-slate-800 dark:text-zinc-100 truncate" title={match.title}>{match.title}</div>
+                  <div className="text-[11px] text-slate-500 dark:text-zinc-400 mt-0.5">
+                    {match.id} · {match.status} · {Math.round(match.score * 100)}% similar
+                  </div>
+                </div>
+                {match.url && (
+                  <a href={match.url} target="_blank" rel="noreferrer" className="text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 shrink-0" title="Open issue">
+                    <ExternalLink size={14} />
+                  </a>
+                )}
+              </div>
+              <button
+                onClick={() => { setAttachingId(match.id); onAttach(match); }}
+                disabled={attaching}
+                className="mt-2 text-xs font-bold text-amber-700 dark:text-amber-400 hover:text-amber-800 dark:hover:text-amber-300 flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {attaching && attachingId === match.id ? <Loader2 size={12} className="animate-spin" /> : <MessageSquarePlus size={12} />}
+                Add screenshots to this issue instead
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,25 +1,35 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Slide, Annotation, ToolType, Point, ClickUpExportMode, SlackExportMode, IntegrationConfig, IntegrationSource, JiraExportMode, TeamsExportMode, AsanaExportMode, WebhookExportMode, ZohoSprintsExportMode, TrelloExportMode } from '../types';
-import { refineBugReport, scanImageForIssues } from '../services/geminiService';
-import { createClickUpTask, uploadClickUpAttachment, generateTaskDescription, generateMasterDescription, updateClickUpTask } from '../services/clickUpService';
+import { Slide, BugReportFields, DuplicateMatch, Annotation, ToolType, Point, RedactionStyle, SlackExportMode, IntegrationConfig, IntegrationSource, TeamsExportMode, WebhookExportMode, TrackerExportRequest, TrackerIssue } from '../types';
+import { refineBugReport, scanImageForIssues, scanImageForSecrets, isGeminiConfigured, SecretCategory, transcribeNarration, draftReproSteps, ReproSlideInput } from '../services/geminiService';
+import { generateTaskDescription, generateMasterDescription } from '../services/clickUpService';
 import { postSlackMessage, uploadSlackFile, generateSlideMessage } from '../services/slackService';
-import { createJiraIssue, uploadJiraAttachment } from '../services/jiraService';
 import { postTeamsMessage } from '../services/teamsService';
-import { createAsanaTask, uploadAsanaAttachment } from '../services/asanaService';
-import { createTrelloCard, uploadTrelloAttachment } from '../services/trelloService';
 import { sendToWebhook } from '../services/webhookService';
-import { createZohoSprintsItem, uploadZohoSprintsAttachment } from '../services/zohoSprintsService';
-import { uploadToDrive } from '../services/googleDriveService';
-import { ClickUpModal } from './ClickUpModal';
+import { TRACKERS, getTracker, exportToTracker, formatAttachmentLinks, ExportRenderer } from '../services/trackerService';
+import { ResizeHandle, hexToRgba, getAnnotationBounds, getBadgePosition, isPointInAnnotation, isLinearAnnotation, getResizeHandle, getHandlePoints, translateAnnotation, resizeAnnotation, getArrowHeadPoints, getTextFontSize, getFreehandPath, drawAnnotationShape, drawRedaction, isRedaction, getNumberedAnnotations, getAnnotationTimeRange, isAnnotationVisibleAt } from '../services/annotationService';
 import { SlackModal } from './SlackModal';
-import { JiraModal } from './JiraModal';
 import { TeamsModal } from './TeamsModal';
-import { AsanaModal } from './AsanaModal';
-import { TrelloModal } from './TrelloModal';
 import { WebhookModal } from './WebhookModal';
-import { ZohoSprintsModal } from './ZohoSprintsModal';
+import { TRACKER_MODALS } from './trackerModals';
+import { TRACKER_ICONS } from './trackerIcons';
+import { VideoEditModal } from './VideoEditModal';
+import { ReproDraftModal } from './ReproDraftModal';
+import { LogPanel } from './LogPanel';
+import { ReportFieldsPanel } from './ReportFieldsForm';
 import { IntegrationModal } from './IntegrationModal';
+import { CommandPalette, EditorCommand } from './CommandPalette';
+import { VideoTimeline, FRAME_DURATION } from './VideoTimeline';
+import { generateHtmlReport } from '../services/reportService';
+import { downloadBlob, formatVideoTime, readFileAsDataURL, generateThumbnail } from '../services/mediaService';
+import { VideoEditOptions, adjustAnnotationsForEdit, formatFileSize } from '../services/videoService';
+import { extractKeyframeSlides } from '../services/keyframeService';
+import { createAnnotatedGif } from '../services/clipService';
+import { getLogAttachments } from '../services/logService';
+import { getReportEnvironmentFields, formatEnvironmentMrkdwn } from '../services/environmentService';
+import { getExportReportFields, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { formatDuplicateComment } from '../services/duplicateService';
+import { matchesShortcut, isEditableTarget, formatShortcut } from '../services/shortcutService';
 import { useToast } from './ToastProvider';
 import { jsPDF } from "jspdf";
 import { 
@@ -45,11 +55,8 @@ import {
   AlertTriangle,
   Check,
   ExternalLink,
-  CreditCard,
   Users,
-  CheckCircle2,
   Webhook,
-  Database,
   Share2,
   ChevronDown,
   Settings,
@@ -57,7 +64,20 @@ import {
   Sparkles,
   Loader2,
   ScanEye,
-  Trello
+  ArrowUpRight,
+  Minus,
+  Pencil,
+  Type,
+  EyeOff,
+  ShieldAlert,
+  Redo2,
+  Command,
+  FileArchive,
+  FileCode,
+  ImagePlus,
+  Scissors,
+  Clapperboard,
+  Mic
 } from 'lucide-react';
 
 interface EditorProps {
@@ -70,11 +90,39 @@ interface EditorProps {
   onCaptureScreen: () => void;
   onRecordVideo: () => void;
   onClose: () => void;
+  onExportComplete: (platform: string, url?: string) => void; // Recorded in the session's export history
+  onExportArchive: () => void; // Download the session as a .bugsnap archive
+  onInsertSlides: (afterId: string, slides: Slide[]) => void; // Add slides right after an existing one
 }
 
-const AVAILABLE_INTEGRATIONS: IntegrationSource[] = [
-  'ClickUp', 'Jira', 'Slack', 'Teams', 'Asana', 'Trello', 'Webhook', 'GoogleDrive'
-];
+// Messaging and storage destinations; issue trackers come from the registry
+const CHANNEL_INTEGRATIONS: IntegrationSource[] = ['Slack', 'Teams', 'Webhook', 'GoogleDrive'];
+const AVAILABLE_INTEGRATIONS: IntegrationSource[] = [...TRACKERS.map(tracker => tracker.source), ...CHANNEL_INTEGRATIONS];
+
+const ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#a855f7', '#0f172a'];
+
+const HISTORY_LIMIT = 100;
+
+// How long a new video annotation stays on screen, starting at the playhead
+const VIDEO_ANNOTATION_DURATION = 3;
+
+// GIF length when no observation is selected to take the range from
+const GIF_DEFAULT_LENGTH = 5;
+
+interface SlideHistory {
+  past: Annotation[][];
+  future: Annotation[][];
+  lastKey?: string;
+  lastAt?: number;
+}
+
+const SECRET_LABELS: Record<SecretCategory, string> = {
+  email: 'Email address',
+  phone: 'Phone number',
+  credit_card: 'Card number',
+  api_key: 'API key / token',
+  name: 'Personal name'
+};
 
 export const Editor: React.FC<EditorProps> = ({ 
   slides, 
@@ -85,7 +133,10 @@ export const Editor: React.FC<EditorProps> = ({
   onAddSlide,
   onCaptureScreen,
   onRecordVideo,
-  onClose
+  onClose,
+  onExportComplete,
+  onExportArchive,
+  onInsertSlides
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const mediaRef = useRef<HTMLImageElement | HTMLVideoElement>(null);
@@ -104,28 +155,44 @@ export const Editor: React.FC<EditorProps> = ({
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentPoint, setCurrentPoint] = useState<Point | null>(null);
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [redactStyle, setRedactStyle] = useState<RedactionStyle>('solid');
   const [isPlaying, setIsPlaying] = useState(false);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const isProbingDurationRef = useRef(false);
   const [currentTime, setCurrentTime] = useState(0);
+  const [mediaWidth, setMediaWidth] = useState(0);
   const [aiLoadingId, setAiLoadingId] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
+  const [isScanningSecrets, setIsScanningSecrets] = useState(false);
+  const [isExtractingKeyframes, setIsExtractingKeyframes] = useState(false);
+  const [isVideoEditOpen, setIsVideoEditOpen] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isReproDraftOpen, setIsReproDraftOpen] = useState(false);
+  const [reproDraft, setReproDraft] = useState<BugReportFields | null>(null);
+  const [attachKeyframes, setAttachKeyframes] = useState<boolean>(() => {
+      const saved = localStorage.getItem('bugsnap_config');
+      return saved ? JSON.parse(saved).attachVideoKeyframes !== false : true;
+  });
+  const [attachGifs, setAttachGifs] = useState<boolean>(() => {
+      const saved = localStorage.getItem('bugsnap_config');
+      return saved ? !!JSON.parse(saved).attachVideoGifs : false;
+  });
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
   const [isAddMenuOpen, setIsAddMenuOpen] = useState(false);
   const [isExportDropdownOpen, setIsExportDropdownOpen] = useState(false);
   
   // Interaction State
-  const [resizeHandle, setResizeHandle] = useState<string | null>(null);
+  const [resizeHandle, setResizeHandle] = useState<ResizeHandle | null>(null);
   const [isDraggingShape, setIsDraggingShape] = useState(false);
   const [dragOffset, setDragOffset] = useState<Point | null>(null);
   
   // Modal State
-  const [isClickUpModalOpen, setIsClickUpModalOpen] = useState(false);
+  const [openTracker, setOpenTracker] = useState<IntegrationSource | null>(null); // Issue tracker whose export modal is open
   const [isSlackModalOpen, setIsSlackModalOpen] = useState(false);
-  const [isJiraModalOpen, setIsJiraModalOpen] = useState(false);
   const [isTeamsModalOpen, setIsTeamsModalOpen] = useState(false);
-  const [isAsanaModalOpen, setIsAsanaModalOpen] = useState(false);
-  const [isTrelloModalOpen, setIsTrelloModalOpen] = useState(false);
   const [isWebhookModalOpen, setIsWebhookModalOpen] = useState(false);
-  const [isZohoSprintsModalOpen, setIsZohoSprintsModalOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const [showCloseConfirm, setShowCloseConfirm] = useState(false);
@@ -138,16 +205,30 @@ export const Editor: React.FC<EditorProps> = ({
   // Connected Integrations
   const [connectedSources, setConnectedSources] = useState<IntegrationSource[]>([]);
 
-  // Update local annotations when active slide changes
+  // Undo/Redo (annotation snapshots, per slide)
+  const historyRef = useRef<Record<string, SlideHistory>>({});
+  const gestureStartRef = useRef<Annotation[] | null>(null);
+  const [, setHistoryVersion] = useState(0);
+
+  // Keyboard Shortcuts
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const commandsRef = useRef<EditorCommand[]>([]);
+
+  // Reset interaction state when switching slides
+  useEffect(() => {
+    setSelectedAnnotationId(null);
+    setStartPoint(null);
+    setCurrentPoint(null);
+    setIsDrawing(false);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setVideoDuration(0);
+  }, [activeSlideId]);
+
+  // Update local annotations when the active slide changes or is saved
   useEffect(() => {
     if (activeSlide) {
       setAnnotations(activeSlide.annotations);
-      setSelectedAnnotationId(null);
-      setStartPoint(null);
-      setCurrentPoint(null);
-      setIsDrawing(false);
-      setIsPlaying(false);
-      setCurrentTime(0);
     }
   }, [activeSlideId, slides]);
 
@@ -156,22 +237,17 @@ export const Editor: React.FC<EditorProps> = ({
       const checkConnections = () => {
           const saved = localStorage.getItem('bugsnap_config');
           if (saved) {
-              const config = JSON.parse(saved);
-              const connected: IntegrationSource[] = [];
-              if (config.clickUpToken) connected.push('ClickUp');
-              if (config.jiraToken) connected.push('Jira');
+              const config: IntegrationConfig = JSON.parse(saved);
+              const connected: IntegrationSource[] = TRACKERS.filter(tracker => tracker.isConfigured(config)).map(tracker => tracker.source);
               if (config.slackToken) connected.push('Slack');
               if (config.teamsWebhookUrl) connected.push('Teams'); // Updated check
-              if (config.asanaToken) connected.push('Asana');
-              if (config.trelloToken) connected.push('Trello');
               if (config.webhookUrl) connected.push('Webhook');
-              if (config.zohoSprintsToken) connected.push('ZohoSprints');
               if (config.googleDriveToken) connected.push('GoogleDrive');
               setConnectedSources(connected);
           }
       };
       checkConnections();
-  }, [isClickUpModalOpen, isJiraModalOpen, isSlackModalOpen, isTeamsModalOpen, isAsanaModalOpen, isTrelloModalOpen, isWebhookModalOpen, isZohoSprintsModalOpen, integrationModalSource]);
+  }, [openTracker, isSlackModalOpen, isTeamsModalOpen, isWebhookModalOpen, integrationModalSource]);
 
   // Auto-focus new annotation comment
   useEffect(() => {
@@ -184,6 +260,24 @@ export const Editor: React.FC<EditorProps> = ({
      }
   }, [annotations.length]);
 
+  // Dispatch keyboard shortcuts from the command registry built each render
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat && !e.key.startsWith('Arrow')) return;
+      const typing = isEditableTarget(e.target);
+      const command = commandsRef.current.find(c =>
+        c.enabled !== false &&
+        (!typing || c.allowInInput) &&
+        c.keys?.some(combo => matchesShortcut(e, combo))
+      );
+      if (!command) return;
+      e.preventDefault();
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Click outside listener for menus
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -203,39 +297,19 @@ export const Editor: React.FC<EditorProps> = ({
 
 
   // --- Canvas Logic ---
+  // Annotations keep the coordinates of the width the slide was first shown at
+  // (its displayWidth); this maps them onto the media as it's laid out now
+  const viewScale = mediaWidth && activeSlide?.displayWidth ? mediaWidth / activeSlide.displayWidth : 1;
+
   const getCanvasPoint = (e: React.MouseEvent): Point => {
     if (!containerRef.current) return { x: 0, y: 0 };
     const rect = containerRef.current.getBoundingClientRect();
     return {
-      x: (e.clientX - rect.left),
-      y: (e.clientY - rect.top)
+      x: (e.clientX - rect.left) / viewScale,
+      y: (e.clientY - rect.top) / viewScale
     };
   };
 
-  const getResizeHandle = (point: Point, ann: Annotation): string | null => {
-      const handleSize = 10;
-      const minX = Math.min(ann.start.x, ann.end.x);
-      const minY = Math.min(ann.start.y, ann.end.y);
-      const maxX = Math.max(ann.start.x, ann.end.x);
-      const maxY = Math.max(ann.start.y, ann.end.y);
-
-      if (Math.abs(point.x - minX) < handleSize && Math.abs(point.y - minY) < handleSize) return 'tl';
-      if (Math.abs(point.x - maxX) < handleSize && Math.abs(point.y - minY) < handleSize) return 'tr';
-      if (Math.abs(point.x - minX) < handleSize && Math.abs(point.y - maxY) < handleSize) return 'bl';
-      if (Math.abs(point.x - maxX) < handleSize && Math.abs(point.y - maxY) < handleSize) return 'br';
-      
-      return null;
-  };
-
-  const isPointInAnnotation = (point: Point, ann: Annotation): boolean => {
-      const minX = Math.min(ann.start.x, ann.end.x);
-      const minY = Math.min(ann.start.y, ann.end.y);
-      const maxX = Math.max(ann.start.x, ann.end.x);
-      const maxY = Math.max(ann.start.y, ann.end.y);
-      
-      return point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY;
-  };
-
   if (!activeSlide) {
       return (
           <div className="flex items-center justify-center h-full bg-slate-50 dark:bg-[#0f0f0f] text-slate-400 dark:text-zinc-500">
@@ -257,6 +331,7 @@ export const Editor: React.FC<EditorProps> = ({
         if (ann) {
             const handle = getResizeHandle(point, ann);
             if (handle) {
+                gestureStartRef.current = annotations;
                 setResizeHandle(handle);
                 setIsDrawing(true);
                 return;
@@ -269,6 +344,7 @@ export const Editor: React.FC<EditorProps> = ({
         // Check if we clicked on the selected annotation first
         const selectedAnn = annotations.find(a => a.id === selectedAnnotationId);
         if (selectedAnn && isPointInAnnotation(point, selectedAnn)) {
+            gestureStartRef.current = annotations;
             setIsDraggingShape(true);
             setDragOffset({ x: point.x - selectedAnn.start.x, y: point.y - selectedAnn.start.y }); 
             setStartPoint(point); 
@@ -278,6 +354,7 @@ export const Editor: React.FC<EditorProps> = ({
         // Check if clicked on any other annotation
         const clickedAnn = annotations.find(a => isPointInAnnotation(point, a));
         if (clickedAnn) {
+            gestureStartRef.current = annotations;
             setSelectedAnnotationId(clickedAnn.id);
             setIsDraggingShape(true);
             setStartPoint(point);
@@ -292,6 +369,7 @@ export const Editor: React.FC<EditorProps> = ({
     // 3. Start Drawing New Shape
     setStartPoint(point);
     setCurrentPoint(point);
+    setDraftPoints(selectedTool === ToolType.FREEHAND ? [point] : []);
     setIsDrawing(true);
     setSelectedAnnotationId(null);
     setResizeHandle(null);
@@ -305,16 +383,7 @@ export const Editor: React.FC<EditorProps> = ({
         const dx = point.x - startPoint.x;
         const dy = point.y - startPoint.y;
         
-        setAnnotations(prev => prev.map(ann => {
-            if (ann.id === selectedAnnotationId) {
-                return {
-                    ...ann,
-                    start: { x: ann.start.x + dx, y: ann.start.y + dy },
-                    end: { x: ann.end.x + dx, y: ann.end.y + dy }
-                };
-            }
-            return ann;
-        }));
+        setAnnotations(prev => prev.map(ann => ann.id === selectedAnnotationId ? translateAnnotation(ann, dx, dy) : ann));
         setStartPoint(point); // Reset start to current for next delta
         return;
     }
@@ -322,27 +391,20 @@ export const Editor: React.FC<EditorProps> = ({
     if (!isDrawing) return;
     
     if (resizeHandle && selectedAnnotationId) {
-        const updatedAnnotations = annotations.map(ann => {
-            if (ann.id === selectedAnnotationId) {
-                const newAnn = { ...ann };
-                if (resizeHandle === 'tl') newAnn.start = point;
-                else if (resizeHandle === 'br') newAnn.end = point;
-                else if (resizeHandle === 'tr') { newAnn.end.x = point.x; newAnn.start.y = point.y; }
-                else if (resizeHandle === 'bl') { newAnn.start.x = point.x; newAnn.end.y = point.y; }
-                return newAnn;
-            }
-            return ann;
-        });
+        const updatedAnnotations = annotations.map(ann => ann.id === selectedAnnotationId ? resizeAnnotation(ann, resizeHandle, point) : ann);
         setAnnotations(updatedAnnotations);
         return;
     }
 
+    if (selectedTool === ToolType.FREEHAND) {
+        setDraftPoints(prev => [...prev, point]);
+    }
     setCurrentPoint(point);
   };
 
   const handleMouseUp = () => {
     if (isDraggingShape) {
-        onUpdateSlide({ ...activeSlide, annotations });
+        commitGesture();
         setIsDraggingShape(false);
         setStartPoint(null);
         return;
@@ -351,64 +413,174 @@ export const Editor: React.FC<EditorProps> = ({
     if (!isDrawing) return;
     
     if (resizeHandle && selectedAnnotationId) {
-        onUpdateSlide({ ...activeSlide, annotations });
+        commitGesture();
         setResizeHandle(null);
         setIsDrawing(false);
         return;
     }
 
     if (!startPoint || !currentPoint) return;
-    
-    if (Math.abs(currentPoint.x - startPoint.x) < 5 && Math.abs(currentPoint.y - startPoint.y) < 5) {
-      setIsDrawing(false);
-      return;
+
+    let start = startPoint;
+    let end = currentPoint;
+    let points: Point[] | undefined;
+
+    if (selectedTool === ToolType.FREEHAND) {
+        const stroke = getAnnotationBounds({ type: ToolType.FREEHAND, points: draftPoints } as Annotation);
+        if (draftPoints.length < 2 || (stroke.maxX - stroke.minX < 5 && stroke.maxY - stroke.minY < 5)) {
+            setIsDrawing(false);
+            setDraftPoints([]);
+            return;
+        }
+        points = draftPoints;
+        start = { x: stroke.minX, y: stroke.minY };
+        end = { x: stroke.maxX, y: stroke.maxY };
+        setDraftPoints([]);
+    } else if (Math.abs(currentPoint.x - startPoint.x) < 5 && Math.abs(currentPoint.y - startPoint.y) < 5) {
+      if (selectedTool !== ToolType.TEXT) {
+        setIsDrawing(false);
+        return;
+      }
+      // A plain click places a default-sized label
+      end = { x: startPoint.x + 160, y: startPoint.y + 32 };
     }
 
     const newAnnotation: Annotation = {
       id: Date.now(),
       type: selectedTool,
-      start: startPoint,
-      end: currentPoint,
+      start,
+      end,
+      points,
+      text: selectedTool === ToolType.TEXT ? 'Text' : undefined,
+      redactStyle: selectedTool === ToolType.REDACT ? redactStyle : undefined,
       comment: '',
-      color: '#ef4444', 
-      timestamp: activeSlide.type === 'video' ? currentTime : undefined
+      color: selectedTool === ToolType.REDACT ? '#000000' : '#ef4444', 
+      timestamp: activeSlide.type === 'video' ? currentTime : undefined,
+      endTimestamp: activeSlide.type === 'video' ? Math.min(currentTime + VIDEO_ANNOTATION_DURATION, videoDuration || Infinity) : undefined
     };
 
-    const updatedAnnotations = [...annotations, newAnnotation];
-    setAnnotations(updatedAnnotations);
-    onUpdateSlide({ ...activeSlide, annotations: updatedAnnotations });
+    commitAnnotations([...annotations, newAnnotation]);
     setSelectedAnnotationId(newAnnotation.id);
     setIsDrawing(false);
   };
 
-  // --- Actions ---
-  const handleUndo = () => {
-    if (annotations.length === 0) return;
-    const updated = annotations.slice(0, -1);
+  // --- History ---
+  const getHistory = (slideId: string): SlideHistory => {
+    if (!historyRef.current[slideId]) historyRef.current[slideId] = { past: [], future: [] };
+    return historyRef.current[slideId];
+  };
+
+  /**
+   * Apply an annotation change and record the previous state for undo.
+   * Successive changes sharing a `coalesceKey` (e.g. typing in one comment)
+   * collapse into a single history entry.
+   */
+  const commitAnnotations = (updated: Annotation[], coalesceKey?: string, previous: Annotation[] = annotations) => {
+    const history = getHistory(activeSlide.id);
+    const now = Date.now();
+    const isContinuation = !!coalesceKey && history.lastKey === coalesceKey && now - (history.lastAt || 0) < 1500;
+    if (!isContinuation) {
+      history.past.push(previous);
+      if (history.past.length > HISTORY_LIMIT) history.past.shift();
+    }
+    history.future = [];
+    history.lastKey = coalesceKey;
+    history.lastAt = now;
+
     setAnnotations(updated);
     onUpdateSlide({ ...activeSlide, annotations: updated });
+    setHistoryVersion(v => v + 1);
+  };
+
+  // Drags and resizes update local state live; record them once on release
+  const commitGesture = () => {
+    const before = gestureStartRef.current;
+    gestureStartRef.current = null;
+    if (before && JSON.stringify(before) !== JSON.stringify(annotations)) {
+      commitAnnotations(annotations, undefined, before);
+    }
   };
 
+  const restoreSnapshot = (snapshot: Annotation[]) => {
+    setAnnotations(snapshot);
+    onUpdateSlide({ ...activeSlide, annotations: snapshot });
+    if (selectedAnnotationId && !snapshot.some(a => a.id === selectedAnnotationId)) setSelectedAnnotationId(null);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleUndo = () => {
+    const history = getHistory(activeSlide.id);
+    const previous = history.past.pop();
+    if (!previous) return;
+    history.future.push(annotations);
+    history.lastKey = undefined;
+    restoreSnapshot(previous);
+  };
+
+  const handleRedo = () => {
+    const history = getHistory(activeSlide.id);
+    const next = history.future.pop();
+    if (!next) return;
+    history.past.push(annotations);
+    history.lastKey = undefined;
+    restoreSnapshot(next);
+  };
+
+  // --- Actions ---
   const handleDeleteSelected = () => {
     if (selectedAnnotationId) {
-      const updated = annotations.filter(a => a.id !== selectedAnnotationId);
-      setAnnotations(updated);
-      onUpdateSlide({ ...activeSlide, annotations: updated });
+      commitAnnotations(annotations.filter(a => a.id !== selectedAnnotationId));
       setSelectedAnnotationId(null);
     }
   };
 
   const handleDeleteAnnotation = (id: number) => {
-      const updated = annotations.filter(a => a.id !== id);
-      setAnnotations(updated);
-      onUpdateSlide({ ...activeSlide, annotations: updated });
+      commitAnnotations(annotations.filter(a => a.id !== id));
       if (selectedAnnotationId === id) setSelectedAnnotationId(null);
   };
 
+  const handleDuplicateSelected = () => {
+    const original = annotations.find(a => a.id === selectedAnnotationId);
+    if (!original) return;
+    const copy = { ...translateAnnotation(original, 16, 16), id: Date.now() };
+    commitAnnotations([...annotations, copy]);
+    setSelectedAnnotationId(copy.id);
+  };
+
+  const handleNudgeSelected = (dx: number, dy: number) => {
+    if (!selectedAnnotationId) return;
+    commitAnnotations(
+      annotations.map(a => a.id === selectedAnnotationId ? translateAnnotation(a, dx, dy) : a),
+      `nudge-${selectedAnnotationId}`
+    );
+  };
+
   const handleCommentChange = (id: number, text: string) => {
-    const updated = annotations.map(a => a.id === id ? { ...a, comment: text } : a);
-    setAnnotations(updated);
-    onUpdateSlide({ ...activeSlide, annotations: updated });
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, comment: text } : a), `comment-${id}`);
+  };
+
+  const handleLabelChange = (id: number, text: string) => {
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, text } : a), `label-${id}`);
+  };
+
+  const handleColorChange = (id: number, color: string) => {
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, color } : a));
+  };
+
+  const handleRedactStyleChange = (id: number, style: RedactionStyle) => {
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, redactStyle: style } : a));
+    setRedactStyle(style);
+  };
+
+  // Remember the on-screen width annotations are drawn against so exports of
+  // other slides can map coordinates back onto the full-size media. Slides
+  // shown at another width later (e.g. keyframes pulled from a video) keep
+  // their coordinates and are scaled on screen instead.
+  const handleMediaLoaded = () => {
+    const width = mediaRef.current?.clientWidth;
+    if (!width) return;
+    setMediaWidth(width);
+    if (!activeSlide.displayWidth) onUpdateSlide({ ...activeSlide, displayWidth: width });
   };
 
   const handleAiRefine = async (id: number) => {
@@ -416,7 +588,7 @@ export const Editor: React.FC<EditorProps> = ({
     if (!annotation || !annotation.comment) return;
     setAiLoadingId(id);
     const refinedText = await refineBugReport(annotation.comment);
-    handleCommentChange(id, refinedText);
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, comment: refinedText } : a));
     setAiLoadingId(null);
     addToast('Text refined with AI', 'success');
   };
@@ -430,15 +602,14 @@ export const Editor: React.FC<EditorProps> = ({
     try {
         // Create an array of promises
         const promises = annotations.map(async (ann) => {
-            if (!ann.comment || ann.comment.trim().length < 3) return ann; // Skip empty or very short
+            if (isRedaction(ann) || !ann.comment || ann.comment.trim().length < 3) return ann; // Skip redactions, empty or very short
             const refined = await refineBugReport(ann.comment);
             return { ...ann, comment: refined };
         });
 
         const newAnnotations = await Promise.all(promises);
         
-        setAnnotations(newAnnotations);
-        onUpdateSlide({ ...activeSlide, annotations: newAnnotations });
+        commitAnnotations(newAnnotations);
         addToast("All observations rephrased.", "success");
     } catch (e) {
         console.error(e);
@@ -448,6 +619,18 @@ export const Editor: React.FC<EditorProps> = ({
     }
   };
 
+  // Scanners return [ymin, xmin, ymax, xmax] on a 0-1000 scale; annotations
+  // are stored in the slide's display pixels
+  const mapNormalizedBox = (coordinates: number[], imgEl: HTMLImageElement) => {
+      const [ymin, xmin, ymax, xmax] = coordinates;
+      const width = imgEl.clientWidth / viewScale;
+      const height = imgEl.clientHeight / viewScale;
+      return {
+          start: { x: (xmin / 1000) * width, y: (ymin / 1000) * height },
+          end: { x: (xmax / 1000) * width, y: (ymax / 1000) * height }
+      };
+  };
+
   const handleAutoScan = async () => {
       if (activeSlide.type !== 'image') {
           addToast("Auto-scan only supports images.", "error");
@@ -463,9 +646,6 @@ export const Editor: React.FC<EditorProps> = ({
           const imgEl = mediaRef.current as HTMLImageElement;
           if (!imgEl) throw new Error("Image element not found");
           
-          const naturalWidth = imgEl.naturalWidth;
-          const naturalHeight = imgEl.naturalHeight;
-
           const issues = await scanImageForIssues(activeSlide.src);
           
           if (issues.length === 0) {
@@ -474,27 +654,16 @@ export const Editor: React.FC<EditorProps> = ({
           }
 
           const newAnnotations: Annotation[] = issues.map((issue, index) => {
-              // Gemini returns [ymin, xmin, ymax, xmax] on 0-1000 scale
-              const [ymin, xmin, ymax, xmax] = issue.coordinates;
-              
-              const startX = (xmin / 1000) * naturalWidth;
-              const startY = (ymin / 1000) * naturalHeight;
-              const endX = (xmax / 1000) * naturalWidth;
-              const endY = (ymax / 1000) * naturalHeight;
-
               return {
                   id: Date.now() + index,
                   type: ToolType.RECTANGLE,
-                  start: { x: startX, y: startY },
-                  end: { x: endX, y: endY },
+                  ...mapNormalizedBox(issue.coordinates, imgEl),
                   comment: `[AI Detected] ${issue.explanation}\nSuggestion: "${issue.suggestion}"`,
                   color: '#f59e0b', // Amber/Orange for AI warnings
               };
           });
 
-          const updatedAnnotations = [...annotations, ...newAnnotations];
-          setAnnotations(updatedAnnotations);
-          onUpdateSlide({ ...activeSlide, annotations: updatedAnnotations });
+          commitAnnotations([...annotations, ...newAnnotations]);
           addToast(`Found ${issues.length} potential issues.`, "success");
 
       } catch (e) {
@@ -505,11 +674,112 @@ export const Editor: React.FC<EditorProps> = ({
       }
   };
 
+  const handleSecretScan = async () => {
+      if (activeSlide.type !== 'image') {
+          addToast("Secret scan only supports images.", "error");
+          return;
+      }
+      setIsScanningSecrets(true);
+      addToast(isGeminiConfigured() ? "Scanning for personal data and secrets..." : "Scanning on-device for personal data and secrets...", "info");
+
+      try {
+          const imgEl = mediaRef.current as HTMLImageElement;
+          if (!imgEl) throw new Error("Image element not found");
+
+          const findings = await scanImageForSecrets(activeSlide.src);
+          if (findings.length === 0) {
+              addToast("No sensitive data found.", "success");
+              return;
+          }
+
+          const padding = 4;
+          const newAnnotations: Annotation[] = findings.map((finding, index) => {
+              const { start, end } = mapNormalizedBox(finding.coordinates, imgEl);
+              return {
+                  id: Date.now() + index,
+                  type: ToolType.REDACT,
+                  start: { x: start.x - padding, y: start.y - padding },
+                  end: { x: end.x + padding, y: end.y + padding },
+                  redactStyle: 'solid',
+                  comment: SECRET_LABELS[finding.category] || 'Sensitive data',
+                  color: '#000000'
+              };
+          });
+
+          commitAnnotations([...annotations, ...newAnnotations]);
+          addToast(`Proposed ${findings.length} redaction${findings.length === 1 ? '' : 's'}. Review them before exporting.`, "success");
+      } catch (e) {
+          console.error(e);
+          addToast("Secret scan failed.", "error");
+      } finally {
+          setIsScanningSecrets(false);
+      }
+  };
+
   const handleNextSlide = () => {
     const idx = slides.findIndex(s => s.id === activeSlideId);
     if (idx < slides.length - 1) onSelectSlide(slides[idx + 1].id);
   };
 
+  // --- Video Playback ---
+  const getVideo = () => (activeSlide?.type === 'video' ? mediaRef.current as HTMLVideoElement | null : null);
+
+  const seekVideo = (time: number) => {
+    const video = getVideo();
+    if (!video) return;
+    video.currentTime = Math.max(0, Math.min(time, videoDuration || time));
+    setCurrentTime(video.currentTime);
+  };
+
+  const togglePlayback = () => {
+    const video = getVideo();
+    if (!video) return;
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const video = getVideo();
+    if (!video) return;
+    video.pause();
+    seekVideo(video.currentTime + direction * FRAME_DURATION);
+  };
+
+  // MediaRecorder WebM files report an infinite duration until the browser seeks past the end
+  const handleVideoMetadata = () => {
+    const video = getVideo();
+    if (!video) return;
+    if (Number.isFinite(video.duration)) {
+      setVideoDuration(video.duration);
+    } else {
+      isProbingDurationRef.current = true;
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    }
+  };
+
+  const handleVideoDurationChange = () => {
+    const video = getVideo();
+    if (!video || !Number.isFinite(video.duration)) return;
+    setVideoDuration(video.duration);
+    if (isProbingDurationRef.current) {
+      isProbingDurationRef.current = false;
+      video.currentTime = 0;
+    }
+  };
+
+  const handleRangeChange = (id: number, start: number, end: number) => {
+    commitAnnotations(annotations.map(a => a.id === id ? { ...a, timestamp: start, endTimestamp: end } : a));
+  };
+
+  /** Move the selected annotation's start or end to the playhead */
+  const setRangeEdgeToPlayhead = (edge: 'start' | 'end') => {
+    const ann = annotations.find(a => a.id === selectedAnnotationId);
+    const range = ann && getAnnotationTimeRange(ann);
+    if (!ann || !range) return;
+    if (edge === 'start') handleRangeChange(ann.id, Math.min(currentTime, range.end - 0.1), range.end);
+    else handleRangeChange(ann.id, range.start, Math.max(currentTime, range.start + 0.1));
+  };
+
   const handlePrevSlide = () => {
     const idx = slides.findIndex(s => s.id === activeSlideId);
     if (idx > 0) onSelectSlide(slides[idx - 1].id);
@@ -527,13 +797,6 @@ export const Editor: React.FC<EditorProps> = ({
 
   // --- Export Logic ---
 
-  const hexToRgba = (hex: string, alpha: number) => {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-  };
-
   const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
     const words = text.split(' ');
     let line = '';
@@ -570,35 +833,57 @@ export const Editor: React.FC<EditorProps> = ({
             const v = el as HTMLVideoElement;
             naturalWidth = v.videoWidth;
             naturalHeight = v.videoHeight;
-            displayWidth = v.clientWidth;
+            displayWidth = slide.displayWidth || v.clientWidth;
             source = v;
             videoTime = v.currentTime;
         } else {
             const img = el as HTMLImageElement;
             naturalWidth = img.naturalWidth;
             naturalHeight = img.naturalHeight;
-            displayWidth = img.clientWidth;
+            displayWidth = slide.displayWidth || img.clientWidth;
             source = img;
         }
     } else {
+        const estimatedHeight = 800; 
         if (slide.type === 'video') {
-             const res = await fetch(slide.src);
-             return await res.blob();
+             // The raw recording can only go out when nothing in it needs scrubbing;
+             // otherwise export the redacted frame instead
+             const redactions = slide.annotations.filter(isRedaction);
+             if (redactions.length === 0) {
+                 const res = await fetch(slide.src);
+                 return await res.blob();
+             }
+             await new Promise<void>((resolve, reject) => {
+                 const v = document.createElement('video');
+                 v.muted = true;
+                 v.preload = 'auto';
+                 v.onloadeddata = () => { v.currentTime = redactions[0].timestamp || 0; };
+                 v.onseeked = () => {
+                     naturalWidth = v.videoWidth;
+                     naturalHeight = v.videoHeight;
+                     displayWidth = slide.displayWidth || naturalWidth * (estimatedHeight / naturalHeight);
+                     source = v;
+                     videoTime = v.currentTime;
+                     resolve();
+                 };
+                 v.onerror = reject;
+                 v.src = slide.src;
+             });
+        } else {
+            await new Promise<void>((resolve, reject) => {
+                const img = new Image();
+                img.src = slide.src;
+                img.crossOrigin = "anonymous";
+                img.onload = () => {
+                    naturalWidth = img.naturalWidth;
+                    naturalHeight = img.naturalHeight;
+                    displayWidth = slide.displayWidth || naturalWidth * (estimatedHeight / naturalHeight);
+                    source = img;
+                    resolve();
+                };
+                img.onerror = reject;
+            });
         }
-        await new Promise<void>((resolve, reject) => {
-            const img = new Image();
-            img.src = slide.src;
-            img.crossOrigin = "anonymous";
-            img.onload = () => {
-                naturalWidth = img.naturalWidth;
-                naturalHeight = img.naturalHeight;
-                const estimatedHeight = 800; 
-                displayWidth = naturalWidth * (estimatedHeight / naturalHeight);
-                source = img;
-                resolve();
-            };
-            img.onerror = reject;
-        });
     }
 
     if (naturalWidth === 0 || naturalHeight === 0) {
@@ -633,6 +918,11 @@ export const Editor: React.FC<EditorProps> = ({
     // @ts-ignore
     ctx.drawImage(source, 0, 0, renderWidth, renderHeight);
 
+    // Burn redactions into the pixels before anything else is layered on top
+    slide.annotations.filter(isRedaction).forEach(ann => {
+        if (slide.type !== 'video' || isAnnotationVisibleAt(ann, videoTime)) drawRedaction(ctx, ann, scale);
+    });
+
     ctx.fillStyle = '#FFFFFF';
     ctx.fillRect(renderWidth, 0, sidebarWidth, totalHeight);
 
@@ -667,34 +957,18 @@ export const Editor: React.FC<EditorProps> = ({
 
     ctx.textBaseline = 'top';
 
-    slide.annotations.forEach((ann, i) => {
-        const isFrameMatch = slide.type !== 'video' || Math.abs((ann.timestamp || 0) - videoTime) < 0.5;
+    getNumberedAnnotations(slide.annotations).forEach((ann, i) => {
+        const isFrameMatch = slide.type !== 'video' || isAnnotationVisibleAt(ann, videoTime);
         
         if (isFrameMatch) {
-            const sx = ann.start.x * scale;
-            const sy = ann.start.y * scale;
-            const ex = ann.end.x * scale;
-            const ey = ann.end.y * scale;
-            const w = Math.abs(ex - sx);
-            const h = Math.abs(ey - sy);
-            const x = Math.min(sx, ex);
-            const y = Math.min(sy, ey);
-
-            ctx.strokeStyle = ann.color;
             ctx.lineWidth = 3 * (renderWidth / naturalWidth); // Adjust line width relative to downscaling
             if (ctx.lineWidth < 1.5) ctx.lineWidth = 1.5;
 
-            ctx.fillStyle = hexToRgba(ann.color, 0.2); 
+            drawAnnotationShape(ctx, ann, scale);
 
-            if (ann.type === ToolType.RECTANGLE) {
-                ctx.fillRect(x, y, w, h);
-                ctx.strokeRect(x, y, w, h);
-            } else if (ann.type === ToolType.CIRCLE) {
-                ctx.beginPath();
-                ctx.ellipse(x + w/2, y + h/2, w/2, h/2, 0, 0, 2 * Math.PI);
-                ctx.fill();
-                ctx.stroke();
-            }
+            const badge = getBadgePosition(ann);
+            const x = badge.x * scale;
+            const y = badge.y * scale;
 
             const badgeR = 16 * (renderWidth / naturalWidth);
             const safeBadgeR = Math.max(badgeR, 10);
@@ -750,197 +1024,72 @@ export const Editor: React.FC<EditorProps> = ({
     });
   };
 
+  /**
+   * Attach an annotated still and/or GIF clip per observation of a video slide,
+   * for trackers that can't preview video inline
+   */
+  const uploadVideoExtras = async (slide: Slide, baseName: string, upload: (blob: Blob, filename: string) => Promise<unknown>) => {
+    if (slide.type !== 'video') return;
+    if (attachKeyframes) {
+        const keyframes = await extractKeyframeSlides(slide);
+        for (const [i, keyframe] of keyframes.entries()) {
+            const blob = await generateCompositeImage(keyframe, 'image/jpeg', 0.7);
+            await upload(blob, `${baseName}_keyframe_${i + 1}.jpg`);
+        }
+    }
+    if (attachGifs) {
+        for (const [i, ann] of getNumberedAnnotations(slide.annotations).entries()) {
+            const range = getAnnotationTimeRange(ann);
+            if (!range) continue;
+            const blob = await createAnnotatedGif(slide, range);
+            await upload(blob, `${baseName}_clip_${i + 1}.gif`);
+        }
+    }
+  };
+
+  /** Attach the slide's captured console log (.log) and network log (.har) */
+  const uploadLogAttachments = async (slide: Slide, baseName: string, upload: (blob: Blob, filename: string) => Promise<unknown>) => {
+    for (const file of getLogAttachments(slide.logs, baseName)) {
+        await upload(file.blob, file.filename);
+    }
+  };
+
+  /** Canvas rendering and extras for the shared tracker export pipeline */
+  const exportRenderer: ExportRenderer = {
+    renderImage: (slide) => generateCompositeImage(slide, 'image/jpeg', 0.7),
+    uploadExtras: async (slide, baseName, upload) => {
+        await uploadVideoExtras(slide, baseName, upload);
+        await uploadLogAttachments(slide, baseName, upload);
+    }
+  };
+
   // ... export handlers ...
 
-  // Refactored function with robust fallback support
-  const handleExportToClickUpWithFallback = async (mode: ClickUpExportMode, listId: string, customTitle: string, customDescription: string, parentId?: string) => {
+  /** Export through whichever issue tracker's modal is open */
+  const handleTrackerExport = async (request: TrackerExportRequest) => {
+    const tracker = openTracker ? getTracker(openTracker) : undefined;
+    if (!tracker) return;
     setExportError(null);
     const savedConfig = localStorage.getItem('bugsnap_config');
-    if (!savedConfig) { setExportError("Please configure ClickUp."); return; }
+    if (!savedConfig) { setExportError(`Please configure ${tracker.name} in Integrations first.`); return; }
     const config: IntegrationConfig = JSON.parse(savedConfig);
-    if (!config.clickUpToken) { setExportError("Missing ClickUp Token."); return; }
-    
-    setIsExporting(true);
-    
-    const optimizeImage = (s: Slide) => generateCompositeImage(s, 'image/jpeg', 0.7);
-    const ext = '.jpg';
-    
-    let mainTaskId: string | null = null;
-    let mainTaskUrl: string | null = null;
+    if (!tracker.isConfigured(config)) { setExportError(`Missing ${tracker.name} configuration.`); return; }
 
+    setIsExporting(true);
     try {
-        if (mode === 'current') {
-            const task = await createClickUpTask({ listId, token: config.clickUpToken, title: customTitle || activeSlide.name || 'Bug Report', description: customDescription || generateTaskDescription(activeSlide) });
-            mainTaskId = task.id;
-            mainTaskUrl = task.url;
-            
-            const blob = await optimizeImage(activeSlide);
-            await uploadClickUpAttachment(task.id, config.clickUpToken, blob, `report${ext}`);
-            
-            setCreatedTaskUrl(task.url);
-        }
-        else if (mode === 'attach_to_task') {
-            if (!parentId) throw new Error("No parent task selected.");
-            const task = await createClickUpTask({ 
-                listId, 
-                token: config.clickUpToken, 
-                title: customTitle || activeSlide.name || 'Bug Report', 
-                description: customDescription || generateTaskDescription(activeSlide),
-                parentId: parentId 
-            });
-            mainTaskId = task.id;
-            mainTaskUrl = task.url;
-            
-            const blob = await optimizeImage(activeSlide);
-            await uploadClickUpAttachment(task.id, config.clickUpToken, blob, `report${ext}`);
-            
-            setCreatedTaskUrl(task.url);
-        }
-        else if (mode === 'all_attachments') {
-            const masterTask = await createClickUpTask({ listId, token: config.clickUpToken, title: customTitle || `Bug Report - ${new Date().toLocaleString()}`, description: customDescription || generateMasterDescription(slides) });
-            mainTaskId = masterTask.id;
-            mainTaskUrl = masterTask.url;
-            
-            setCreatedTaskUrl(masterTask.url); // Optimistic or sequential setting
-            
-            for (const slide of slides) {
-                const blob = await optimizeImage(slide);
-                await uploadClickUpAttachment(masterTask.id, config.clickUpToken, blob, `${slide.name}${ext}`);
-            }
-        }
-        else if (mode === 'all_subtasks') {
-             const masterTask = await createClickUpTask({ listId, token: config.clickUpToken, title: customTitle || `Bug Report - ${new Date().toLocaleString()}`, description: customDescription || generateMasterDescription(slides) });
-             mainTaskId = masterTask.id;
-             mainTaskUrl = masterTask.url;
-             
-             setCreatedTaskUrl(masterTask.url);
-
-             for (const slide of slides) {
-                const subTask = await createClickUpTask({ listId, token: config.clickUpToken, title: slide.name || 'Slide Issue', description: generateTaskDescription(slide), parentId: masterTask.id });
-                try {
-                    const blob = await optimizeImage(slide);
-                    await uploadClickUpAttachment(subTask.id, config.clickUpToken, blob, `report${ext}`);
-                } catch (subErr: any) {
-                    if (subErr.message && subErr.message.includes("Storage Full") && config.googleDriveToken) {
-                         const blob = await optimizeImage(slide);
-                         const driveFile = await uploadToDrive(config.googleDriveToken, blob, `BugSnap_${slide.name}.jpg`);
-                         await updateClickUpTask(subTask.id, config.clickUpToken, { description: generateTaskDescription(slide) + `\n\n**[Backup] Image:** [Open in Drive](${driveFile.webViewLink})` });
-                    } else {
-                        throw subErr;
-                    }
-                }
-            }
-        }
-
-        setIsClickUpModalOpen(false);
-        setCreatedTaskPlatform('ClickUp');
-
-    } catch (error: any) {
-        if (error.message && error.message.includes("Storage Full") && config.googleDriveToken && mainTaskId) {
-             addToast("ClickUp storage full. Using Google Drive backup...", "info");
-             try {
-                 // Fallback for main task attachment failure
-                 if (mode === 'current' || mode === 'attach_to_task') {
-                     const blob = await optimizeImage(activeSlide);
-                     const driveFile = await uploadToDrive(config.googleDriveToken, blob, `BugSnap_${activeSlide.name}.jpg`);
-                     const newDesc = (customDescription || generateTaskDescription(activeSlide)) + `\n\n---\n**Attachment (Drive Backup):** [View Image](${driveFile.webViewLink})`;
-                     await updateClickUpTask(mainTaskId, config.clickUpToken, { description: newDesc });
-                 } else if (mode === 'all_attachments') {
-                     let linksMd = "\n\n### Drive Backup Attachments\n";
-                     for (const slide of slides) {
-                         const blob = await optimizeImage(slide);
-                         const driveFile = await uploadToDrive(config.googleDriveToken, blob, `BugSnap_${slide.name}.jpg`);
-                         linksMd += `- [${slide.name}](${driveFile.webViewLink})\n`;
-                     }
-                     const baseDesc = customDescription || generateMasterDescription(slides);
-                     await updateClickUpTask(mainTaskId, config.clickUpToken, { description: baseDesc + linksMd });
-                 }
-                 
-                 setIsClickUpModalOpen(false);
-                 setCreatedTaskPlatform('ClickUp (Drive Backup)');
-                 
-                 // CRITICAL: Ensure the Success Modal shows by setting the URL
-                 // Use saved mainTaskUrl or construct it from ID
-                 if (mainTaskUrl) {
-                     setCreatedTaskUrl(mainTaskUrl);
-                 } else {
-                     setCreatedTaskUrl(`https://app.clickup.com/t/${mainTaskId}`);
-                 }
-                 
-             } catch (driveErr) {
-                 setExportError(`ClickUp Full & Drive Upload Failed: ${driveErr}`);
-             }
-        } else if (error.message && error.message.includes("Storage Full") && !config.googleDriveToken) {
-             setExportError("ClickUp Storage Full. Please connect Google Drive in Integrations to use as backup.");
+        const { issue, usedDriveBackup } = await exportToTracker(tracker, config, request, slides, activeSlide, exportRenderer);
+        const platform = usedDriveBackup ? `${tracker.name} (Drive Backup)` : tracker.name;
+        if (usedDriveBackup) addToast(`${tracker.name} storage full. Attachments were saved to Google Drive.`, 'info');
+
+        setOpenTracker(null);
+        if (issue.url) {
+            setCreatedTaskUrl(issue.url);
+            setCreatedTaskPlatform(platform);
         } else {
-             setExportError(error instanceof Error ? error.message : "Unknown Error");
+            addToast(`Exported to ${platform}`, 'success');
         }
-    } finally {
-        setIsExporting(false);
-    }
-  };
-
-  const handleExportToJira = async (mode: JiraExportMode, projectId: string, issueTypeId: string, customTitle: string, customDescription: string) => {
-      setExportError(null);
-      const savedConfig = localStorage.getItem('bugsnap_config');
-      if (!savedConfig) { setExportError("Please configure Jira in Integrations first."); return; }
-      const config: IntegrationConfig = JSON.parse(savedConfig);
-      if (!config.jiraToken || !config.jiraUrl || !config.jiraEmail) { setExportError("Missing Jira configuration."); return; }
-      setIsExporting(true);
-      try {
-          const optimizeImage = (s: Slide) => generateCompositeImage(s, 'image/jpeg', 0.7);
-          const ext = '.jpg';
-          const creds = { domain: config.jiraUrl, email: config.jiraEmail, token: config.jiraToken };
-          let issueKey = ""; let issueUrl = "";
-          if (mode === 'current') {
-              const issue = await createJiraIssue(creds, { projectId, issueTypeId, title: customTitle || activeSlide.name || 'Bug Report', description: customDescription || generateTaskDescription(activeSlide) });
-              issueKey = issue.key; issueUrl = `${config.jiraUrl.startsWith('http') ? config.jiraUrl : 'https://' + config.jiraUrl}/browse/${issueKey}`;
-              const blob = await optimizeImage(activeSlide);
-              await uploadJiraAttachment(creds, issue.id, blob, `report${ext}`);
-          } else if (mode === 'all_attachments') {
-              const issue = await createJiraIssue(creds, { projectId, issueTypeId, title: customTitle || `Bug Report - ${new Date().toLocaleString()}`, description: customDescription || generateMasterDescription(slides) });
-              issueKey = issue.key; issueUrl = `${config.jiraUrl.startsWith('http') ? config.jiraUrl : 'https://' + config.jiraUrl}/browse/${issueKey}`;
-              for (const slide of slides) {
-                  const blob = await optimizeImage(slide);
-                  await uploadJiraAttachment(creds, issue.id, blob, `${slide.name}${ext}`);
-              }
-          }
-          setIsJiraModalOpen(false);
-          setCreatedTaskUrl(issueUrl);
-          setCreatedTaskPlatform('Jira');
-      } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
-  };
-
-  const handleExportToTrello = async (mode: TrelloExportMode, listId: string, customTitle: string, customDescription: string) => {
-      setExportError(null);
-      const savedConfig = localStorage.getItem('bugsnap_config');
-      if (!savedConfig) { setExportError("Please configure Trello in Integrations first."); return; }
-      const config: IntegrationConfig = JSON.parse(savedConfig);
-      if (!config.trelloApiKey || !config.trelloToken) { setExportError("Missing Trello configuration."); return; }
-      setIsExporting(true);
-      try {
-          const optimizeImage = (s: Slide) => generateCompositeImage(s, 'image/jpeg', 0.7);
-          const ext = '.jpg';
-          let cardUrl = "";
-          
-          if (mode === 'current') {
-              const card = await createTrelloCard(config.trelloApiKey, config.trelloToken, listId, customTitle || activeSlide.name || 'Bug Report', customDescription || generateTaskDescription(activeSlide));
-              cardUrl = card.url;
-              const blob = await optimizeImage(activeSlide);
-              await uploadTrelloAttachment(config.trelloApiKey, config.trelloToken, card.id, blob, `report${ext}`);
-          } else if (mode === 'all_attachments') {
-              const card = await createTrelloCard(config.trelloApiKey, config.trelloToken, listId, customTitle || `Bug Report - ${new Date().toLocaleString()}`, customDescription || generateMasterDescription(slides));
-              cardUrl = card.url;
-              for (const slide of slides) {
-                  const blob = await optimizeImage(slide);
-                  await uploadTrelloAttachment(config.trelloApiKey, config.trelloToken, card.id, blob, `${slide.name}${ext}`);
-              }
-          }
-          
-          setIsTrelloModalOpen(false);
-          setCreatedTaskUrl(cardUrl);
-          setCreatedTaskPlatform('Trello');
-      } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
+        onExportComplete(platform, issue.url);
+    } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
   };
 
   // Updated Teams Handler
@@ -957,10 +1106,11 @@ export const Editor: React.FC<EditorProps> = ({
             await postTeamsMessage(config.teamsWebhookUrl, activeSlide); 
         }
         else if (mode === 'summary') { 
-            await postTeamsMessage(config.teamsWebhookUrl, undefined, generateMasterDescription(slides)); 
+            await postTeamsMessage(config.teamsWebhookUrl, undefined, generateMasterDescription(slides, false), getReportEnvironmentFields(slides)); 
         }
         setIsTeamsModalOpen(false);
         addToast("Shared to Teams Successfully!", 'success');
+        onExportComplete('Teams');
     } catch (error) { 
         console.error(error); 
         const msg = error instanceof Error ? error.message : 'Unknown error'; 
@@ -971,62 +1121,42 @@ export const Editor: React.FC<EditorProps> = ({
     }
   };
 
-  const handleExportToAsana = async (mode: AsanaExportMode, workspaceId: string, projectId: string, customTitle: string, customDescription: string) => {
-      setExportError(null);
-      const savedConfig = localStorage.getItem('bugsnap_config');
-      if (!savedConfig) { setExportError("Please configure Asana in Integrations first."); return; }
-      const config: IntegrationConfig = JSON.parse(savedConfig);
-      if (!config.asanaToken) { setExportError("Missing Asana Personal Access Token."); return; }
-      setIsExporting(true);
-      try {
-          const optimizeImage = (s: Slide) => generateCompositeImage(s, 'image/jpeg', 0.7);
-          const ext = '.jpg';
-          let taskUrl = "";
-          if (mode === 'current') {
-              const task = await createAsanaTask(config.asanaToken, workspaceId, projectId, customTitle || activeSlide.name || 'Bug Report', customDescription || generateTaskDescription(activeSlide));
-              taskUrl = task.permalink_url;
-              const blob = await optimizeImage(activeSlide);
-              await uploadAsanaAttachment(config.asanaToken, task.gid, blob, `report${ext}`);
-          } else if (mode === 'all_attachments') {
-              const task = await createAsanaTask(config.asanaToken, workspaceId, projectId, customTitle || `Bug Report Batch - ${new Date().toLocaleString()}`, customDescription || generateMasterDescription(slides));
-              taskUrl = task.permalink_url;
-              for (const slide of slides) {
-                  const blob = await optimizeImage(slide);
-                  await uploadAsanaAttachment(config.asanaToken, task.gid, blob, `${slide.name}${ext}`);
-              }
-          }
-          setIsAsanaModalOpen(false);
-          setCreatedTaskUrl(taskUrl);
-          setCreatedTaskPlatform('Asana');
-      } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
-  };
+  /**
+   * Add the report to an existing issue the duplicate check found instead of filing a new one:
+   * screenshots, clips and logs as attachments, then the description as a comment.
+   * Files a tracker can only host and link go in the comment, since the issue body isn't ours to edit.
+   */
+  const handleAddToExistingIssue = async (issue: DuplicateMatch, title: string, description: string, singleSlide: boolean) => {
+      const tracker = openTracker ? getTracker(openTracker) : undefined;
+      if (!tracker?.addComment) return;
+      const config: IntegrationConfig = JSON.parse(localStorage.getItem('bugsnap_config') || '{}');
+      if (!tracker.isConfigured(config)) { setExportError(`Missing ${tracker.name} configuration.`); return; }
+      // Trackers that support comments address issues by ID alone
+      const target: TrackerIssue = { id: issue.id, url: issue.url, destinationId: '' };
+      const links: string[] = [];
+      const upload = async (blob: Blob, filename: string) => {
+          const link = await tracker.uploadAttachment(config, target, blob, filename);
+          if (link) links.push(link);
+      };
 
-  const handleExportToZohoSprints = async (mode: ZohoSprintsExportMode, teamId: string, projectId: string, itemTypeId: string, customTitle: string, customDescription: string) => {
       setExportError(null);
-      const savedConfig = localStorage.getItem('bugsnap_config');
-      if (!savedConfig) { setExportError("Please configure Zoho Sprints in Integrations first."); return; }
-      const config: IntegrationConfig = JSON.parse(savedConfig);
-      if (!config.zohoSprintsToken || !config.zohoSprintsDC) { setExportError("Missing Zoho Sprints configuration."); return; }
       setIsExporting(true);
       try {
-          const optimizeImage = (s: Slide) => generateCompositeImage(s, 'image/jpeg', 0.7);
-          const ext = '.jpg';
-          
-          if (mode === 'current') {
-              const item = await createZohoSprintsItem(config.zohoSprintsDC, config.zohoSprintsToken, teamId, projectId, itemTypeId, customTitle || activeSlide.name || 'Bug Report', customDescription || generateTaskDescription(activeSlide));
-              const blob = await optimizeImage(activeSlide);
-              await uploadZohoSprintsAttachment(config.zohoSprintsDC, config.zohoSprintsToken, teamId, projectId, item.itemNo, blob, `report${ext}`);
-          } else if (mode === 'all_attachments') {
-              const item = await createZohoSprintsItem(config.zohoSprintsDC, config.zohoSprintsToken, teamId, projectId, itemTypeId, customTitle || `Bug Report - ${new Date().toLocaleString()}`, customDescription || generateMasterDescription(slides));
-              for (const slide of slides) {
-                  const blob = await optimizeImage(slide);
-                  await uploadZohoSprintsAttachment(config.zohoSprintsDC, config.zohoSprintsToken, teamId, projectId, item.itemNo, blob, `${slide.name}${ext}`);
-              }
+          const targets = singleSlide ? [activeSlide] : slides;
+          for (const slide of targets) {
+              const baseName = singleSlide ? 'report' : slide.name;
+              await upload(await exportRenderer.renderImage(slide), `${baseName}.jpg`);
+              await exportRenderer.uploadExtras(slide, baseName, upload);
           }
-          
-          setIsZohoSprintsModalOpen(false);
-          setCreatedTaskUrl("https://sprints.zoho.com"); // Generic fallback
-          setCreatedTaskPlatform('Zoho Sprints');
+          await tracker.addComment(config, target, formatDuplicateComment(title, description, targets.length) + formatAttachmentLinks(links));
+          setOpenTracker(null);
+          if (issue.url) {
+              setCreatedTaskUrl(issue.url);
+              setCreatedTaskPlatform(tracker.name);
+          } else {
+              addToast(`Added to ${issue.id}`, 'success');
+          }
+          onExportComplete(tracker.name, issue.url);
       } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
   };
 
@@ -1041,22 +1171,30 @@ export const Editor: React.FC<EditorProps> = ({
         if (mode === 'current') {
             const blob = await generateCompositeImage(activeSlide);
             await uploadSlackFile(config.slackToken, config.slackChannel, blob, 'bug_report.png', activeSlide.name || 'Bug Report');
+            await uploadVideoExtras(activeSlide, 'bug_report', (kf, name) => uploadSlackFile(config.slackToken, config.slackChannel, kf, name, name));
+            await uploadLogAttachments(activeSlide, 'bug_report', (file, name) => uploadSlackFile(config.slackToken, config.slackChannel, file, name, name));
             await postSlackMessage(config.slackToken, config.slackChannel, generateSlideMessage(activeSlide));
         } else if (mode === 'all_files') {
             for (const slide of slides) {
                 const blob = await generateCompositeImage(slide);
                 await uploadSlackFile(config.slackToken, config.slackChannel, blob, `${slide.name}.png`, slide.name);
+                await uploadVideoExtras(slide, slide.name, (kf, name) => uploadSlackFile(config.slackToken, config.slackChannel, kf, name, name));
+                await uploadLogAttachments(slide, slide.name, (file, name) => uploadSlackFile(config.slackToken, config.slackChannel, file, name, name));
             }
             await postSlackMessage(config.slackToken, config.slackChannel, `Uploaded ${slides.length} bug reports.`);
         } else if (mode === 'thread') {
-            const threadTs = await postSlackMessage(config.slackToken, config.slackChannel, `*Bug Report Session - ${new Date().toLocaleString()}*\nContains ${slides.length} issues.`);
+            const sessionEnvironment = getReportEnvironmentFields(slides);
+            const threadTs = await postSlackMessage(config.slackToken, config.slackChannel, `*Bug Report Session - ${new Date().toLocaleString()}*\nContains ${slides.length} issues.` + (sessionEnvironment ? `\n\n*Environment*\n${formatEnvironmentMrkdwn(sessionEnvironment)}` : ''));
             for (const slide of slides) {
                 const blob = await generateCompositeImage(slide);
                 await uploadSlackFile(config.slackToken, config.slackChannel, blob, `${slide.name}.png`, slide.name, threadTs);
+                await uploadVideoExtras(slide, slide.name, (kf, name) => uploadSlackFile(config.slackToken, config.slackChannel, kf, name, name, threadTs));
+                await uploadLogAttachments(slide, slide.name, (file, name) => uploadSlackFile(config.slackToken, config.slackChannel, file, name, name, threadTs));
             }
         }
         setIsSlackModalOpen(false);
         addToast("Shared to Slack Successfully!", 'success');
+        onExportComplete('Slack');
     } catch (error) { console.error(error); const msg = error instanceof Error ? error.message : 'Unknown error'; setExportError(msg); if (!msg.includes('corsdemo')) addToast(msg, 'error'); } finally { setIsExporting(false); }
   };
 
@@ -1098,6 +1236,8 @@ export const Editor: React.FC<EditorProps> = ({
               const blob = await optimizeImage(activeSlide);
               const base64 = await blobToBase64(blob);
               attachments.push({ filename: 'report.jpg', mimeType: 'image/jpeg', content: base64 });
+              await uploadVideoExtras(activeSlide, 'report', async (kf, name) => { attachments.push({ filename: name, mimeType: kf.type, content: await blobToBase64(kf) }); });
+              await uploadLogAttachments(activeSlide, 'report', async (file, name) => { attachments.push({ filename: name, mimeType: file.type, content: await blobToBase64(file) }); });
           } else {
               title = customTitle || `Bug Report Batch - ${new Date().toLocaleString()}`;
               description = customDescription || generateMasterDescription(slides);
@@ -1105,6 +1245,8 @@ export const Editor: React.FC<EditorProps> = ({
                   const blob = await optimizeImage(slide);
                   const base64 = await blobToBase64(blob);
                   attachments.push({ filename: `${slide.name}.jpg`, mimeType: 'image/jpeg', content: base64 });
+                  await uploadVideoExtras(slide, slide.name, async (kf, name) => { attachments.push({ filename: name, mimeType: kf.type, content: await blobToBase64(kf) }); });
+                  await uploadLogAttachments(slide, slide.name, async (file, name) => { attachments.push({ filename: name, mimeType: file.type, content: await blobToBase64(file) }); });
               }
           }
 
@@ -1113,11 +1255,16 @@ export const Editor: React.FC<EditorProps> = ({
               description,
               source: 'BugSnap',
               timestamp: new Date().toISOString(),
-              attachments
+              attachments,
+              metadata: {
+                  environment: mode === 'current' ? activeSlide.environment : slides.find(slide => slide.environment)?.environment,
+                  report: getExportReportFields(slides, activeSlideId, mode === 'current')
+              }
           });
 
           setIsWebhookModalOpen(false);
           addToast("Sent to Webhook successfully!", 'success');
+          onExportComplete('Webhook');
 
       } catch (error) {
           console.error(error);
@@ -1158,6 +1305,16 @@ export const Editor: React.FC<EditorProps> = ({
     } catch (err) { addToast("Failed to generate PDF", "error"); } finally { setIsProcessing(false); }
   };
 
+  const handleGenerateHtmlReport = async () => {
+    setIsProcessing(true);
+    addToast("Generating HTML report...", "info");
+    try {
+        const html = await generateHtmlReport(`Bug Report - ${new Date().toLocaleString()}`, slides);
+        downloadBlob(new Blob([html], { type: 'text/html' }), `BugSnap_Report_${new Date().toISOString().slice(0, 10)}.html`);
+        addToast("HTML Report Downloaded", "success");
+    } catch (err) { console.error(err); addToast("Failed to generate HTML report", "error"); } finally { setIsProcessing(false); }
+  };
+
   const handleCopySlide = async () => {
     setIsProcessing(true);
     try {
@@ -1169,7 +1326,159 @@ export const Editor: React.FC<EditorProps> = ({
     } catch (err) { addToast("Failed to copy image. Try using Chrome.", "error"); } finally { setIsProcessing(false); }
   };
 
+  const handleExtractKeyframes = async () => {
+    if (getNumberedAnnotations(activeSlide.annotations).length === 0) {
+        addToast("Add an observation to the video first.", "info");
+        return;
+    }
+    setIsExtractingKeyframes(true);
+    try {
+        const keyframes = await extractKeyframeSlides(activeSlide);
+        onInsertSlides(activeSlide.id, keyframes);
+        addToast(`Added ${keyframes.length} keyframe slide${keyframes.length > 1 ? 's' : ''}`, "success");
+    } catch (err) { console.error(err); addToast("Failed to extract keyframes", "error"); } finally { setIsExtractingKeyframes(false); }
+  };
+
+  /** Swap in the re-encoded video and move observations to match the new timing and framing */
+  const handleApplyVideoEdit = async (video: Blob, options: VideoEditOptions) => {
+    const el = getVideo();
+    const sourceWidth = el?.videoWidth || 0;
+    const displayWidth = activeSlide.displayWidth || el?.clientWidth || 0;
+    const displayScale = sourceWidth ? displayWidth / sourceWidth : 1;
+    const src = await readFileAsDataURL(video);
+    // Old snapshots reference the previous timing and framing, so undo starts fresh
+    delete historyRef.current[activeSlide.id];
+    onUpdateSlide({
+      ...activeSlide,
+      src,
+      thumbnail: await generateThumbnail(src, 'video'),
+      annotations: adjustAnnotationsForEdit(annotations, options, displayScale),
+      displayWidth: options.crop ? options.crop.width * displayScale : activeSlide.displayWidth,
+      audio: undefined // The separate soundtrack no longer lines up; the new video keeps its own audio
+    });
+    setIsVideoEditOpen(false);
+    addToast(`Video updated (${formatFileSize(video.size)})`, 'success');
+  };
+
+  /** Turn spoken narration into caption-style observations timed to when each line was said */
+  const handleTranscribeNarration = async () => {
+    if (!isGeminiConfigured()) {
+        addToast("Transcription needs a Gemini API key.", "error");
+        return;
+    }
+    const video = getVideo();
+    if (!video || !video.clientWidth) return;
+
+    setIsTranscribing(true);
+    addToast("Transcribing narration...", "info");
+    try {
+        const segments = await transcribeNarration(activeSlide.audio || activeSlide.src);
+        if (segments.length === 0) {
+            addToast("No narration found in this recording.", "info");
+            return;
+        }
+
+        const width = video.clientWidth / viewScale;
+        const height = video.clientHeight / viewScale;
+        const start = { x: width * 0.04, y: height * 0.86 };
+        const end = { x: width * 0.96, y: height * 0.93 };
+        const fontSize = (end.y - start.y) * 0.7;
+        const maxChars = Math.max(12, Math.floor((end.x - start.x) / (fontSize * 0.55)));
+
+        const now = Date.now();
+        const newAnnotations: Annotation[] = segments.map((segment, index) => {
+            const text = segment.text.trim();
+            return {
+                id: now + index,
+                type: ToolType.TEXT,
+                start,
+                end,
+                text: text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text,
+                comment: `[Narration] ${text}`,
+                timestamp: segment.start,
+                endTimestamp: Math.max(segment.end, segment.start + 0.5),
+                color: '#0f172a'
+            };
+        });
+        commitAnnotations([...annotations, ...newAnnotations]);
+        addToast(`Added ${newAnnotations.length} narration observation${newAnnotations.length > 1 ? 's' : ''}.`, "success");
+    } catch (e) {
+        console.error(e);
+        addToast(e instanceof Error ? e.message : "Transcription failed.", "error");
+    } finally {
+        setIsTranscribing(false);
+    }
+  };
+
+  /** Draft repro steps from every slide in order; the draft is reviewed in a modal before it lands on the report */
+  const handleDraftReproSteps = async () => {
+    if (!isGeminiConfigured()) {
+        addToast("Drafting repro steps needs a Gemini API key.", "error");
+        return;
+    }
+    setReproDraft(null);
+    setIsReproDraftOpen(true);
+    try {
+        const inputs: ReproSlideInput[] = [];
+        for (const slide of slides) {
+            // Recordings are represented by their thumbnail; the timed observations carry the sequence
+            const image = slide.type === 'image'
+                ? await readFileAsDataURL(await generateCompositeImage(slide, 'image/jpeg', 0.7))
+                : slide.thumbnail || '';
+            const observations = getNumberedAnnotations(slide.annotations).map(ann =>
+                slide.type === 'video' && ann.timestamp !== undefined ? `[${formatVideoTime(ann.timestamp)}] ${ann.comment}` : ann.comment
+            );
+            inputs.push({ name: slide.name, image, observations });
+        }
+        const draft = await draftReproSteps(inputs);
+        // Classification the user already set stays; the drafted sections replace the free text
+        setReproDraft({ ...(activeSlide.report || EMPTY_REPORT_FIELDS), ...draft });
+    } catch (e) {
+        console.error(e);
+        setIsReproDraftOpen(false);
+        addToast(e instanceof Error ? e.message : "Drafting repro steps failed.", "error");
+    }
+  };
+
+  const handleApplyReproDraft = (report: BugReportFields) => {
+    onUpdateSlide({ ...activeSlide, report });
+    setIsReproDraftOpen(false);
+    setReproDraft(null);
+    addToast("Report details updated. Exports will use them.", "success");
+  };
+
+  /** Animated GIF of the selected observation's time range, or the few seconds from the playhead */
+  const handleDownloadGif = async () => {
+    const selected = annotations.find(a => a.id === selectedAnnotationId);
+    const range = (selected && getAnnotationTimeRange(selected)) || { start: currentTime, end: currentTime + GIF_DEFAULT_LENGTH };
+    setGifProgress(0);
+    try {
+        const blob = await createAnnotatedGif(activeSlide, range, setGifProgress);
+        downloadBlob(blob, `${activeSlide.name}_${formatVideoTime(range.start).replace(/[:.]/g, '-')}.gif`);
+        addToast("GIF downloaded", "success");
+    } catch (err) { console.error(err); addToast(err instanceof Error ? err.message : "Failed to create GIF", "error"); } finally { setGifProgress(null); }
+  };
+
+  const saveExportPreference = (update: IntegrationConfig) => {
+    const saved = localStorage.getItem('bugsnap_config');
+    const current = saved ? JSON.parse(saved) : {};
+    localStorage.setItem('bugsnap_config', JSON.stringify({ ...current, ...update }));
+  };
+
+  const toggleAttachKeyframes = () => {
+    const next = !attachKeyframes;
+    setAttachKeyframes(next);
+    saveExportPreference({ attachVideoKeyframes: next });
+  };
+
+  const toggleAttachGifs = () => {
+    const next = !attachGifs;
+    setAttachGifs(next);
+    saveExportPreference({ attachVideoGifs: next });
+  };
+
   const activeIndex = slides.findIndex(s => s.id === activeSlideId);
+  const numberedAnnotations = getNumberedAnnotations(annotations);
 
   const CloseConfirmation = () => {
       if (!showCloseConfirm) return null;
@@ -1182,7 +1491,7 @@ export const Editor: React.FC<EditorProps> = ({
                       </div>
                       <h3 className="text-lg font-bold text-slate-900 dark:text-white">Close Session?</h3>
                       <p className="text-sm text-slate-500 dark:text-zinc-400 mb-2">
-                          Are you sure you want to leave the editor? Unsaved progress might be lost.
+                          This session will be archived and you can restore it later from the session menu.
                       </p>
                       <div className="flex gap-3 w-full mt-2">
                           <button 
@@ -1237,36 +1546,94 @@ export const Editor: React.FC<EditorProps> = ({
   }
 
   const openModalFor = (source: IntegrationSource) => {
-      if (source === 'ClickUp') setIsClickUpModalOpen(true);
-      if (source === 'Jira') setIsJiraModalOpen(true);
+      if (getTracker(source)) setOpenTracker(source);
       if (source === 'Slack') setIsSlackModalOpen(true);
       if (source === 'Teams') setIsTeamsModalOpen(true);
-      if (source === 'Asana') setIsAsanaModalOpen(true);
-      if (source === 'Trello') setIsTrelloModalOpen(true);
       if (source === 'Webhook') setIsWebhookModalOpen(true);
-      if (source === 'ZohoSprints') setIsZohoSprintsModalOpen(true);
       setIsExportDropdownOpen(false);
   };
 
   const getSourceIcon = (source: IntegrationSource) => {
+      const TrackerIcon = TRACKER_ICONS[source];
+      if (TrackerIcon) return <TrackerIcon size={16} />;
       switch(source) {
-          case 'ClickUp': return <Layers size={16} />;
-          case 'Jira': return <CreditCard size={16} />;
           case 'Slack': return <Share2 size={16} />;
           case 'Teams': return <Users size={16} />;
-          case 'Asana': return <CheckCircle2 size={16} />;
-          case 'Trello': return <Trello size={16} />;
           case 'Webhook': return <Webhook size={16} />;
-          case 'ZohoSprints': return <Database size={16} />;
           case 'GoogleDrive': return <HardDrive size={16} />;
           default: return <Share2 size={16} />;
       }
   };
 
+  const getSourceName = (source: IntegrationSource) =>
+      source === 'GoogleDrive' ? 'Google Drive' : getTracker(source)?.name || source;
+
+  // --- Command Registry (shortcuts + palette) ---
+  const hasSelection = selectedAnnotationId !== null;
+  const isVideo = activeSlide?.type === 'video';
+  const isModalOpen = !!openTracker || isSlackModalOpen || isTeamsModalOpen || isWebhookModalOpen ||
+      !!integrationModalSource || showCloseConfirm || !!createdTaskUrl;
+  const nudge = (dx: number, dy: number) => () => handleNudgeSelected(dx, dy);
+
+  const commands: EditorCommand[] = [
+      { id: 'palette', group: 'General', label: 'Command palette', keys: ['mod+k'], allowInInput: true, hidden: true, run: () => setIsPaletteOpen(open => !open) },
+      { id: 'tool-select', group: 'Tools', label: 'Select / Edit', keys: ['v'], run: () => setSelectedTool(ToolType.SELECT) },
+      { id: 'tool-rectangle', group: 'Tools', label: 'Rectangle', keys: ['r'], run: () => setSelectedTool(ToolType.RECTANGLE) },
+      { id: 'tool-circle', group: 'Tools', label: 'Circle', keys: ['o'], run: () => setSelectedTool(ToolType.CIRCLE) },
+      { id: 'tool-arrow', group: 'Tools', label: 'Arrow', keys: ['a'], run: () => setSelectedTool(ToolType.ARROW) },
+      { id: 'tool-line', group: 'Tools', label: 'Line', keys: ['l'], run: () => setSelectedTool(ToolType.LINE) },
+      { id: 'tool-freehand', group: 'Tools', label: 'Freehand Pen', keys: ['p'], run: () => setSelectedTool(ToolType.FREEHAND) },
+      { id: 'tool-text', group: 'Tools', label: 'Text Label', keys: ['t'], run: () => setSelectedTool(ToolType.TEXT) },
+      { id: 'tool-redact', group: 'Tools', label: 'Redact', keys: ['x'], run: () => setSelectedTool(ToolType.REDACT) },
+      { id: 'undo', group: 'Edit', label: 'Undo', keys: ['mod+z'], run: handleUndo },
+      { id: 'redo', group: 'Edit', label: 'Redo', keys: ['mod+shift+z', 'mod+y'], run: handleRedo },
+      { id: 'delete', group: 'Edit', label: 'Delete selected annotation', keys: ['delete', 'backspace'], enabled: hasSelection, run: handleDeleteSelected },
+      { id: 'duplicate', group: 'Edit', label: 'Duplicate selected annotation', keys: ['mod+d'], enabled: hasSelection, run: handleDuplicateSelected },
+      { id: 'deselect', group: 'Edit', label: 'Clear selection', keys: ['escape'], enabled: hasSelection, run: () => setSelectedAnnotationId(null) },
+      { id: 'nudge-left', group: 'Edit', label: 'Nudge left', keys: ['arrowleft'], enabled: hasSelection, hidden: true, run: nudge(-1, 0) },
+      { id: 'nudge-right', group: 'Edit', label: 'Nudge right', keys: ['arrowright'], enabled: hasSelection, hidden: true, run: nudge(1, 0) },
+      { id: 'nudge-up', group: 'Edit', label: 'Nudge up', keys: ['arrowup'], enabled: hasSelection, hidden: true, run: nudge(0, -1) },
+      { id: 'nudge-down', group: 'Edit', label: 'Nudge down', keys: ['arrowdown'], enabled: hasSelection, hidden: true, run: nudge(0, 1) },
+      { id: 'nudge-left-10', group: 'Edit', label: 'Nudge left 10px', keys: ['shift+arrowleft'], enabled: hasSelection, hidden: true, run: nudge(-10, 0) },
+      { id: 'nudge-right-10', group: 'Edit', label: 'Nudge right 10px', keys: ['shift+arrowright'], enabled: hasSelection, hidden: true, run: nudge(10, 0) },
+      { id: 'nudge-up-10', group: 'Edit', label: 'Nudge up 10px', keys: ['shift+arrowup'], enabled: hasSelection, hidden: true, run: nudge(0, -10) },
+      { id: 'nudge-down-10', group: 'Edit', label: 'Nudge down 10px', keys: ['shift+arrowdown'], enabled: hasSelection, hidden: true, run: nudge(0, 10) },
+      // Arrow keys move between slides when nothing is selected
+      { id: 'slide-next', group: 'Slides', label: 'Next slide', keys: ['arrowright', 'pagedown'], enabled: !hasSelection, run: handleNextSlide },
+      { id: 'slide-prev', group: 'Slides', label: 'Previous slide', keys: ['arrowleft', 'pageup'], enabled: !hasSelection, run: handlePrevSlide },
+      { id: 'video-play', group: 'Video', label: isPlaying ? 'Pause' : 'Play', keys: ['k'], enabled: isVideo, run: togglePlayback },
+      { id: 'video-frame-back', group: 'Video', label: 'Previous frame', keys: [','], enabled: isVideo, run: () => stepFrame(-1) },
+      { id: 'video-frame-forward', group: 'Video', label: 'Next frame', keys: ['.'], enabled: isVideo, run: () => stepFrame(1) },
+      { id: 'video-range-start', group: 'Video', label: 'Start selected annotation at playhead', keys: ['['], enabled: isVideo && hasSelection, run: () => setRangeEdgeToPlayhead('start') },
+      { id: 'video-range-end', group: 'Video', label: 'End selected annotation at playhead', keys: [']'], enabled: isVideo && hasSelection, run: () => setRangeEdgeToPlayhead('end') },
+      { id: 'video-edit', group: 'Video', label: 'Trim, crop & compress video', enabled: isVideo, run: () => setIsVideoEditOpen(true) },
+      { id: 'video-transcribe', group: 'Video', label: 'Transcribe narration into observations', enabled: isVideo && !isTranscribing, run: handleTranscribeNarration },
+      { id: 'video-keyframes', group: 'Video', label: 'Extract keyframes to image slides', enabled: isVideo && !isExtractingKeyframes, run: handleExtractKeyframes },
+      { id: 'video-gif', group: 'Video', label: 'Download GIF of selected range', enabled: isVideo && gifProgress === null, run: handleDownloadGif },
+      { id: 'video-attach-gifs', group: 'Video', label: attachGifs ? 'Stop attaching GIF clips to exports' : 'Attach GIF clips to exports', enabled: isVideo, run: toggleAttachGifs },
+      { id: 'video-attach-keyframes', group: 'Video', label: attachKeyframes ? 'Stop attaching keyframes to exports' : 'Attach keyframes to exports', enabled: isVideo, run: toggleAttachKeyframes },
+      { id: 'report-draft-repro', group: 'Edit', label: 'Draft repro steps from the session with AI', enabled: !isReproDraftOpen, run: handleDraftReproSteps },
+      { id: 'export-menu', group: 'Export', label: 'Open export menu', keys: ['mod+e'], run: () => setIsExportDropdownOpen(true) },
+      { id: 'export-pdf', group: 'Export', label: 'Download PDF', keys: ['mod+shift+s'], enabled: !isProcessing, run: handleGeneratePDF },
+      { id: 'export-html', group: 'Export', label: 'Download interactive HTML report', enabled: !isProcessing, run: handleGenerateHtmlReport },
+      { id: 'export-copy', group: 'Export', label: 'Copy slide image', keys: ['mod+shift+c'], enabled: !isProcessing, run: handleCopySlide },
+      { id: 'export-archive', group: 'Export', label: 'Download session archive (.bugsnap)', run: onExportArchive },
+      ...connectedSources.filter(s => s !== 'GoogleDrive').map((source, i) => ({
+          id: `export-${source}`,
+          group: 'Integrations',
+          label: `Export to ${source}`,
+          keys: i < 9 ? [`alt+${i + 1}`] : undefined,
+          run: () => openModalFor(source)
+      })),
+      { id: 'integrations-manage', group: 'Integrations', label: 'Manage integrations', run: () => setIntegrationModalSource('ClickUp') }
+  ];
+  commandsRef.current = isModalOpen ? commands.filter(c => c.id === 'palette') : commands;
+
   return (
     <div className="flex flex-col h-full bg-white dark:bg-[#0f0f0f] relative transition-colors">
       <CloseConfirmation />
       <SuccessModal />
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} commands={commands} />
       
       <IntegrationModal 
         isOpen={!!integrationModalSource}
@@ -1279,16 +1646,23 @@ export const Editor: React.FC<EditorProps> = ({
         onSave={handleSaveIntegration}
       />
 
-      <ClickUpModal 
-        isOpen={isClickUpModalOpen} 
-        onClose={() => { setIsClickUpModalOpen(false); setExportError(null); }}
-        onExport={handleExportToClickUpWithFallback}
-        loading={isExporting}
-        slides={slides}
-        activeSlideId={activeSlideId}
-        error={exportError}
-        onConfigure={() => { setIsClickUpModalOpen(false); setIntegrationModalSource('ClickUp'); }}
-      />
+      {TRACKERS.map(tracker => {
+          const TrackerModal = TRACKER_MODALS[tracker.source];
+          return TrackerModal && (
+            <TrackerModal
+              key={tracker.source}
+              isOpen={openTracker === tracker.source}
+              onClose={() => { setOpenTracker(null); setExportError(null); }}
+              onExport={handleTrackerExport}
+              loading={isExporting}
+              slides={slides}
+              activeSlideId={activeSlideId}
+              error={exportError}
+              onConfigure={() => { setOpenTracker(null); setIntegrationModalSource(tracker.source); }}
+              onAttachToExisting={tracker.addComment ? handleAddToExistingIssue : undefined}
+            />
+          );
+      })}
       
       {/* ... other modals ... */}
       <SlackModal 
@@ -1301,17 +1675,6 @@ export const Editor: React.FC<EditorProps> = ({
         onConfigure={() => { setIsSlackModalOpen(false); setIntegrationModalSource('Slack'); }}
       />
 
-      <JiraModal 
-        isOpen={isJiraModalOpen}
-        onClose={() => { setIsJiraModalOpen(false); setExportError(null); }}
-        onExport={handleExportToJira}
-        loading={isExporting}
-        slides={slides}
-        activeSlideId={activeSlideId}
-        error={exportError}
-        onConfigure={() => { setIsJiraModalOpen(false); setIntegrationModalSource('Jira'); }}
-      />
-      
       <TeamsModal
         isOpen={isTeamsModalOpen}
         onClose={() => { setIsTeamsModalOpen(false); setExportError(null); }}
@@ -1322,28 +1685,6 @@ export const Editor: React.FC<EditorProps> = ({
         onConfigure={() => { setIsTeamsModalOpen(false); setIntegrationModalSource('Teams'); }}
       />
       
-      <AsanaModal
-        isOpen={isAsanaModalOpen}
-        onClose={() => { setIsAsanaModalOpen(false); setExportError(null); }}
-        onExport={handleExportToAsana}
-        loading={isExporting}
-        slides={slides}
-        activeSlideId={activeSlideId}
-        error={exportError}
-        onConfigure={() => { setIsAsanaModalOpen(false); setIntegrationModalSource('Asana'); }}
-      />
-
-      <TrelloModal
-        isOpen={isTrelloModalOpen}
-        onClose={() => { setIsTrelloModalOpen(false); setExportError(null); }}
-        onExport={handleExportToTrello}
-        loading={isExporting}
-        slides={slides}
-        activeSlideId={activeSlideId}
-        error={exportError}
-        onConfigure={() => { setIsTrelloModalOpen(false); setIntegrationModalSource('Trello'); }}
-      />
-
       <WebhookModal
         isOpen={isWebhookModalOpen}
         onClose={() => { setIsWebhookModalOpen(false); setExportError(null); }}
@@ -1355,15 +1696,22 @@ export const Editor: React.FC<EditorProps> = ({
         onConfigure={() => { setIsWebhookModalOpen(false); setIntegrationModalSource('Webhook'); }}
       />
 
-      <ZohoSprintsModal
-        isOpen={isZohoSprintsModalOpen}
-        onClose={() => { setIsZohoSprintsModalOpen(false); setExportError(null); }}
-        onExport={handleExportToZohoSprints}
-        loading={isExporting}
-        slides={slides}
-        activeSlideId={activeSlideId}
-        error={exportError}
-        onConfigure={() => { setIsZohoSprintsModalOpen(false); setIntegrationModalSource('ZohoSprints'); }}
+      {activeSlide.type === 'video' && (
+        <VideoEditModal
+          isOpen={isVideoEditOpen}
+          slide={activeSlide}
+          onClose={() => setIsVideoEditOpen(false)}
+          onApply={handleApplyVideoEdit}
+        />
+      )}
+
+      <ReproDraftModal
+        isOpen={isReproDraftOpen}
+        draft={reproDraft}
+        slideCount={slides.length}
+        onClose={() => setIsReproDraftOpen(false)}
+        onRegenerate={handleDraftReproSteps}
+        onApply={handleApplyReproDraft}
       />
 
       {/* Toolbar */}
@@ -1383,7 +1731,7 @@ export const Editor: React.FC<EditorProps> = ({
             <button 
               onClick={() => setSelectedTool(ToolType.SELECT)}
               className={`p-1.5 rounded transition-all ${selectedTool === ToolType.SELECT ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
-              title="Select / Edit"
+              title="Select / Edit (V)"
             >
               <MousePointer2 size={20} />
             </button>
@@ -1391,24 +1739,75 @@ export const Editor: React.FC<EditorProps> = ({
             <button 
               onClick={() => setSelectedTool(ToolType.RECTANGLE)}
               className={`p-1.5 rounded transition-all ${selectedTool === ToolType.RECTANGLE ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
-              title="Rectangle"
+              title="Rectangle (R)"
             >
               <Square size={20} />
             </button>
             <button 
               onClick={() => setSelectedTool(ToolType.CIRCLE)}
               className={`p-1.5 rounded transition-all ${selectedTool === ToolType.CIRCLE ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
-              title="Circle"
+              title="Circle (O)"
             >
               <CircleIcon size={20} />
             </button>
+            <button 
+              onClick={() => setSelectedTool(ToolType.ARROW)}
+              className={`p-1.5 rounded transition-all ${selectedTool === ToolType.ARROW ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+              title="Arrow (A)"
+            >
+              <ArrowUpRight size={20} />
+            </button>
+            <button 
+              onClick={() => setSelectedTool(ToolType.LINE)}
+              className={`p-1.5 rounded transition-all ${selectedTool === ToolType.LINE ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+              title="Line (L)"
+            >
+              <Minus size={20} />
+            </button>
+            <button 
+              onClick={() => setSelectedTool(ToolType.FREEHAND)}
+              className={`p-1.5 rounded transition-all ${selectedTool === ToolType.FREEHAND ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+              title="Freehand Pen (P)"
+            >
+              <Pencil size={20} />
+            </button>
+            <button 
+              onClick={() => setSelectedTool(ToolType.TEXT)}
+              className={`p-1.5 rounded transition-all ${selectedTool === ToolType.TEXT ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+              title="Text Label (T)"
+            >
+              <Type size={20} />
+            </button>
+            <div className="w-px h-4 bg-slate-200 dark:bg-[#272727] mx-1"></div>
+            <button 
+              onClick={() => setSelectedTool(ToolType.REDACT)}
+              className={`p-1.5 rounded transition-all ${selectedTool === ToolType.REDACT ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 ring-1 ring-blue-300 dark:ring-blue-700 cursor-crosshair' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+              title="Redact (X) - permanently hidden in exports"
+            >
+              <EyeOff size={20} />
+            </button>
+            {selectedTool === ToolType.REDACT && (
+              <select
+                value={redactStyle}
+                onChange={(e) => setRedactStyle(e.target.value as RedactionStyle)}
+                className="text-xs font-semibold bg-white dark:bg-[#1e1e1e] text-slate-600 dark:text-zinc-300 border border-slate-200 dark:border-[#272727] rounded px-1.5 py-1 outline-none"
+                title="Redaction style"
+              >
+                <option value="solid">Solid</option>
+                <option value="pixelate">Pixelate</option>
+                <option value="blur">Blur</option>
+              </select>
+            )}
           </div>
 
           {/* Edit Actions */}
           <div className="flex items-center gap-2 px-4 border-r border-slate-200 dark:border-[#272727] h-8">
-            <button onClick={handleUndo} className="text-slate-500 dark:text-zinc-400 hover:text-slate-800 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-[#272727] p-1.5 rounded" title="Undo (Last Annotation)">
+            <button onClick={handleUndo} disabled={getHistory(activeSlide.id).past.length === 0} className="text-slate-500 dark:text-zinc-400 hover:text-slate-800 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-[#272727] p-1.5 rounded disabled:opacity-40 disabled:hover:bg-transparent" title="Undo (Ctrl+Z)">
               <Undo2 size={20} />
             </button>
+            <button onClick={handleRedo} disabled={getHistory(activeSlide.id).future.length === 0} className="text-slate-500 dark:text-zinc-400 hover:text-slate-800 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-[#272727] p-1.5 rounded disabled:opacity-40 disabled:hover:bg-transparent" title="Redo (Ctrl+Shift+Z)">
+              <Redo2 size={20} />
+            </button>
             {selectedAnnotationId && (
                 <button 
                 onClick={handleDeleteSelected} 
@@ -1435,6 +1834,13 @@ export const Editor: React.FC<EditorProps> = ({
         </div>
 
         <div className="flex items-center gap-2">
+           <button 
+             onClick={() => setIsPaletteOpen(true)}
+             className="flex items-center gap-1.5 text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727] px-2 py-1.5 rounded border border-slate-200 dark:border-[#272727] text-xs font-semibold transition-colors"
+             title="Command palette"
+           >
+             <Command size={14} /> {formatShortcut('mod+k')}
+           </button>
            <button 
              onClick={handleGeneratePDF}
              disabled={isProcessing}
@@ -1444,6 +1850,15 @@ export const Editor: React.FC<EditorProps> = ({
              {isProcessing ? <div className="w-3 h-3 border-2 border-slate-400 border-t-slate-800 rounded-full animate-spin"/> : <FileText size={14} />}
              PDF
            </button>
+           <button 
+             onClick={handleGenerateHtmlReport}
+             disabled={isProcessing}
+             className="flex items-center gap-1.5 text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] px-3 py-1.5 rounded border border-slate-200 dark:border-[#272727] text-xs font-semibold disabled:opacity-50 transition-colors"
+             title="Download a self-contained interactive HTML report"
+           >
+             <FileCode size={14} />
+             HTML
+           </button>
            <button 
              onClick={handleCopySlide}
              disabled={isProcessing}
@@ -1453,6 +1868,14 @@ export const Editor: React.FC<EditorProps> = ({
              {isProcessing ? <div className="w-3 h-3 border-2 border-slate-400 border-t-slate-800 rounded-full animate-spin"/> : <ClipboardCopy size={14} />}
              Copy Slide
            </button>
+           <button 
+             onClick={onExportArchive}
+             className="flex items-center gap-1.5 text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] px-3 py-1.5 rounded border border-slate-200 dark:border-[#272727] text-xs font-semibold transition-colors"
+             title="Download the session as a .bugsnap archive for re-editing later"
+           >
+             <FileArchive size={14} />
+             Archive
+           </button>
            
            <div className="w-px h-5 bg-slate-200 dark:bg-[#272727] mx-1"></div>
            
@@ -1481,7 +1904,7 @@ export const Editor: React.FC<EditorProps> = ({
                                             className="w-full flex items-center gap-3 px-3 py-2.5 text-left text-sm font-medium text-slate-700 dark:text-zinc-200 hover:bg-slate-50 dark:hover:bg-[#272727] rounded-lg transition-colors"
                                        >
                                            <div className="text-slate-500 dark:text-zinc-400">{getSourceIcon(source)}</div>
-                                           {source === 'GoogleDrive' ? 'Google Drive' : source}
+                                           {getSourceName(source)}
                                        </button>
                                    ))}
                                </div>
@@ -1508,7 +1931,7 @@ export const Editor: React.FC<EditorProps> = ({
                                             className="w-full flex items-center gap-3 px-3 py-2.5 text-left text-sm font-medium text-slate-700 dark:text-zinc-200 hover:bg-slate-50 dark:hover:bg-[#272727] rounded-lg transition-colors"
                                        >
                                            <div className="text-slate-500 dark:text-zinc-400">{getSourceIcon(source)}</div>
-                                           {source}
+                                           {getSourceName(source)}
                                        </button>
                                    ))}
                                </div>
@@ -1538,7 +1961,9 @@ export const Editor: React.FC<EditorProps> = ({
                  onClick={() => onSelectSlide(s.id)}
                  className={`relative group cursor-pointer w-16 h-16 rounded-lg border-2 overflow-hidden transition-all shrink-0 ${s.id === activeSlideId ? 'border-blue-500 ring-2 ring-blue-100 dark:ring-blue-900' : 'border-slate-200 dark:border-[#3f3f3f] hover:border-slate-300 dark:hover:border-slate-500'}`}
                >
-                 {s.type === 'video' ? (
+                 {s.thumbnail ? (
+                   <img src={s.thumbnail} alt={`Slide ${i+1}`} className="w-full h-full object-cover pointer-events-none" />
+                 ) : s.type === 'video' ? (
                    <video src={s.src} className="w-full h-full object-cover pointer-events-none" />
                  ) : (
                    <img src={s.src} alt={`Slide ${i+1}`} className="w-full h-full object-cover pointer-events-none" />
@@ -1578,6 +2003,7 @@ export const Editor: React.FC<EditorProps> = ({
         </div>
 
         {/* Canvas */}
+        <div className="flex-1 min-w-0 flex flex-col">
         <div className="flex-1 bg-slate-100 dark:bg-[#0f0f0f] overflow-hidden relative flex items-center justify-center transition-colors">
            <div className="absolute inset-0 opacity-20 pointer-events-none" style={{ backgroundImage: 'radial-gradient(#94a3b8 1px, transparent 1px)', backgroundSize: '20px 20px' }}></div>
            <div 
@@ -1589,37 +2015,115 @@ export const Editor: React.FC<EditorProps> = ({
              onMouseLeave={handleMouseUp}
            >
               {activeSlide.type === 'video' ? (
-                <video ref={mediaRef as any} src={activeSlide.src} className="max-h-[85vh] block" onTimeUpdate={() => { if (mediaRef.current) setCurrentTime((mediaRef.current as HTMLVideoElement).currentTime); }}/>
+                <video
+                  ref={mediaRef as any}
+                  src={activeSlide.src}
+                  className="max-h-[75vh] block"
+                  onLoadedMetadata={() => { handleMediaLoaded(); handleVideoMetadata(); }}
+                  onDurationChange={handleVideoDurationChange}
+                  onTimeUpdate={() => { if (mediaRef.current && !isProbingDurationRef.current) setCurrentTime((mediaRef.current as HTMLVideoElement).currentTime); }}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                />
               ) : (
-                <img ref={mediaRef as any} src={activeSlide.src} alt="Canvas" className="max-h-[85vh] block draggable-none" draggable={false} />
+                <img ref={mediaRef as any} src={activeSlide.src} alt="Canvas" className="max-h-[85vh] block draggable-none" draggable={false} onLoad={handleMediaLoaded} />
               )}
+              {/* Redaction previews (burned into the pixels on export) */}
+              {annotations.filter(isRedaction).map(ann => {
+                   if (activeSlide.type === 'video' && !isAnnotationVisibleAt(ann, currentTime)) return null;
+                   const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+                   const style = ann.redactStyle || 'solid';
+                   return (
+                     <div
+                       key={ann.id}
+                       className="absolute pointer-events-none"
+                       style={{
+                         left: minX * viewScale,
+                         top: minY * viewScale,
+                         width: (maxX - minX) * viewScale,
+                         height: (maxY - minY) * viewScale,
+                         backgroundColor: style === 'solid' ? '#000000' : undefined,
+                         backdropFilter: style === 'blur' ? 'blur(10px)' : style === 'pixelate' ? 'blur(6px) contrast(1.2)' : undefined,
+                         backgroundImage: style === 'pixelate' ? 'linear-gradient(rgba(0,0,0,0.08) 1px, transparent 1px), linear-gradient(90deg, rgba(0,0,0,0.08) 1px, transparent 1px)' : undefined,
+                         backgroundSize: style === 'pixelate' ? '12px 12px' : undefined
+                       }}
+                     />
+                   );
+              })}
               {/* Annotations Overlay */}
               <svg className="absolute inset-0 w-full h-full pointer-events-none">
-                {annotations.map((ann, index) => {
-                   if (activeSlide.type === 'video' && ann.timestamp !== undefined && Math.abs(ann.timestamp - currentTime) > 0.5) return null;
-                   const isSelected = selectedAnnotationId === ann.id;
-                   const minX = Math.min(ann.start.x, ann.end.x);
-                   const minY = Math.min(ann.start.y, ann.end.y);
-                   const width = Math.abs(ann.end.x - ann.start.x);
-                   const height = Math.abs(ann.end.y - ann.start.y);
-                   return (
-                     <g key={ann.id} className={`pointer-events-auto group ${isSelected && selectedTool === ToolType.SELECT ? 'cursor-move' : 'cursor-pointer'}`} onClick={(e) => { e.stopPropagation(); setSelectedAnnotationId(ann.id); }}>
-                       {ann.type === ToolType.RECTANGLE && <rect x={minX} y={minY} width={width} height={height} fill={hexToRgba(ann.color, 0.2)} stroke={isSelected ? "#3b82f6" : ann.color} strokeWidth={3} rx={4} />}
-                       {ann.type === ToolType.CIRCLE && <ellipse cx={minX + width / 2} cy={minY + height / 2} rx={width / 2} ry={height / 2} fill={hexToRgba(ann.color, 0.2)} stroke={isSelected ? "#3b82f6" : ann.color} strokeWidth={3} />}
-                       {isSelected && (<><rect x={minX-5} y={minY-5} width="10" height="10" fill="white" stroke="#3b82f6" strokeWidth="2"/><rect x={minX+width-5} y={minY-5} width="10" height="10" fill="white" stroke="#3b82f6" strokeWidth="2"/><rect x={minX-5} y={minY+height-5} width="10" height="10" fill="white" stroke="#3b82f6" strokeWidth="2"/><rect x={minX+width-5} y={minY+height-5} width="10" height="10" fill="white" stroke="#3b82f6" strokeWidth="2"/></>)}
-                       <g transform={`translate(${minX}, ${minY})`}><rect x="-12" y="-12" width="24" height="24" rx="6" fill={isSelected ? "#3b82f6" : ann.color} /><text x="0" y="5" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">{index + 1}</text></g>
+                <g transform={`scale(${viewScale})`}>
+                  {annotations.map(ann => {
+                     if (activeSlide.type === 'video' && !isAnnotationVisibleAt(ann, currentTime)) return null;
+                     const isSelected = selectedAnnotationId === ann.id;
+                     const index = numberedAnnotations.indexOf(ann);
+                     const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+                     const width = maxX - minX;
+                     const height = maxY - minY;
+                     const stroke = isSelected ? "#3b82f6" : ann.color;
+                     const badge = getBadgePosition(ann);
+                     const arrowHead = ann.type === ToolType.ARROW ? getArrowHeadPoints(ann.start, ann.end, 16) : null;
+                     return (
+                       <g key={ann.id} className={`pointer-events-auto group ${isSelected && selectedTool === ToolType.SELECT ? 'cursor-move' : 'cursor-pointer'}`} onClick={(e) => { e.stopPropagation(); setSelectedAnnotationId(ann.id); }}>
+                         {ann.type === ToolType.RECTANGLE && <rect x={minX} y={minY} width={width} height={height} fill={hexToRgba(ann.color, 0.2)} stroke={stroke} strokeWidth={3} rx={4} />}
+                         {ann.type === ToolType.CIRCLE && <ellipse cx={minX + width / 2} cy={minY + height / 2} rx={width / 2} ry={height / 2} fill={hexToRgba(ann.color, 0.2)} stroke={stroke} strokeWidth={3} />}
+                         {isLinearAnnotation(ann) && (
+                           <>
+                             {/* Wide transparent stroke gives thin lines a usable hit area */}
+                             <line x1={ann.start.x} y1={ann.start.y} x2={ann.end.x} y2={ann.end.y} stroke="transparent" strokeWidth={16} />
+                             <line x1={ann.start.x} y1={ann.start.y} x2={ann.end.x} y2={ann.end.y} stroke={stroke} strokeWidth={3} strokeLinecap="round" />
+                             {arrowHead && <polygon points={`${ann.end.x},${ann.end.y} ${arrowHead[0].x},${arrowHead[0].y} ${arrowHead[1].x},${arrowHead[1].y}`} fill={stroke} />}
+                           </>
+                         )}
+                         {ann.type === ToolType.FREEHAND && ann.points && (
+                           <>
+                             <path d={getFreehandPath(ann.points)} fill="none" stroke="transparent" strokeWidth={16} />
+                             <path d={getFreehandPath(ann.points)} fill="none" stroke={stroke} strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" />
+                           </>
+                         )}
+                         {ann.type === ToolType.REDACT && <rect x={minX} y={minY} width={width} height={height} fill="transparent" stroke={isSelected ? "#3b82f6" : "#64748b"} strokeWidth={isSelected ? 2 : 1} strokeDasharray="6 4" />}
+                         {ann.type === ToolType.TEXT && (
+                           <>
+                             <rect x={minX} y={minY} width={width} height={height} fill="transparent" stroke={isSelected ? "#3b82f6" : "none"} strokeDasharray="4 3" />
+                             <text x={minX} y={minY + height / 2} dominantBaseline="middle" fontSize={getTextFontSize(ann)} fontWeight="bold" fill={ann.color} stroke="white" strokeWidth={3} paintOrder="stroke">{ann.text || ''}</text>
+                           </>
+                         )}
+                         {isSelected && getHandlePoints(ann).map(({ handle, point }) => <rect key={handle} x={point.x - 5} y={point.y - 5} width="10" height="10" fill="white" stroke="#3b82f6" strokeWidth="2"/>)}
+                         {index >= 0 && <g transform={`translate(${badge.x}, ${badge.y})`}><rect x="-12" y="-12" width="24" height="24" rx="6" fill={isSelected ? "#3b82f6" : ann.color} /><text x="0" y="5" textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">{index + 1}</text></g>}
+                       </g>
+                     );
+                  })}
+                  {isDrawing && startPoint && currentPoint && !resizeHandle && !isDraggingShape && (
+                     <g>
+                        {selectedTool === ToolType.RECTANGLE && <rect x={Math.min(startPoint.x, currentPoint.x)} y={Math.min(startPoint.y, currentPoint.y)} width={Math.abs(currentPoint.x - startPoint.x)} height={Math.abs(currentPoint.y - startPoint.y)} fill="rgba(59, 130, 246, 0.2)" stroke="#3b82f6" strokeWidth={3} rx={4} />}
+                        {selectedTool === ToolType.CIRCLE && <ellipse cx={Math.min(startPoint.x, currentPoint.x) + Math.abs(currentPoint.x - startPoint.x) / 2} cy={Math.min(startPoint.y, currentPoint.y) + Math.abs(currentPoint.y - startPoint.y) / 2} rx={Math.abs(currentPoint.x - startPoint.x) / 2} ry={Math.abs(currentPoint.y - startPoint.y) / 2} fill="rgba(59, 130, 246, 0.2)" stroke="#3b82f6" strokeWidth={3} />}
+                        {(selectedTool === ToolType.LINE || selectedTool === ToolType.ARROW) && <line x1={startPoint.x} y1={startPoint.y} x2={currentPoint.x} y2={currentPoint.y} stroke="#3b82f6" strokeWidth={3} strokeLinecap="round" />}
+                        {selectedTool === ToolType.ARROW && (() => { const [a, b] = getArrowHeadPoints(startPoint, currentPoint, 16); return <polygon points={`${currentPoint.x},${currentPoint.y} ${a.x},${a.y} ${b.x},${b.y}`} fill="#3b82f6" />; })()}
+                        {selectedTool === ToolType.FREEHAND && draftPoints.length > 0 && <path d={getFreehandPath(draftPoints)} fill="none" stroke="#3b82f6" strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" />}
+                        {selectedTool === ToolType.REDACT && <rect x={Math.min(startPoint.x, currentPoint.x)} y={Math.min(startPoint.y, currentPoint.y)} width={Math.abs(currentPoint.x - startPoint.x)} height={Math.abs(currentPoint.y - startPoint.y)} fill="rgba(15, 23, 42, 0.6)" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="6 4" />}
+                        {selectedTool === ToolType.TEXT && <rect x={Math.min(startPoint.x, currentPoint.x)} y={Math.min(startPoint.y, currentPoint.y)} width={Math.abs(currentPoint.x - startPoint.x)} height={Math.abs(currentPoint.y - startPoint.y)} fill="none" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="4 3" />}
                      </g>
-                   );
-                })}
-                {isDrawing && startPoint && currentPoint && !resizeHandle && !isDraggingShape && (
-                   <g>
-                      {selectedTool === ToolType.RECTANGLE && <rect x={Math.min(startPoint.x, currentPoint.x)} y={Math.min(startPoint.y, currentPoint.y)} width={Math.abs(currentPoint.x - startPoint.x)} height={Math.abs(currentPoint.y - startPoint.y)} fill="rgba(59, 130, 246, 0.2)" stroke="#3b82f6" strokeWidth={3} rx={4} />}
-                      {selectedTool === ToolType.CIRCLE && <ellipse cx={Math.min(startPoint.x, currentPoint.x) + Math.abs(currentPoint.x - startPoint.x) / 2} cy={Math.min(startPoint.y, currentPoint.y) + Math.abs(currentPoint.y - startPoint.y) / 2} rx={Math.abs(currentPoint.x - startPoint.x) / 2} ry={Math.abs(currentPoint.y - startPoint.y) / 2} fill="rgba(59, 130, 246, 0.2)" stroke="#3b82f6" strokeWidth={3} />}
-                   </g>
-                )}
+                  )}
+                </g>
               </svg>
            </div>
         </div>
+        {activeSlide.type === 'video' && (
+          <VideoTimeline
+            duration={videoDuration}
+            currentTime={currentTime}
+            isPlaying={isPlaying}
+            annotations={annotations}
+            numberedAnnotations={numberedAnnotations}
+            selectedAnnotationId={selectedAnnotationId}
+            onSeek={seekVideo}
+            onTogglePlay={togglePlayback}
+            onStepFrame={stepFrame}
+            onSelectAnnotation={setSelectedAnnotationId}
+            onChangeRange={handleRangeChange}
+          />
+        )}
+        </div>
 
         {/* Right Sidebar (Comments) */}
         <div className="w-80 bg-white dark:bg-[#0f0f0f] border-l border-slate-200 dark:border-[#272727] flex flex-col transition-colors">
@@ -1640,9 +2144,18 @@ export const Editor: React.FC<EditorProps> = ({
                      {isScanning ? <Loader2 size={14} className="animate-spin" /> : <ScanEye size={14} />}
                      <span className="hidden sm:inline">AI Scan</span>
                   </button>
+                  <button 
+                    onClick={handleSecretScan}
+                    disabled={isProcessing || isScanningSecrets || activeSlide.type !== 'image'}
+                    className="flex-1 p-2 text-slate-700 dark:text-zinc-300 bg-slate-100 dark:bg-[#1e1e1e] hover:bg-slate-200 dark:hover:bg-[#272727] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
+                    title="Scan for secrets: find emails, phone numbers, card numbers, keys and names and propose redactions"
+                  >
+                     {isScanningSecrets ? <Loader2 size={14} className="animate-spin" /> : <ShieldAlert size={14} />}
+                     <span className="hidden sm:inline">Secrets</span>
+                  </button>
                   <button 
                     onClick={handleRefineAll}
-                    disabled={isProcessing || annotations.length === 0}
+                    disabled={isProcessing || numberedAnnotations.length === 0}
                     className="flex-1 p-2 text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/40 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
                     title="Rephrase all observations with AI"
                   >
@@ -1650,6 +2163,59 @@ export const Editor: React.FC<EditorProps> = ({
                      <span className="hidden sm:inline">Refine All</span>
                   </button>
               </div>
+              {activeSlide.type === 'video' && (
+                  <>
+                      <div className="grid grid-cols-2 gap-2">
+                          <button
+                            onClick={() => setIsVideoEditOpen(true)}
+                            className="p-2 text-slate-700 dark:text-zinc-300 bg-slate-100 dark:bg-[#1e1e1e] hover:bg-slate-200 dark:hover:bg-[#272727] rounded-lg transition-colors flex items-center justify-center gap-2 text-xs font-bold"
+                            title="Trim, crop and compress the recording"
+                          >
+                             <Scissors size={14} />
+                             Trim & Compress
+                          </button>
+                          <button
+                            onClick={handleTranscribeNarration}
+                            disabled={isTranscribing}
+                            className="p-2 text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/40 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
+                            title="Transcribe the recorded narration into timed observations with AI"
+                          >
+                             {isTranscribing ? <Loader2 size={14} className="animate-spin" /> : <Mic size={14} />}
+                             Transcribe
+                          </button>
+                          <button
+                            onClick={handleExtractKeyframes}
+                            disabled={isExtractingKeyframes || numberedAnnotations.length === 0}
+                            className="p-2 text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
+                            title="Add an image slide with the frame behind each observation"
+                          >
+                             {isExtractingKeyframes ? <Loader2 size={14} className="animate-spin" /> : <ImagePlus size={14} />}
+                             Keyframes
+                          </button>
+                          <button
+                            onClick={handleDownloadGif}
+                            disabled={gifProgress !== null}
+                            className="p-2 text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20 hover:bg-emerald-100 dark:hover:bg-emerald-900/40 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
+                            title="Download the selected observation's time range (or the next few seconds) as an annotated GIF"
+                          >
+                             {gifProgress !== null ? <><Loader2 size={14} className="animate-spin" /> {Math.round(gifProgress * 100)}%</> : <><Clapperboard size={14} /> GIF</>}
+                          </button>
+                      </div>
+                      {activeSlide.audio && (
+                          <audio src={activeSlide.audio} controls className="w-full h-8" title="Recorded soundtrack" />
+                      )}
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                          <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-zinc-300 cursor-pointer select-none" title="Upload a still per observation next to the video when exporting">
+                              <input type="checkbox" checked={attachKeyframes} onChange={toggleAttachKeyframes} className="rounded accent-blue-600" />
+                              Attach keyframes
+                          </label>
+                          <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-zinc-300 cursor-pointer select-none" title="Upload an animated GIF per observation's time range when exporting; Slack and Trello preview these inline">
+                              <input type="checkbox" checked={attachGifs} onChange={toggleAttachGifs} className="rounded accent-blue-600" />
+                              Attach GIF clips
+                          </label>
+                      </div>
+                  </>
+              )}
            </div>
            <div className="flex-1 overflow-y-auto p-4 space-y-4">
               {annotations.length === 0 && (
@@ -1661,7 +2227,33 @@ export const Editor: React.FC<EditorProps> = ({
                       <p className="text-xs text-slate-400 dark:text-zinc-500 mt-1">Select a tool and draw on the image</p>
                   </div>
               )}
-              {annotations.map((ann, index) => (
+              {annotations.filter(isRedaction).map(ann => (
+                  <div
+                    key={ann.id}
+                    className={`px-3 py-2 rounded-xl border flex items-center justify-between transition-all ${selectedAnnotationId === ann.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/10' : 'border-slate-200 dark:border-[#3f3f3f] bg-slate-50 dark:bg-[#121212]'}`}
+                    onClick={() => setSelectedAnnotationId(ann.id)}
+                  >
+                      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-zinc-400">
+                          <EyeOff size={14} /> {ann.comment || 'Redacted region'}
+                      </div>
+                      <div className="flex items-center gap-1">
+                          <select
+                              value={ann.redactStyle || 'solid'}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={(e) => handleRedactStyleChange(ann.id, e.target.value as RedactionStyle)}
+                              className="text-xs bg-white dark:bg-[#1e1e1e] text-slate-600 dark:text-zinc-300 border border-slate-200 dark:border-[#3f3f3f] rounded px-1 py-0.5 outline-none"
+                          >
+                              <option value="solid">Solid</option>
+                              <option value="pixelate">Pixelate</option>
+                              <option value="blur">Blur</option>
+                          </select>
+                          <button onClick={(e) => { e.stopPropagation(); handleDeleteAnnotation(ann.id); }} className="p-1 text-slate-400 hover:text-red-600 transition-colors rounded hover:bg-red-50 dark:hover:bg-red-900/20" title="Remove redaction">
+                              <Trash2 size={14} />
+                          </button>
+                      </div>
+                  </div>
+              ))}
+              {numberedAnnotations.map((ann, index) => (
                   <div 
                     key={ann.id} 
                     className={`p-3 rounded-xl border transition-all ${selectedAnnotationId === ann.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/10 shadow-sm' : 'border-slate-200 dark:border-[#3f3f3f] bg-white dark:bg-[#1e1e1e] hover:border-slate-300 dark:hover:border-[#555]'}`}
@@ -1671,6 +2263,18 @@ export const Editor: React.FC<EditorProps> = ({
                           <div className="flex items-center gap-2">
                               <span className="w-5 h-5 rounded-full bg-slate-800 text-white text-xs font-bold flex items-center justify-center" style={{ backgroundColor: ann.color }}>{index + 1}</span>
                               <span className="text-xs font-bold text-slate-500 dark:text-zinc-400">Issue #{index + 1}</span>
+                              {isVideo && (() => {
+                                  const range = getAnnotationTimeRange(ann);
+                                  return range && (
+                                      <button
+                                          onClick={(e) => { e.stopPropagation(); setSelectedAnnotationId(ann.id); seekVideo(range.start); }}
+                                          className="text-[10px] font-semibold tabular-nums text-slate-500 dark:text-zinc-400 bg-slate-100 dark:bg-[#272727] hover:text-blue-600 dark:hover:text-blue-400 rounded px-1.5 py-0.5"
+                                          title="Jump to this annotation"
+                                      >
+                                          {formatVideoTime(range.start)}–{formatVideoTime(range.end)}
+                                      </button>
+                                  );
+                              })()}
                           </div>
                           <div className="flex gap-1">
                               <button onClick={(e) => { e.stopPropagation(); handleAiRefine(ann.id); }} className="p-1 text-slate-400 hover:text-purple-600 transition-colors rounded hover:bg-purple-50 dark:hover:bg-purple-900/20" title="Refine with AI">
@@ -1687,6 +2291,27 @@ export const Editor: React.FC<EditorProps> = ({
                               </button>
                           </div>
                       </div>
+                      <div className="flex items-center gap-1.5 mb-2">
+                          {ANNOTATION_COLORS.map(color => (
+                              <button
+                                  key={color}
+                                  onClick={(e) => { e.stopPropagation(); handleColorChange(ann.id, color); }}
+                                  className={`w-4 h-4 rounded-full transition-transform hover:scale-110 ${ann.color === color ? 'ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-[#1e1e1e]' : ''}`}
+                                  style={{ backgroundColor: color }}
+                                  title={`Set color ${color}`}
+                              />
+                          ))}
+                      </div>
+                      {ann.type === ToolType.TEXT && (
+                          <input
+                              type="text"
+                              className="w-full mb-2 px-2 py-1 text-sm font-bold rounded border border-slate-200 dark:border-[#3f3f3f] bg-slate-50 dark:bg-[#121212] text-slate-800 dark:text-zinc-100 focus:ring-1 focus:ring-blue-500 outline-none"
+                              placeholder="Label shown on the image"
+                              value={ann.text || ''}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={(e) => handleLabelChange(ann.id, e.target.value)}
+                          />
+                      )}
                       <textarea 
                           ref={(el) => { commentRefs.current[ann.id] = el; }}
                           className="w-full text-sm bg-transparent border-none p-0 focus:ring-0 resize-y min-h-[100px] text-slate-700 dark:text-zinc-200 placeholder-slate-400"
@@ -1698,6 +2323,13 @@ export const Editor: React.FC<EditorProps> = ({
                   </div>
               ))}
            </div>
+           <ReportFieldsPanel
+             fields={activeSlide.report}
+             onChange={(report) => onUpdateSlide({ ...activeSlide, report })}
+             onDraft={handleDraftReproSteps}
+             isDrafting={isReproDraftOpen && !reproDraft}
+           />
+           <LogPanel logs={activeSlide.logs} onChange={(logs) => onUpdateSlide({ ...activeSlide, logs })} />
         </div>
       </div>
     </div>
@@ -1,15 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, AlertCircle, Save, Layers, Slack, CreditCard, Lock, Hash, Trash2, Loader2, ExternalLink, Globe, Mail, Users, Key, CheckCircle2, Link as LinkIcon, Webhook, HardDrive, Info, Trello } from 'lucide-react';
+import { X, AlertCircle, Save, Layers, Slack, CreditCard, Lock, Hash, Trash2, Loader2, ExternalLink, Globe, Mail, Users, Key, CheckCircle2, Link as LinkIcon, Webhook, HardDrive, Info, Trello, Github, Gitlab, Orbit, Infinity as InfinityIcon, Building2 } from 'lucide-react';
 import { IntegrationConfig, IntegrationSource } from '../types';
 import { extractChannelId } from '../services/slackService';
-import { validateClickUpToken } from '../services/clickUpService';
-import { validateJiraCredentials } from '../services/jiraService';
 import { validateTeamsWebhookUrl } from '../services/teamsService';
-import { validateAsanaToken } from '../services/asanaService';
-import { validateTrelloCredentials } from '../services/trelloService';
 import { validateWebhookUrl } from '../services/webhookService';
 import { requestDriveToken } from '../services/googleDriveService';
+import { getTracker } from '../services/trackerService';
+import { GITHUB_ASSET_BRANCH } from '../services/githubService';
+import { GITLAB_DEFAULT_URL } from '../services/gitlabService';
+import { extractAzureDevOpsOrganization } from '../services/azureDevOpsService';
+import { TRACKER_ICONS } from './trackerIcons';
 
 interface IntegrationModalProps {
   isOpen: boolean;
@@ -88,6 +89,16 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
     if (newConfig.trelloApiKey) newConfig.trelloApiKey = newConfig.trelloApiKey.trim();
     if (newConfig.trelloToken) newConfig.trelloToken = newConfig.trelloToken.trim();
     if (newConfig.webhookUrl) newConfig.webhookUrl = newConfig.webhookUrl.trim();
+    if (newConfig.githubToken) newConfig.githubToken = newConfig.githubToken.trim();
+    if (newConfig.gitlabUrl) newConfig.gitlabUrl = newConfig.gitlabUrl.trim().replace(/\/$/, '');
+    if (newConfig.gitlabToken) newConfig.gitlabToken = newConfig.gitlabToken.trim();
+    if (newConfig.linearApiKey) newConfig.linearApiKey = newConfig.linearApiKey.trim();
+    if (newConfig.azureDevOpsToken) newConfig.azureDevOpsToken = newConfig.azureDevOpsToken.trim();
+    if (newConfig.azureDevOpsOrganization) newConfig.azureDevOpsOrganization = extractAzureDevOpsOrganization(newConfig.azureDevOpsOrganization);
+    if (newConfig.zohoToken) newConfig.zohoToken = newConfig.zohoToken.trim();
+    if (newConfig.zohoSprintsToken) newConfig.zohoSprintsToken = newConfig.zohoSprintsToken.trim();
+    if (source === 'Zoho' && !newConfig.zohoDC) newConfig.zohoDC = 'com';
+    if (source === 'ZohoSprints' && !newConfig.zohoSprintsDC) newConfig.zohoSprintsDC = 'com';
 
     if (source === 'Jira' && newConfig.jiraUrl && newConfig.jiraUrl.includes('.atlassian') && !newConfig.jiraUrl.includes('.atlassian.net')) {
          newConfig.jiraUrl = newConfig.jiraUrl.replace('.atlassian', '.atlassian.net');
@@ -98,15 +109,10 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
     setIsCorsDemoError(false);
 
     try {
-        if (source === 'ClickUp') {
-            if (!newConfig.clickUpToken) {
-                throw new Error("Personal Access Token is required.");
-            }
-            const isValid = await validateClickUpToken(newConfig.clickUpToken);
-            if (!isValid) {
-                throw new Error("Invalid Personal Access Token. Authentication failed.");
-            }
-        } 
+        const tracker = source ? getTracker(source) : undefined;
+        if (tracker) {
+            await tracker.validate(newConfig as IntegrationConfig);
+        }
         else if (source === 'Slack') {
             if (!newConfig.slackToken || !newConfig.slackToken.startsWith('xoxb-')) {
                 throw new Error("Invalid Bot Token. It must start with 'xoxb-'.");
@@ -120,13 +126,6 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
             }
             newConfig.slackChannel = extractedId;
         }
-        else if (source === 'Jira') {
-            if (!newConfig.jiraUrl || !newConfig.jiraToken || !newConfig.jiraEmail) {
-                 throw new Error("All fields are required for Jira.");
-            }
-            const isValid = await validateJiraCredentials(newConfig.jiraUrl, newConfig.jiraEmail, newConfig.jiraToken);
-            if (!isValid) throw new Error("Jira Authentication Failed. Check credentials.");
-        }
         else if (source === 'Teams') {
             if (!newConfig.teamsWebhookUrl) {
                 throw new Error("Webhook URL is required.");
@@ -134,20 +133,6 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
             const isValid = await validateTeamsWebhookUrl(newConfig.teamsWebhookUrl);
             if (!isValid) throw new Error("Invalid Microsoft Teams Webhook URL.");
         }
-        else if (source === 'Asana') {
-            if (!newConfig.asanaToken) {
-                throw new Error("Personal Access Token is required.");
-            }
-            const isValid = await validateAsanaToken(newConfig.asanaToken);
-            if (!isValid) throw new Error("Asana Authentication Failed.");
-        }
-        else if (source === 'Trello') {
-            if (!newConfig.trelloApiKey || !newConfig.trelloToken) {
-                throw new Error("API Key and Token are required.");
-            }
-            const isValid = await validateTrelloCredentials(newConfig.trelloApiKey, newConfig.trelloToken);
-            if (!isValid) throw new Error("Trello Authentication Failed.");
-        }
         else if (source === 'Webhook') {
             if (!newConfig.webhookUrl) {
                 throw new Error("Webhook URL is required.");
@@ -217,6 +202,26 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
           newConfig.webhookUrl = undefined;
       } else if (source === 'GoogleDrive') {
           newConfig.googleDriveToken = undefined;
+      } else if (source === 'GitHub') {
+          newConfig.githubToken = undefined;
+          newConfig.githubRepo = undefined;
+      } else if (source === 'GitLab') {
+          newConfig.gitlabToken = undefined;
+          newConfig.gitlabUrl = undefined;
+          newConfig.gitlabProject = undefined;
+      } else if (source === 'Linear') {
+          newConfig.linearApiKey = undefined;
+          newConfig.linearTeamId = undefined;
+      } else if (source === 'AzureDevOps') {
+          newConfig.azureDevOpsToken = undefined;
+          newConfig.azureDevOpsOrganization = undefined;
+          newConfig.azureDevOpsProject = undefined;
+      } else if (source === 'Zoho') {
+          newConfig.zohoToken = undefined;
+          newConfig.zohoDC = undefined;
+      } else if (source === 'ZohoSprints') {
+          newConfig.zohoSprintsToken = undefined;
+          newConfig.zohoSprintsDC = undefined;
       }
       
       onSave(newConfig as IntegrationConfig);
@@ -229,6 +234,50 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
       return `https://trello.com/1/authorize?expiration=never&name=BugSnap&scope=read,write&response_type=token&key=${apiKey}`;
   }
 
+  // Zoho Projects and Zoho Sprints share the same OAuth setup, each with its own token
+  const renderZohoForm = (dcKey: 'zohoDC' | 'zohoSprintsDC', tokenKey: 'zohoToken' | 'zohoSprintsToken', scopes: string) => {
+      const dc = formData[dcKey] || 'com';
+      return (
+          <div className="space-y-5">
+              <div>
+                  <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300 mb-1">Data Center</label>
+                  <select
+                      className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-teal-600 focus:border-transparent p-3 text-sm text-slate-900 dark:text-white outline-none transition-colors"
+                      value={dc}
+                      onChange={(e) => handleChange(dcKey, e.target.value)}
+                  >
+                      <option value="com">United States (zoho.com)</option>
+                      <option value="eu">Europe (zoho.eu)</option>
+                      <option value="in">India (zoho.in)</option>
+                      <option value="com.au">Australia (zoho.com.au)</option>
+                      <option value="jp">Japan (zoho.jp)</option>
+                  </select>
+              </div>
+              <div>
+                  <div className="flex justify-between items-center mb-1">
+                      <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300">Access Token</label>
+                      <a href={`https://api-console.zoho.${dc}`} target="_blank" rel="noreferrer" className="text-xs text-teal-600 hover:underline font-bold flex items-center gap-1">
+                          API Console <ExternalLink size={10} />
+                      </a>
+                  </div>
+                  <div className="relative">
+                      <input 
+                          type="password" 
+                          className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-teal-600 focus:border-transparent p-3 pr-10 font-mono text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                          placeholder="1000.xxxx..."
+                          value={formData[tokenKey] || ''}
+                          onChange={(e) => handleChange(tokenKey, e.target.value)}
+                      />
+                      <Lock className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                      Generate it from a Self Client in the API Console of the same data center, with the <strong>{scopes}</strong> scopes.
+                  </p>
+              </div>
+          </div>
+      );
+  };
+
   const renderContent = () => {
     switch(source) {
         case 'ClickUp':
@@ -469,6 +518,157 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
                     </div>
                 </div>
              );
+        case 'GitHub':
+            return (
+                <div className="space-y-5">
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300">Personal Access Token</label>
+                            <a href="https://github.com/settings/tokens" target="_blank" rel="noreferrer" className="text-xs text-[#24292f] dark:text-zinc-300 hover:underline font-bold flex items-center gap-1">
+                                Create Token <ExternalLink size={10} />
+                            </a>
+                        </div>
+                        <div className="relative">
+                            <input 
+                                type="password" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#24292f] focus:border-transparent p-3 pr-10 font-mono text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder="ghp_... or github_pat_..."
+                                value={formData.githubToken || ''}
+                                onChange={(e) => handleChange('githubToken', e.target.value)}
+                            />
+                            <Lock className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                            Needs the <strong>repo</strong> scope, or Issues and Contents write access for fine-grained tokens.
+                        </p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300 mb-1">Screenshot Storage</label>
+                        <select
+                            className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#24292f] focus:border-transparent p-3 text-sm text-slate-900 dark:text-white outline-none transition-colors"
+                            value={formData.githubAttachmentStorage || 'branch'}
+                            onChange={(e) => handleChange('githubAttachmentStorage', e.target.value)}
+                        >
+                            <option value="branch">Repository branch ({GITHUB_ASSET_BRANCH})</option>
+                            <option value="drive">Google Drive</option>
+                        </select>
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                            GitHub's API can't attach files to issues, so screenshots are committed to a branch or uploaded to Drive and linked from the issue.
+                        </p>
+                    </div>
+                </div>
+            );
+        case 'GitLab':
+            return (
+                <div className="space-y-5">
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300 mb-1">GitLab URL</label>
+                        <div className="relative">
+                            <input 
+                                type="text" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#FC6D26] focus:border-transparent p-3 pr-10 text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder={GITLAB_DEFAULT_URL}
+                                value={formData.gitlabUrl || ''}
+                                onChange={(e) => handleChange('gitlabUrl', e.target.value)}
+                            />
+                            <Globe className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-[11px] text-slate-500 dark:text-zinc-500 mt-1 flex items-center gap-1">
+                            <Info size={12}/> Leave blank for GitLab.com, or enter your self-hosted instance's address.
+                        </p>
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300">Personal Access Token</label>
+                            <a href={`${(formData.gitlabUrl || GITLAB_DEFAULT_URL).replace(/\/$/, '')}/-/user_settings/personal_access_tokens`} target="_blank" rel="noreferrer" className="text-xs text-[#FC6D26] hover:underline font-bold flex items-center gap-1">
+                                Create Token <ExternalLink size={10} />
+                            </a>
+                        </div>
+                        <div className="relative">
+                            <input 
+                                type="password" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#FC6D26] focus:border-transparent p-3 pr-10 font-mono text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder="glpat-..."
+                                value={formData.gitlabToken || ''}
+                                onChange={(e) => handleChange('gitlabToken', e.target.value)}
+                            />
+                            <Lock className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                            Needs the <strong>api</strong> scope.
+                        </p>
+                    </div>
+                </div>
+            );
+        case 'Linear':
+            return (
+                <div className="space-y-6">
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300 mb-1">Personal API Key</label>
+                        <div className="relative">
+                            <input 
+                                type="password" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#5E6AD2] focus:border-transparent p-3 pr-10 font-mono text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder="lin_api_..."
+                                value={formData.linearApiKey || ''}
+                                onChange={(e) => handleChange('linearApiKey', e.target.value)}
+                            />
+                            <Lock className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                            Create a key in <a href="https://linear.app/settings/account/security" target="_blank" rel="noreferrer" className="text-[#5E6AD2] hover:text-[#4C56C0] underline font-medium">Linear Settings &gt; Security &amp; access</a>
+                        </p>
+                    </div>
+                </div>
+            );
+        case 'AzureDevOps':
+            return (
+                <div className="space-y-5">
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300 mb-1">Organization</label>
+                        <div className="relative">
+                            <input 
+                                type="text" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#0078D4] focus:border-transparent p-3 pr-10 text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder="contoso or https://dev.azure.com/contoso"
+                                value={formData.azureDevOpsOrganization || ''}
+                                onChange={(e) => handleChange('azureDevOpsOrganization', e.target.value)}
+                            />
+                            <Building2 className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-[11px] text-slate-500 dark:text-zinc-500 mt-1 flex items-center gap-1">
+                            <Info size={12}/> Other organizations your account belongs to appear in the export picker.
+                        </p>
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-sm font-bold text-slate-700 dark:text-zinc-300">Personal Access Token</label>
+                            {formData.azureDevOpsOrganization && (
+                                <a href={`https://dev.azure.com/${extractAzureDevOpsOrganization(formData.azureDevOpsOrganization)}/_usersSettings/tokens`} target="_blank" rel="noreferrer" className="text-xs text-[#0078D4] hover:underline font-bold flex items-center gap-1 animate-in fade-in">
+                                    Create Token <ExternalLink size={10} />
+                                </a>
+                            )}
+                        </div>
+                        <div className="relative">
+                            <input 
+                                type="password" 
+                                className="w-full bg-slate-50 dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-lg shadow-sm focus:ring-2 focus:ring-[#0078D4] focus:border-transparent p-3 pr-10 font-mono text-sm text-slate-900 dark:text-white outline-none transition-colors placeholder-slate-400"
+                                placeholder="Paste Token"
+                                value={formData.azureDevOpsToken || ''}
+                                onChange={(e) => handleChange('azureDevOpsToken', e.target.value)}
+                            />
+                            <Lock className="absolute right-3 top-3.5 text-slate-400 dark:text-zinc-500" size={16} />
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">
+                            Needs the <strong>Work Items (Read &amp; write)</strong> and <strong>Project and Team (Read)</strong> scopes.
+                        </p>
+                    </div>
+                </div>
+            );
+        case 'Zoho':
+            return renderZohoForm('zohoDC', 'zohoToken', 'ZohoProjects.portals.READ, ZohoProjects.projects.READ, ZohoProjects.bugs.ALL');
+        case 'ZohoSprints':
+            return renderZohoForm('zohoSprintsDC', 'zohoSprintsToken', 'ZohoSprints.teams.READ, ZohoSprints.projects.READ, ZohoSprints.items.ALL');
         case 'Webhook':
             return (
                 <div className="space-y-4">
@@ -503,6 +703,12 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
         case 'Teams': return '#5059C9';
         case 'Asana': return '#F06A6A';
         case 'Trello': return '#0079BF';
+        case 'GitHub': return '#24292f';
+        case 'GitLab': return '#FC6D26';
+        case 'Linear': return '#5E6AD2';
+        case 'AzureDevOps': return '#0078D4';
+        case 'Zoho':
+        case 'ZohoSprints': return '#0d9488';
         case 'Webhook': return '#db2777';
         case 'GoogleDrive': return '#34A853';
         default: return '#3b82f6';
@@ -517,9 +723,16 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
         case 'Teams': return <Users size={20} />;
         case 'Asana': return <CheckCircle2 size={20} />;
         case 'Trello': return <Trello size={20} />;
+        case 'GitHub': return <Github size={20} />;
+        case 'GitLab': return <Gitlab size={20} />;
+        case 'Linear': return <Orbit size={20} />;
+        case 'AzureDevOps': return <InfinityIcon size={20} />;
         case 'Webhook': return <Webhook size={20} />;
         case 'GoogleDrive': return <HardDrive size={20} />;
-        default: return null;
+        default: {
+            const TrackerIcon = source ? TRACKER_ICONS[source] : undefined;
+            return TrackerIcon ? <TrackerIcon size={20} /> : null;
+        }
     }
   };
 
@@ -529,7 +742,7 @@ export const IntegrationModal: React.FC<IntegrationModalProps> = ({
         <div className="p-4 flex items-center justify-between text-white" style={{ backgroundColor: getColor() }}>
            <div className="flex items-center gap-2 font-bold text-lg">
              {getIcon()}
-             <span>Connect {source === 'GoogleDrive' ? 'Drive' : source}</span>
+             <span>Connect {source === 'GoogleDrive' ? 'Drive' : (source && getTracker(source)?.name) || source}</span>
            </div>
            <button onClick={onClose} className="hover:bg-white/20 p-1 rounded transition">
              <X size={20} />
@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { IntegrationConfig, IntegrationSource } from '../types';
 import { useToast } from './ToastProvider';
-import { Layers, Slack, CreditCard, CheckCircle2, ArrowRight, Zap, Trash2, Users, Webhook, HardDrive, CalendarClock, Settings, Trello, Briefcase, Database } from 'lucide-react';
+import { Layers, Slack, CreditCard, CheckCircle2, ArrowRight, Zap, Trash2, Users, Webhook, HardDrive, CalendarClock, Settings, Trello, Briefcase, Database, FolderKanban, Github, Gitlab, Orbit, Infinity as InfinityIcon } from 'lucide-react';
 import { IntegrationModal } from './IntegrationModal';
 import { ScheduleModal } from './ScheduleModal';
 
@@ -52,9 +52,26 @@ export const IntegrationsHub: React.FC = () => {
           newConfig.webhookUrl = undefined;
       } else if (source === 'GoogleDrive') {
           newConfig.googleDriveToken = undefined;
+      } else if (source === 'Zoho') {
+          newConfig.zohoToken = undefined;
+          newConfig.zohoDC = undefined;
       } else if (source === 'ZohoSprints') {
           newConfig.zohoSprintsToken = undefined;
           newConfig.zohoSprintsDC = undefined;
+      } else if (source === 'GitHub') {
+          newConfig.githubToken = undefined;
+          newConfig.githubRepo = undefined;
+      } else if (source === 'GitLab') {
+          newConfig.gitlabToken = undefined;
+          newConfig.gitlabUrl = undefined;
+          newConfig.gitlabProject = undefined;
+      } else if (source === 'Linear') {
+          newConfig.linearApiKey = undefined;
+          newConfig.linearTeamId = undefined;
+      } else if (source === 'AzureDevOps') {
+          newConfig.azureDevOpsToken = undefined;
+          newConfig.azureDevOpsOrganization = undefined;
+          newConfig.azureDevOpsProject = undefined;
       }
       
       setConfig(newConfig);
@@ -72,7 +89,12 @@ export const IntegrationsHub: React.FC = () => {
           case 'Trello': return !!config.trelloApiKey && !!config.trelloToken;
           case 'Webhook': return !!config.webhookUrl;
           case 'GoogleDrive': return !!config.googleDriveToken;
+          case 'Zoho': return !!config.zohoToken && !!config.zohoDC;
           case 'ZohoSprints': return !!config.zohoSprintsToken && !!config.zohoSprintsDC;
+          case 'GitHub': return !!config.githubToken;
+          case 'GitLab': return !!config.gitlabToken;
+          case 'Linear': return !!config.linearApiKey;
+          case 'AzureDevOps': return !!config.azureDevOpsToken && !!config.azureDevOpsOrganization;
       }
   };
 
@@ -243,6 +265,36 @@ export const IntegrationsHub: React.FC = () => {
                 )}
             </div>
 
+            {/* Zoho Projects Card */}
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-teal-600 dark:hover:border-teal-600 transition-all group relative overflow-hidden">
+                {isConnected('Zoho') && (
+                    <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-3 py-1 rounded-bl-xl shadow-sm flex items-center gap-1">
+                        <CheckCircle2 size={12} /> CONNECTED
+                    </div>
+                )}
+                <div className="w-14 h-14 bg-teal-600/10 dark:bg-teal-600/20 text-teal-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                    <FolderKanban size={32} />
+                </div>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Zoho Projects</h3>
+                <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6 flex-1">Log bugs in your Zoho Projects portals.</p>
+                
+                {isConnected('Zoho') ? (
+                     <button 
+                        onClick={() => handleDisconnect('Zoho')}
+                        className="w-full py-2.5 rounded-lg font-bold text-sm transition-all flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800"
+                    >
+                        <Trash2 size={16} /> Disconnect
+                    </button>
+                ) : (
+                    <button 
+                         onClick={() => setActiveModal('Zoho')}
+                         className="w-full py-2.5 rounded-lg font-bold text-sm bg-teal-600 text-white hover:bg-teal-700 flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                    >
+                        Connect Projects <ArrowRight size={16} />
+                    </button>
+                )}
+            </div>
+
             {/* Zoho Sprints Card */}
             <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-teal-500 dark:hover:border-teal-500 transition-all group relative overflow-hidden">
                 {isConnected('ZohoSprints') && (
@@ -273,6 +325,126 @@ export const IntegrationsHub: React.FC = () => {
                 )}
             </div>
 
+            {/* GitHub Card */}
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-[#24292f] dark:hover:border-zinc-400 transition-all group relative overflow-hidden">
+                {isConnected('GitHub') && (
+                    <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-3 py-1 rounded-bl-xl shadow-sm flex items-center gap-1">
+                        <CheckCircle2 size={12} /> CONNECTED
+                    </div>
+                )}
+                <div className="w-14 h-14 bg-[#24292f]/10 dark:bg-white/10 text-[#24292f] dark:text-white rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                    <Github size={32} />
+                </div>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">GitHub</h3>
+                <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6 flex-1">Open issues with labels, assignees and screenshots in your repositories.</p>
+                
+                {isConnected('GitHub') ? (
+                     <button 
+                        onClick={() => handleDisconnect('GitHub')}
+                        className="w-full py-2.5 rounded-lg font-bold text-sm transition-all flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800"
+                    >
+                        <Trash2 size={16} /> Disconnect
+                    </button>
+                ) : (
+                    <button 
+                         onClick={() => setActiveModal('GitHub')}
+                         className="w-full py-2.5 rounded-lg font-bold text-sm bg-[#24292f] text-white hover:bg-[#32383f] flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                    >
+                        Connect GitHub <ArrowRight size={16} />
+                    </button>
+                )}
+            </div>
+
+            {/* GitLab Card */}
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-[#FC6D26] dark:hover:border-[#FC6D26] transition-all group relative overflow-hidden">
+                {isConnected('GitLab') && (
+                    <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-3 py-1 rounded-bl-xl shadow-sm flex items-center gap-1">
+                        <CheckCircle2 size={12} /> CONNECTED
+                    </div>
+                )}
+                <div className="w-14 h-14 bg-[#FC6D26]/10 dark:bg-[#FC6D26]/20 text-[#FC6D26] rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                    <Gitlab size={32} />
+                </div>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">GitLab</h3>
+                <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6 flex-1">Open issues on GitLab.com or a self-hosted instance, with screenshots embedded.</p>
+                
+                {isConnected('GitLab') ? (
+                     <button 
+                        onClick={() => handleDisconnect('GitLab')}
+                        className="w-full py-2.5 rounded-lg font-bold text-sm transition-all flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800"
+                    >
+                        <Trash2 size={16} /> Disconnect
+                    </button>
+                ) : (
+                    <button 
+                         onClick={() => setActiveModal('GitLab')}
+                         className="w-full py-2.5 rounded-lg font-bold text-sm bg-[#FC6D26] text-white hover:bg-[#E24329] flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                    >
+                        Connect GitLab <ArrowRight size={16} />
+                    </button>
+                )}
+            </div>
+
+            {/* Linear Card */}
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-[#5E6AD2] dark:hover:border-[#5E6AD2] transition-all group relative overflow-hidden">
+                {isConnected('Linear') && (
+                    <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-3 py-1 rounded-bl-xl shadow-sm flex items-center gap-1">
+                        <CheckCircle2 size={12} /> CONNECTED
+                    </div>
+                )}
+                <div className="w-14 h-14 bg-[#5E6AD2]/10 dark:bg-[#5E6AD2]/20 text-[#5E6AD2] rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                    <Orbit size={32} />
+                </div>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Linear</h3>
+                <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6 flex-1">Create issues in your teams' projects and cycles, with priority from the report.</p>
+                
+                {isConnected('Linear') ? (
+                     <button 
+                        onClick={() => handleDisconnect('Linear')}
+                        className="w-full py-2.5 rounded-lg font-bold text-sm transition-all flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800"
+                    >
+                        <Trash2 size={16} /> Disconnect
+                    </button>
+                ) : (
+                    <button 
+                         onClick={() => setActiveModal('Linear')}
+                         className="w-full py-2.5 rounded-lg font-bold text-sm bg-[#5E6AD2] text-white hover:bg-[#4C56C0] flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                    >
+                        Connect Linear <ArrowRight size={16} />
+                    </button>
+                )}
+            </div>
+
+            {/* Azure DevOps Card */}
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-[#0078D4] dark:hover:border-[#0078D4] transition-all group relative overflow-hidden">
+                {isConnected('AzureDevOps') && (
+                    <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-3 py-1 rounded-bl-xl shadow-sm flex items-center gap-1">
+                        <CheckCircle2 size={12} /> CONNECTED
+                    </div>
+                )}
+                <div className="w-14 h-14 bg-[#0078D4]/10 dark:bg-[#0078D4]/20 text-[#0078D4] rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                    <InfinityIcon size={32} />
+                </div>
+                <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Azure DevOps</h3>
+                <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6 flex-1">File Bug work items in Azure Boards with repro steps and screenshots attached.</p>
+                
+                {isConnected('AzureDevOps') ? (
+                     <button 
+                        onClick={() => handleDisconnect('AzureDevOps')}
+                        className="w-full py-2.5 rounded-lg font-bold text-sm transition-all flex items-center justify-center gap-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 border border-red-200 dark:border-red-800"
+                    >
+                        <Trash2 size={16} /> Disconnect
+                    </button>
+                ) : (
+                    <button 
+                         onClick={() => setActiveModal('AzureDevOps')}
+                         className="w-full py-2.5 rounded-lg font-bold text-sm bg-[#0078D4] text-white hover:bg-[#106EBE] flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
+                    >
+                        Connect Azure DevOps <ArrowRight size={16} />
+                    </button>
+                )}
+            </div>
+
             {/* Microsoft Teams Card */}
             <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-sm border border-slate-200 dark:border-[#272727] p-6 flex flex-col hover:border-[#5059C9] dark:hover:border-[#5059C9] transition-all group relative overflow-hidden">
                 {isConnected('Teams') && (
@@ -1,22 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
-import { JiraExportMode, Slide, JiraProject, JiraIssueType, IntegrationConfig } from '../types';
-import { CreditCard, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, Tag, ArrowRight } from 'lucide-react';
-import { getJiraProjects, getJiraIssueTypes } from '../services/jiraService';
+import { JiraExportMode, BugReportFields, JiraProject, JiraIssueType, IntegrationConfig, TrackerModalProps } from '../types';
+import { CreditCard, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, Tag, ArrowRight, ClipboardList } from 'lucide-react';
+import { getJiraProjects, getJiraIssueTypes, fetchJiraOpenIssues } from '../services/jiraService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
+import { DuplicateSuggestions } from './DuplicateSuggestions';
 
-interface JiraModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: JiraExportMode, projectId: string, issueTypeId: string, title: string, description: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
 
-export const JiraModal: React.FC<JiraModalProps> = ({
+export const JiraModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -24,7 +17,8 @@ export const JiraModal: React.FC<JiraModalProps> = ({
   slides,
   activeSlideId,
   error,
-  onConfigure
+  onConfigure,
+  onAttachToExisting
 }) => {
   const [mode, setMode] = useState<JiraExportMode>('current');
   const [projects, setProjects] = useState<JiraProject[]>([]);
@@ -39,6 +33,7 @@ export const JiraModal: React.FC<JiraModalProps> = ({
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
 
   const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
 
@@ -108,6 +103,8 @@ export const JiraModal: React.FC<JiraModalProps> = ({
       setIsGeneratingAI(true);
       try {
           const isSingle = mode === 'current';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
           const targetSlide = activeSlide; 
           
           const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
@@ -117,8 +114,8 @@ export const JiraModal: React.FC<JiraModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -321,6 +318,30 @@ export const JiraModal: React.FC<JiraModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Duplicates */}
+                    {onAttachToExisting && (
+                        <DuplicateSuggestions
+                            destinationKey={selectedProjectId}
+                            loadCandidates={() => {
+                                const config: IntegrationConfig = JSON.parse(localStorage.getItem('bugsnap_config') || '{}');
+                                return fetchJiraOpenIssues({ domain: config.jiraUrl!, email: config.jiraEmail!, token: config.jiraToken! }, selectedProjectId);
+                            }}
+                            title={title}
+                            description={description}
+                            onAttach={(issue) => onAttachToExisting(issue, title, description, mode === 'current')}
+                            attaching={loading}
+                        />
+                    )}
+
+                    {/* Classification */}
+                    <div>
+                        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                            <ClipboardList size={16} className="text-slate-400"/> Classification
+                        </label>
+                        <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                        <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Priority, labels and components are set on the issue.</p>
+                    </div>
+
                     {/* Export Mode Cards */}
                     <div className="flex-1">
                         <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
@@ -383,7 +404,7 @@ export const JiraModal: React.FC<JiraModalProps> = ({
           
           {!isCorsDemoError && (
              <button 
-               onClick={() => onExport(mode, selectedProjectId, selectedIssueTypeId, title, description)}
+               onClick={() => onExport({ mode, destinationId: selectedProjectId, issueTypeId: selectedIssueTypeId, title, description, fields: reportFields })}
                disabled={loading || !selectedProjectId || !selectedIssueTypeId || isGeneratingAI}
                className="px-8 py-2.5 bg-[#0052CC] hover:bg-[#0747A6] text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
              >
@@ -0,0 +1,483 @@
+
+import React, { useState, useEffect } from 'react';
+import { LinearExportMode, BugReportFields, LinearTeam, LinearProject, LinearCycle, LinearLabel, IntegrationConfig, TrackerModalProps } from '../types';
+import { Orbit, UploadCloud, AlertCircle, X, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Users, Briefcase, Tag, CalendarClock, ArrowRight, ClipboardList } from 'lucide-react';
+import { getLinearTeams, getLinearTeamOptions, fetchLinearOpenIssues } from '../services/linearService';
+import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
+import { DuplicateSuggestions } from './DuplicateSuggestions';
+
+/** IDs of team labels matching the report's labels, plus "Bug" when the team has it */
+const suggestLabels = (teamLabels: LinearLabel[], report: BugReportFields) => {
+  const wanted = new Set(['bug', ...report.labels].map(l => l.trim().toLowerCase()));
+  return teamLabels.filter(l => wanted.has(l.name.toLowerCase())).map(l => l.id);
+};
+
+export const LinearModal: React.FC<TrackerModalProps> = ({
+  isOpen,
+  onClose,
+  onExport,
+  loading,
+  slides,
+  activeSlideId,
+  error,
+  onConfigure,
+  onAttachToExisting
+}) => {
+  const [mode, setMode] = useState<LinearExportMode>('current');
+  const [teams, setTeams] = useState<LinearTeam[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState('');
+  const [projects, setProjects] = useState<LinearProject[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState('');
+  const [cycles, setCycles] = useState<LinearCycle[]>([]);
+  const [selectedCycleId, setSelectedCycleId] = useState('');
+  const [labels, setLabels] = useState<LinearLabel[]>([]);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
+
+  const [isLoadingMeta, setIsLoadingMeta] = useState(false);
+  const [isConfigured, setIsConfigured] = useState(true);
+
+  // Content State
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
+
+  const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
+
+  useEffect(() => {
+    if (isOpen) {
+        const globalConfig = localStorage.getItem('bugsnap_config');
+        if (globalConfig) {
+            const parsed: IntegrationConfig = JSON.parse(globalConfig);
+            if (!parsed.linearApiKey) {
+                setIsConfigured(false);
+            } else {
+                setIsConfigured(true);
+                fetchTeams(parsed);
+            }
+        } else {
+            setIsConfigured(false);
+        }
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && slides.length > 0) {
+        generateAIContent();
+    }
+  }, [isOpen, mode, activeSlideId]);
+
+  const fetchTeams = async (config: IntegrationConfig) => {
+      setIsLoadingMeta(true);
+      try {
+          const fetchedTeams = await getLinearTeams(config.linearApiKey!);
+          setTeams(fetchedTeams);
+          // Default to the team last exported to
+          const defaultTeam = fetchedTeams.find(t => t.id === config.linearTeamId) || fetchedTeams[0];
+          if (defaultTeam) {
+              setSelectedTeamId(defaultTeam.id);
+              await fetchTeamOptions(config.linearApiKey!, defaultTeam.id);
+          }
+      } catch (e) {
+          console.error("Failed to load Linear teams", e);
+      } finally {
+          setIsLoadingMeta(false);
+      }
+  };
+
+  const fetchTeamOptions = async (apiKey: string, teamId: string) => {
+      setSelectedProjectId('');
+      setSelectedCycleId('');
+      try {
+          const options = await getLinearTeamOptions(apiKey, teamId);
+          setProjects(options.projects);
+          setCycles(options.cycles);
+          setLabels(options.labels);
+          setSelectedLabels(suggestLabels(options.labels, reportFields));
+          // File into the running cycle unless the user picks another
+          const activeCycle = options.cycles.find(c => c.isActive);
+          if (activeCycle) setSelectedCycleId(activeCycle.id);
+      } catch (e) {
+          console.error("Failed to load Linear projects, cycles or labels", e);
+      }
+  };
+
+  const handleTeamChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const newTeamId = e.target.value;
+      setSelectedTeamId(newTeamId);
+
+      const globalConfig = localStorage.getItem('bugsnap_config');
+      if (globalConfig) {
+          const config: IntegrationConfig = JSON.parse(globalConfig);
+          if (config.linearApiKey) fetchTeamOptions(config.linearApiKey, newTeamId);
+      }
+  };
+
+  const toggleLabel = (id: string) =>
+      setSelectedLabels(prev => prev.includes(id) ? prev.filter(l => l !== id) : [...prev, id]);
+
+  const generateAIContent = async () => {
+      setIsGeneratingAI(true);
+      try {
+          const isSingle = mode === 'current';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
+          if (labels.length > 0) setSelectedLabels(suggestLabels(labels, report));
+          const targetSlide = activeSlide;
+
+          const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
+          const targetAnnotations = isSingle
+             ? targetSlide.annotations
+             : slides.flatMap(s => s.annotations);
+
+          const meta = await generateAIReportMetadata(slideName, targetAnnotations);
+
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
+      } catch (e) {
+          console.error("AI Generation failed", e);
+      } finally {
+          setIsGeneratingAI(false);
+      }
+  };
+
+  const handleExport = () => {
+      const globalConfig = localStorage.getItem('bugsnap_config');
+      if (globalConfig) {
+         const parsed = JSON.parse(globalConfig);
+         parsed.linearTeamId = selectedTeamId;
+         localStorage.setItem('bugsnap_config', JSON.stringify(parsed));
+      }
+
+      onExport({
+          mode,
+          destinationId: selectedTeamId,
+          title,
+          description,
+          fields: reportFields,
+          labels: selectedLabels,
+          extra: { projectId: selectedProjectId || undefined, cycleId: selectedCycleId || undefined }
+      });
+  };
+
+  if (!isOpen) return null;
+
+  if (!isConfigured) {
+      return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200 dark:border-[#272727] flex flex-col transition-colors">
+                <div className="p-6 text-center flex flex-col items-center">
+                    <div className="w-16 h-16 bg-[#5E6AD2]/10 dark:bg-white/10 text-[#5E6AD2] dark:text-white rounded-2xl flex items-center justify-center mb-4">
+                        <Orbit size={32} />
+                    </div>
+                    <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Connect Linear</h2>
+                    <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6">
+                        Connect your Linear workspace to create issues directly from bug reports.
+                    </p>
+                    <button
+                        onClick={onConfigure}
+                        className="w-full py-3 bg-[#5E6AD2] hover:bg-[#4C56C0] text-white font-bold rounded-xl shadow-md transition flex items-center justify-center gap-2"
+                    >
+                        Connect Now <ArrowRight size={18} />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="mt-4 text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 text-sm font-medium"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+      )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-5xl overflow-hidden border border-slate-200 dark:border-[#272727] flex flex-col max-h-[90vh] transition-colors">
+
+        {/* Header */}
+        <div className="bg-white dark:bg-[#1e1e1e] border-b border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-[#5E6AD2] rounded-xl flex items-center justify-center text-white shadow-lg shadow-[#5E6AD2]/20">
+               <Orbit size={22} />
+            </div>
+            <div>
+               <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Export to Linear</h2>
+               <p className="text-xs text-slate-500 dark:text-zinc-400">Create issues for your teams</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-[#272727] transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm animate-in slide-in-from-top-2">
+               <div className="flex flex-col gap-1 text-red-700 dark:text-red-400 break-words">
+                  <div className="flex items-start gap-2 font-bold">
+                      <AlertCircle size={16} className="mt-0.5 shrink-0" />
+                      <span>Export Failed</span>
+                  </div>
+                  <span className="pl-6 opacity-90">{error}</span>
+               </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 h-full">
+
+              {/* Left Column: AI Smart Details */}
+              <div className="flex flex-col h-full">
+                  <div className="flex items-center justify-between mb-4">
+                       <div className="flex items-center gap-2 text-[#5E6AD2] dark:text-zinc-200">
+                          <Sparkles size={18} />
+                          <span className="text-sm font-bold uppercase tracking-wide">Issue Details (AI)</span>
+                       </div>
+                       <button
+                          onClick={generateAIContent}
+                          disabled={isGeneratingAI}
+                          className="text-xs flex items-center gap-1.5 text-slate-500 dark:text-zinc-400 hover:text-[#5E6AD2] dark:hover:text-white font-medium transition-colors bg-slate-50 dark:bg-[#272727] px-2 py-1 rounded-md"
+                       >
+                          <RefreshCw size={12} className={isGeneratingAI ? "animate-spin" : ""} />
+                          Regenerate
+                       </button>
+                  </div>
+
+                  <div className="bg-slate-50 dark:bg-[#121212] p-1 rounded-2xl border border-slate-200 dark:border-[#3f3f3f] flex-1 flex flex-col">
+                      <div className="p-4 space-y-4 flex-1">
+                          <div>
+                              <label className="block text-xs font-bold text-slate-500 dark:text-zinc-500 mb-1.5 uppercase tracking-wider">Title</label>
+                              <div className="relative group">
+                                  <input
+                                      type="text"
+                                      value={title}
+                                      onChange={(e) => setTitle(e.target.value)}
+                                      className="w-full bg-white dark:bg-[#1e1e1e] border border-slate-200 dark:border-[#3f3f3f] text-slate-900 dark:text-white rounded-xl px-4 py-3 text-sm font-bold focus:ring-2 focus:ring-[#5E6AD2] dark:focus:ring-zinc-400 focus:border-transparent outline-none placeholder-slate-300 transition-all shadow-sm group-hover:border-slate-300 dark:group-hover:border-[#555]"
+                                      placeholder="Generating title..."
+                                      disabled={isGeneratingAI}
+                                  />
+                                  {isGeneratingAI && <div className="absolute right-3 top-3.5"><Loader2 size={16} className="animate-spin text-slate-500"/></div>}
+                              </div>
+                          </div>
+                          <div className="flex-1 flex flex-col">
+                              <label className="block text-xs font-bold text-slate-500 dark:text-zinc-500 mb-1.5 uppercase tracking-wider">Description</label>
+                              <div className="relative flex-1 group">
+                                  <textarea
+                                      value={description}
+                                      onChange={(e) => setDescription(e.target.value)}
+                                      className="w-full h-full min-h-[200px] bg-white dark:bg-[#1e1e1e] border border-slate-200 dark:border-[#3f3f3f] text-slate-800 dark:text-zinc-200 rounded-xl p-4 text-sm leading-relaxed focus:ring-2 focus:ring-[#5E6AD2] dark:focus:ring-zinc-400 focus:border-transparent outline-none placeholder-slate-300 transition-all shadow-sm resize-none group-hover:border-slate-300 dark:group-hover:border-[#555]"
+                                      placeholder="Generating description..."
+                                      disabled={isGeneratingAI}
+                                  />
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+              </div>
+
+              {/* Right Column: Settings & Destination */}
+              <div className="flex flex-col gap-6">
+
+                  {/* Team */}
+                  <div>
+                      <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                          <Users size={16} className="text-slate-400"/> Team
+                      </label>
+                      <div className="relative">
+                          <select
+                              className="w-full bg-white dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-xl shadow-sm focus:ring-2 focus:ring-[#5E6AD2] focus:border-transparent p-3.5 pl-4 pr-10 text-sm font-medium appearance-none text-slate-700 dark:text-zinc-200 outline-none transition-colors cursor-pointer hover:border-[#5E6AD2]"
+                              value={selectedTeamId}
+                              onChange={handleTeamChange}
+                              disabled={isLoadingMeta}
+                          >
+                              {teams.map(t => (
+                                  <option key={t.id} value={t.id}>{t.name} ({t.key})</option>
+                              ))}
+                              {teams.length === 0 && <option value="" disabled>{isLoadingMeta ? 'Loading Teams...' : 'No teams found'}</option>}
+                          </select>
+                          <div className="absolute right-4 top-4 text-slate-400 pointer-events-none flex items-center gap-2">
+                              {isLoadingMeta ? <Loader2 size={16} className="animate-spin text-slate-500" /> : <div className="border-l border-slate-200 dark:border-[#3f3f3f] pl-3 text-xs font-bold text-slate-300">▼</div>}
+                          </div>
+                      </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                      {/* Project */}
+                      <div>
+                          <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                              <Briefcase size={16} className="text-slate-400"/> Project
+                          </label>
+                          <div className="relative">
+                              <select
+                                  className="w-full bg-white dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-xl shadow-sm focus:ring-2 focus:ring-[#5E6AD2] focus:border-transparent p-3.5 pl-4 pr-10 text-sm font-medium appearance-none text-slate-700 dark:text-zinc-200 outline-none transition-colors cursor-pointer hover:border-[#5E6AD2]"
+                                  value={selectedProjectId}
+                                  onChange={(e) => setSelectedProjectId(e.target.value)}
+                                  disabled={!selectedTeamId}
+                              >
+                                  <option value="">No project</option>
+                                  {projects.map(p => (
+                                      <option key={p.id} value={p.id}>{p.name}</option>
+                                  ))}
+                              </select>
+                              <div className="absolute right-4 top-4 text-slate-400 pointer-events-none flex items-center gap-2">
+                                  <div className="border-l border-slate-200 dark:border-[#3f3f3f] pl-3 text-xs font-bold text-slate-300">▼</div>
+                              </div>
+                          </div>
+                      </div>
+
+                      {/* Cycle */}
+                      <div>
+                          <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                              <CalendarClock size={16} className="text-slate-400"/> Cycle
+                          </label>
+                          <div className="relative">
+                              <select
+                                  className="w-full bg-white dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] rounded-xl shadow-sm focus:ring-2 focus:ring-[#5E6AD2] focus:border-transparent p-3.5 pl-4 pr-10 text-sm font-medium appearance-none text-slate-700 dark:text-zinc-200 outline-none transition-colors cursor-pointer hover:border-[#5E6AD2]"
+                                  value={selectedCycleId}
+                                  onChange={(e) => setSelectedCycleId(e.target.value)}
+                                  disabled={!selectedTeamId}
+                              >
+                                  <option value="">No cycle</option>
+                                  {cycles.map(c => (
+                                      <option key={c.id} value={c.id}>{c.name}{c.isActive ? ' (current)' : ''}</option>
+                                  ))}
+                              </select>
+                              <div className="absolute right-4 top-4 text-slate-400 pointer-events-none flex items-center gap-2">
+                                  <div className="border-l border-slate-200 dark:border-[#3f3f3f] pl-3 text-xs font-bold text-slate-300">▼</div>
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+
+                  {/* Labels */}
+                  <div>
+                      <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                          <Tag size={16} className="text-slate-400"/> Labels
+                      </label>
+                      <div className="flex flex-wrap gap-1.5">
+                          {labels.map(l => {
+                              const selected = selectedLabels.includes(l.id);
+                              return (
+                                  <button
+                                      key={l.id}
+                                      onClick={() => toggleLabel(l.id)}
+                                      className={`px-2.5 py-1 rounded-full text-xs font-bold border transition flex items-center gap-1.5 ${selected ? 'border-[#5E6AD2] bg-[#5E6AD2]/10 text-slate-800 dark:text-white' : 'border-slate-200 dark:border-[#3f3f3f] text-slate-500 dark:text-zinc-400 hover:border-slate-300 dark:hover:border-[#555]'}`}
+                                  >
+                                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: l.color }} />
+                                      {l.name}
+                                  </button>
+                              );
+                          })}
+                          {labels.length === 0 && <span className="text-xs text-slate-400 dark:text-zinc-500">No labels for this team.</span>}
+                      </div>
+                  </div>
+
+                  {/* Duplicates */}
+                  {onAttachToExisting && (
+                      <DuplicateSuggestions
+                          destinationKey={selectedTeamId}
+                          loadCandidates={() => {
+                              const config: IntegrationConfig = JSON.parse(localStorage.getItem('bugsnap_config') || '{}');
+                              return fetchLinearOpenIssues(config.linearApiKey!, selectedTeamId);
+                          }}
+                          title={title}
+                          description={description}
+                          onAttach={(issue) => onAttachToExisting(issue, title, description, mode === 'current')}
+                          attaching={loading}
+                      />
+                  )}
+
+                  {/* Classification */}
+                  <div>
+                      <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                          <ClipboardList size={16} className="text-slate-400"/> Classification
+                      </label>
+                      <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                      <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Priority sets the Linear issue priority; severity stays in the description.</p>
+                  </div>
+
+                  {/* Export Mode Cards */}
+                  <div className="flex-1">
+                      <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
+                          <FileStack size={16} className="text-slate-400"/> Attachments
+                      </h3>
+                      <div className="grid grid-cols-1 gap-3">
+                          {/* Card 1: Current Slide */}
+                          <div
+                              onClick={() => setMode('current')}
+                              className={`cursor-pointer p-4 rounded-xl border-2 transition-all relative group ${mode === 'current' ? 'border-[#5E6AD2] dark:border-zinc-300 bg-slate-50 dark:bg-white/5 shadow-md' : 'border-slate-100 dark:border-[#272727] bg-white dark:bg-[#1e1e1e] hover:border-slate-300 dark:hover:border-[#444]'}`}
+                          >
+                              <div className="flex items-start gap-4">
+                                  <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 transition-colors ${mode === 'current' ? 'bg-[#5E6AD2] text-white' : 'bg-slate-100 dark:bg-[#272727] text-slate-400'}`}>
+                                      <ImageIcon size={18} />
+                                  </div>
+                                  <div>
+                                      <h4 className={`font-bold text-sm mb-1 ${mode === 'current' ? 'text-[#5E6AD2] dark:text-white' : 'text-slate-700 dark:text-zinc-200'}`}>Current Slide Only</h4>
+                                      <p className="text-xs text-slate-500 dark:text-zinc-400 leading-relaxed">
+                                          Open one issue with the active screenshot embedded.
+                                      </p>
+                                  </div>
+                                  {mode === 'current' && <div className="absolute top-4 right-4 text-[#5E6AD2] dark:text-white"><Check size={18} strokeWidth={3} /></div>}
+                              </div>
+                          </div>
+
+                          {/* Card 2: All Attachments */}
+                          <div
+                              onClick={() => setMode('all_attachments')}
+                              className={`cursor-pointer p-4 rounded-xl border-2 transition-all relative group ${mode === 'all_attachments' ? 'border-[#5E6AD2] dark:border-zinc-300 bg-slate-50 dark:bg-white/5 shadow-md' : 'border-slate-100 dark:border-[#272727] bg-white dark:bg-[#1e1e1e] hover:border-slate-300 dark:hover:border-[#444]'}`}
+                          >
+                              <div className="flex items-start gap-4">
+                                  <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 transition-colors ${mode === 'all_attachments' ? 'bg-[#5E6AD2] text-white' : 'bg-slate-100 dark:bg-[#272727] text-slate-400'}`}>
+                                      <FileStack size={18} />
+                                  </div>
+                                  <div>
+                                      <h4 className={`font-bold text-sm mb-1 ${mode === 'all_attachments' ? 'text-[#5E6AD2] dark:text-white' : 'text-slate-700 dark:text-zinc-200'}`}>All Slides (Attachments)</h4>
+                                      <p className="text-xs text-slate-500 dark:text-zinc-400 leading-relaxed">
+                                          Open one issue and embed all {slides.length} screenshots.
+                                      </p>
+                                  </div>
+                                  {mode === 'all_attachments' && <div className="absolute top-4 right-4 text-[#5E6AD2] dark:text-white"><Check size={18} strokeWidth={3} /></div>}
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+              </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-5 border-t border-slate-100 dark:border-[#272727] bg-slate-50 dark:bg-[#0f0f0f] flex justify-end gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            disabled={loading}
+            className="px-6 py-2.5 text-slate-600 dark:text-zinc-400 font-bold hover:bg-slate-200 dark:hover:bg-[#272727] rounded-xl transition text-sm"
+          >
+            Cancel
+          </button>
+
+          <button
+            onClick={handleExport}
+            disabled={loading || !selectedTeamId || isGeneratingAI}
+            className="px-8 py-2.5 bg-[#5E6AD2] hover:bg-[#4C56C0] text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
+          >
+            {loading ? (
+              <>
+                <Loader2 size={18} className="animate-spin" />
+                Creating Issue...
+              </>
+            ) : (
+              <>
+                <UploadCloud size={18} />
+                Export to Linear
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
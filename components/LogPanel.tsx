@@ -0,0 +1,183 @@
+
+import React, { useState, useRef } from 'react';
+import { SlideLogs } from '../types';
+import { LOG_CAPTURE_SNIPPET, parseLogImport, mergeLogs, summarizeLogs, isFailedRequest, hasLogs } from '../services/logService';
+import { useToast } from './ToastProvider';
+import { Terminal, ChevronDown, ChevronUp, Upload, ClipboardPaste, Copy, Trash2 } from 'lucide-react';
+
+interface LogPanelProps {
+  logs?: SlideLogs;
+  onChange: (logs: SlideLogs | undefined) => void;
+}
+
+type LogTab = 'console' | 'network';
+
+const LEVEL_STYLES: Record<string, string> = {
+  error: 'text-red-600 dark:text-red-400',
+  warn: 'text-amber-600 dark:text-amber-400',
+  info: 'text-blue-600 dark:text-blue-400',
+  debug: 'text-slate-400 dark:text-zinc-500',
+  log: 'text-slate-600 dark:text-zinc-300'
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour12: false });
+
+/** Collapsible sidebar section for importing and browsing a slide's console and network capture */
+export const LogPanel: React.FC<LogPanelProps> = ({ logs, onChange }) => {
+  const { addToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<LogTab>('console');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [isPasting, setIsPasting] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = logs ? summarizeLogs(logs) : null;
+  const problemCount = summary ? summary.errors + summary.failedRequests : 0;
+
+  const importText = (text: string) => {
+    try {
+      const incoming = parseLogImport(text);
+      if (!hasLogs(incoming)) {
+          addToast("No log entries found.", "info");
+          return false;
+      }
+      onChange(mergeLogs(logs, incoming));
+      addToast(`Imported ${incoming.console.length} console and ${incoming.network.length} network entries.`, "success");
+      if (incoming.network.length > 0 && incoming.console.length === 0) setTab('network');
+      return true;
+    } catch (e: any) {
+      addToast(e.message || "Could not import logs.", "error");
+      return false;
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importText(await file.text());
+  };
+
+  const handlePaste = () => {
+    if (importText(pasteText)) {
+        setPasteText('');
+        setIsPasting(false);
+    }
+  };
+
+  const handleCopySnippet = async () => {
+    try {
+        await navigator.clipboard.writeText(LOG_CAPTURE_SNIPPET);
+        addToast("Capture snippet copied. Paste it into the DevTools console of the page you're testing.", "success");
+    } catch (e) {
+        addToast("Could not access the clipboard.", "error");
+    }
+  };
+
+  const consoleEntries = (logs?.console || []).filter(entry => !errorsOnly || entry.level === 'error' || entry.level === 'warn');
+  const networkEntries = (logs?.network || []).filter(entry => !errorsOnly || isFailedRequest(entry));
+
+  const tabButton = (id: LogTab, label: string, count: number) => (
+    <button
+      onClick={() => setTab(id)}
+      className={`px-2 py-1 rounded-md text-xs font-bold transition-colors ${tab === id ? 'bg-slate-800 text-white dark:bg-zinc-200 dark:text-zinc-900' : 'text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-[#272727]'}`}
+    >
+      {label} <span className="opacity-70">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="border-t border-slate-200 dark:border-[#272727]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-sm font-bold text-slate-700 dark:text-zinc-200 hover:bg-slate-50 dark:hover:bg-[#121212] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Terminal size={16} /> Logs
+          {summary && (
+            <span className={`text-[10px] px-1.5 py-0.5 rounded-full ${problemCount > 0 ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' : 'bg-slate-100 text-slate-500 dark:bg-[#272727] dark:text-zinc-400'}`}>
+              {problemCount > 0 ? `${problemCount} problem${problemCount === 1 ? '' : 's'}` : `${logs!.console.length + logs!.network.length} entries`}
+            </span>
+          )}
+        </span>
+        {isOpen ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-2">
+          <div className="flex gap-1.5">
+            <button onClick={handleCopySnippet} className="flex-1 p-1.5 text-xs font-bold text-slate-700 dark:text-zinc-300 bg-slate-100 dark:bg-[#1e1e1e] hover:bg-slate-200 dark:hover:bg-[#272727] rounded-lg flex items-center justify-center gap-1.5" title="Copy a snippet that records console and network activity when run in the page's DevTools console">
+              <Copy size={12} /> Snippet
+            </button>
+            <button onClick={() => setIsPasting(!isPasting)} className="flex-1 p-1.5 text-xs font-bold text-slate-700 dark:text-zinc-300 bg-slate-100 dark:bg-[#1e1e1e] hover:bg-slate-200 dark:hover:bg-[#272727] rounded-lg flex items-center justify-center gap-1.5" title="Paste the output of copy(__bugsnapDump())">
+              <ClipboardPaste size={12} /> Paste
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 p-1.5 text-xs font-bold text-slate-700 dark:text-zinc-300 bg-slate-100 dark:bg-[#1e1e1e] hover:bg-slate-200 dark:hover:bg-[#272727] rounded-lg flex items-center justify-center gap-1.5" title="Import a HAR file exported from DevTools, or a saved console log">
+              <Upload size={12} /> Import
+            </button>
+            {logs && (
+              <button onClick={() => onChange(undefined)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg" title="Remove logs from this slide">
+                <Trash2 size={12} />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".har,.json,.log,.txt" className="hidden" onChange={handleFile} />
+          </div>
+
+          {isPasting && (
+            <div className="space-y-1.5">
+              <textarea
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder="Paste captured logs, HAR JSON or console text..."
+                className="w-full h-20 text-xs font-mono p-2 rounded-lg border border-slate-200 dark:border-[#3f3f3f] bg-slate-50 dark:bg-[#121212] text-slate-700 dark:text-zinc-200 outline-none focus:ring-1 focus:ring-blue-500 resize-none"
+              />
+              <button onClick={handlePaste} disabled={!pasteText.trim()} className="w-full p-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50">
+                Add to slide
+              </button>
+            </div>
+          )}
+
+          {logs ? (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  {tabButton('console', 'Console', logs.console.length)}
+                  {tabButton('network', 'Network', logs.network.length)}
+                </div>
+                <label className="flex items-center gap-1 text-[11px] text-slate-500 dark:text-zinc-400 cursor-pointer select-none">
+                  <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} className="rounded accent-red-600" />
+                  Problems only
+                </label>
+              </div>
+              {logs.pageUrl && <p className="text-[11px] text-slate-400 dark:text-zinc-500 truncate" title={logs.pageUrl}>{logs.pageUrl}</p>}
+              <div className="max-h-56 overflow-y-auto rounded-lg border border-slate-200 dark:border-[#3f3f3f] bg-slate-50 dark:bg-[#121212] font-mono text-[11px] divide-y divide-slate-200 dark:divide-[#272727]">
+                {tab === 'console' && consoleEntries.map((entry, i) => (
+                  <div key={i} className="px-2 py-1" title={entry.stack}>
+                    <span className="text-slate-400 dark:text-zinc-500 mr-1.5">{formatTime(entry.timestamp)}</span>
+                    <span className={`${LEVEL_STYLES[entry.level]} break-words`}>{entry.message}</span>
+                  </div>
+                ))}
+                {tab === 'network' && networkEntries.map((entry, i) => (
+                  <div key={i} className="px-2 py-1 flex gap-1.5" title={entry.error || entry.url}>
+                    <span className={`w-8 shrink-0 font-bold ${isFailedRequest(entry) ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>{entry.status || 'ERR'}</span>
+                    <span className="w-10 shrink-0 text-slate-500 dark:text-zinc-400">{entry.method}</span>
+                    <span className="flex-1 truncate text-slate-700 dark:text-zinc-200">{entry.url}</span>
+                    <span className="shrink-0 text-slate-400 dark:text-zinc-500">{Math.round(entry.duration)}ms</span>
+                  </div>
+                ))}
+                {(tab === 'console' ? consoleEntries : networkEntries).length === 0 && (
+                  <p className="px-2 py-3 text-center text-slate-400 dark:text-zinc-500 font-sans">Nothing to show</p>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-slate-500 dark:text-zinc-400">
+              Run the snippet in the tested page's DevTools console, reproduce the bug, then paste the result. Or import a HAR file. Logs are attached to every export.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
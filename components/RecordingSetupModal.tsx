@@ -0,0 +1,84 @@
+
+import React, { useState, useEffect } from 'react';
+import { IntegrationConfig } from '../types';
+import { RecordingAudioOptions } from '../services/audioService';
+import { Video, Mic, Volume2, X } from 'lucide-react';
+
+interface RecordingSetupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onStart: (options: RecordingAudioOptions) => void;
+}
+
+const loadSavedOptions = (): RecordingAudioOptions => {
+  const saved = localStorage.getItem('bugsnap_config');
+  const config: IntegrationConfig = saved ? JSON.parse(saved) : {};
+  return { microphone: !!config.recordMicrophone, systemAudio: config.recordSystemAudio !== false };
+};
+
+export const RecordingSetupModal: React.FC<RecordingSetupModalProps> = ({ isOpen, onClose, onStart }) => {
+  const [options, setOptions] = useState<RecordingAudioOptions>(loadSavedOptions);
+
+  useEffect(() => {
+    if (isOpen) setOptions(loadSavedOptions());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleStart = () => {
+    const saved = localStorage.getItem('bugsnap_config');
+    const current = saved ? JSON.parse(saved) : {};
+    localStorage.setItem('bugsnap_config', JSON.stringify({ ...current, recordMicrophone: options.microphone, recordSystemAudio: options.systemAudio }));
+    onStart(options);
+  };
+
+  const optionRow = (key: keyof RecordingAudioOptions, icon: React.ReactNode, title: string, hint: string) => (
+    <label className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition ${options[key] ? 'border-purple-400 bg-purple-50/50 dark:bg-purple-900/10' : 'border-slate-200 dark:border-[#3f3f3f] hover:border-slate-300 dark:hover:border-[#555]'}`}>
+      <input
+        type="checkbox"
+        checked={options[key]}
+        onChange={(e) => setOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+        className="mt-1 accent-purple-600"
+      />
+      <div className="flex-1">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-zinc-100">{icon} {title}</div>
+        <p className="text-xs text-slate-500 dark:text-zinc-400 mt-0.5">{hint}</p>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200 dark:border-[#272727] transition-colors">
+        <div className="border-b border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-purple-600/20">
+              <Video size={22} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Record Screen</h2>
+              <p className="text-xs text-slate-500 dark:text-zinc-400">Choose what to capture along with the video</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-[#272727] transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          {optionRow('microphone', <Mic size={16} className="text-purple-500" />, 'Microphone narration', 'Talk through the repro steps while you record. Can be transcribed into observations later.')}
+          {optionRow('systemAudio', <Volume2 size={16} className="text-purple-500" />, 'Tab / system audio', 'Include sound from the shared tab or screen. Tick "Share audio" in the browser picker.')}
+        </div>
+
+        <div className="border-t border-slate-100 dark:border-[#272727] p-5 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] rounded-lg transition">
+            Cancel
+          </button>
+          <button onClick={handleStart} className="px-5 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-bold rounded-lg shadow-md transition">
+            Start recording
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
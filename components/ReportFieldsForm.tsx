@@ -0,0 +1,151 @@
+
+import React, { useState, useEffect } from 'react';
+import { BugReportFields, BugSeverity, BugPriority } from '../types';
+import { SEVERITY_OPTIONS, PRIORITY_OPTIONS, EMPTY_REPORT_FIELDS, parseLabels, hasReportFields, getSeverityLabel } from '../services/reportFieldsService';
+import { ClipboardList, ChevronDown, ChevronUp, Sparkles, Loader2 } from 'lucide-react';
+
+interface ReportFieldsFormProps {
+  fields: BugReportFields;
+  onChange: (fields: BugReportFields) => void;
+  showDetails?: boolean; // Title and the free-text sections; modals carry those in their own title and description
+}
+
+const inputClass = "w-full px-2 py-1.5 text-xs rounded-lg border border-slate-200 dark:border-[#3f3f3f] bg-white dark:bg-[#121212] text-slate-800 dark:text-zinc-100 focus:ring-1 focus:ring-blue-500 outline-none placeholder-slate-400";
+const labelClass = "block text-[10px] font-bold text-slate-500 dark:text-zinc-500 mb-1 uppercase tracking-wider";
+
+export const ReportFieldsForm: React.FC<ReportFieldsFormProps> = ({ fields, onChange, showDetails = false }) => {
+  // Free text is kept locally so typing a trailing newline or comma isn't normalised away mid-edit
+  const [stepsText, setStepsText] = useState(fields.steps.join('\n'));
+  const [labelsText, setLabelsText] = useState(fields.labels.join(', '));
+
+  useEffect(() => {
+    setStepsText(current => current.split('\n').map(s => s.trim()).filter(Boolean).join('\n') === fields.steps.join('\n') ? current : fields.steps.join('\n'));
+    setLabelsText(current => parseLabels(current).join(',') === fields.labels.join(',') ? current : fields.labels.join(', '));
+  }, [fields.steps, fields.labels]);
+
+  const update = (patch: Partial<BugReportFields>) => onChange({ ...fields, ...patch });
+
+  return (
+    <div className="space-y-2">
+      {showDetails && (
+        <>
+          <div>
+            <label className={labelClass}>Title</label>
+            <input type="text" value={fields.title || ''} onChange={(e) => update({ title: e.target.value || undefined })} placeholder="Used as the export title" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Steps to reproduce</label>
+            <textarea
+              value={stepsText}
+              onChange={(e) => {
+                setStepsText(e.target.value);
+                update({ steps: e.target.value.split('\n').map(s => s.trim()).filter(Boolean) });
+              }}
+              rows={3}
+              placeholder={"One step per line\nOpen the checkout page\nClick Pay"}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Expected</label>
+              <textarea value={fields.expected} onChange={(e) => update({ expected: e.target.value })} rows={2} placeholder="What should happen" className={`${inputClass} resize-y`} />
+            </div>
+            <div>
+              <label className={labelClass}>Actual</label>
+              <textarea value={fields.actual} onChange={(e) => update({ actual: e.target.value })} rows={2} placeholder="What happens instead" className={`${inputClass} resize-y`} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Suspected area</label>
+            <input type="text" value={fields.suspectedArea || ''} onChange={(e) => update({ suspectedArea: e.target.value || undefined })} placeholder="e.g. Cart total recalculation after coupon" className={inputClass} />
+          </div>
+        </>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Severity</label>
+          <select value={fields.severity || ''} onChange={(e) => update({ severity: (e.target.value || undefined) as BugSeverity | undefined })} className={inputClass}>
+            <option value="">Not set</option>
+            {SEVERITY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Priority</label>
+          <select value={fields.priority || ''} onChange={(e) => update({ priority: (e.target.value || undefined) as BugPriority | undefined })} className={inputClass}>
+            <option value="">Not set</option>
+            {PRIORITY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Component</label>
+          <input type="text" value={fields.component || ''} onChange={(e) => update({ component: e.target.value || undefined })} placeholder="e.g. Checkout" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Labels</label>
+          <input
+            type="text"
+            value={labelsText}
+            onChange={(e) => {
+              setLabelsText(e.target.value);
+              update({ labels: parseLabels(e.target.value) });
+            }}
+            placeholder="ui, regression"
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ReportFieldsPanelProps {
+  fields?: BugReportFields;
+  onChange: (fields: BugReportFields | undefined) => void;
+  onDraft?: () => void; // Offers AI drafting of the free-text sections from the whole session
+  isDrafting?: boolean;
+}
+
+/** Collapsible sidebar section holding the slide's structured report */
+export const ReportFieldsPanel: React.FC<ReportFieldsPanelProps> = ({ fields, onChange, onDraft, isDrafting = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const filled = hasReportFields(fields);
+
+  return (
+    <div className="border-t border-slate-200 dark:border-[#272727]">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between text-sm font-bold text-slate-700 dark:text-zinc-200 hover:bg-slate-50 dark:hover:bg-[#121212] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <ClipboardList size={16} /> Report details
+          {fields?.severity && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">{getSeverityLabel(fields.severity)}</span>
+          )}
+        </span>
+        {isOpen ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4 max-h-[50vh] overflow-y-auto">
+          {onDraft && (
+            <button
+              onClick={onDraft}
+              disabled={isDrafting}
+              className="w-full mb-3 p-2 text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/40 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-xs font-bold"
+              title="Draft title, steps, expected/actual and suspected area from every slide with AI"
+            >
+              {isDrafting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              Draft from session
+            </button>
+          )}
+          <ReportFieldsForm fields={fields || EMPTY_REPORT_FIELDS} onChange={(next) => onChange(hasReportFields(next) ? next : undefined)} showDetails />
+          {!filled && (
+            <p className="text-xs text-slate-500 dark:text-zinc-400 mt-2">Filled fields prefill the export dialogs and map onto tracker priority, labels and components.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
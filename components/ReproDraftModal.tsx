@@ -0,0 +1,78 @@
+
+import React, { useState, useEffect } from 'react';
+import { BugReportFields } from '../types';
+import { ReportFieldsForm } from './ReportFieldsForm';
+import { Sparkles, Loader2, RotateCcw, X } from 'lucide-react';
+
+interface ReproDraftModalProps {
+  isOpen: boolean;
+  draft: BugReportFields | null; // Null while the draft is being generated
+  slideCount: number;
+  onClose: () => void;
+  onRegenerate: () => void;
+  onApply: (fields: BugReportFields) => void;
+}
+
+export const ReproDraftModal: React.FC<ReproDraftModalProps> = ({ isOpen, draft, slideCount, onClose, onRegenerate, onApply }) => {
+  const [fields, setFields] = useState<BugReportFields | null>(draft);
+
+  useEffect(() => {
+    setFields(draft);
+  }, [draft]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200 dark:border-[#272727] transition-colors flex flex-col max-h-[90vh]">
+        <div className="border-b border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-purple-600/20">
+              <Sparkles size={22} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Draft Repro Steps</h2>
+              <p className="text-xs text-slate-500 dark:text-zinc-400">From {slideCount} slide{slideCount === 1 ? '' : 's'} in capture order. Review before using it.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-[#272727] transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto">
+          {fields ? (
+            <ReportFieldsForm fields={fields} onChange={setFields} showDetails />
+          ) : (
+            <div className="py-12 flex flex-col items-center gap-3 text-sm text-slate-500 dark:text-zinc-400">
+              <Loader2 size={24} className="animate-spin text-purple-500" />
+              Reading the session...
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between gap-3">
+          <button
+            onClick={onRegenerate}
+            disabled={!fields}
+            className="px-3 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] rounded-lg transition flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={14} /> Regenerate
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] rounded-lg transition">
+              Cancel
+            </button>
+            <button
+              onClick={() => fields && onApply(fields)}
+              disabled={!fields}
+              className="px-5 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-bold rounded-lg shadow-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Use for export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
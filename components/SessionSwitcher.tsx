@@ -0,0 +1,228 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Session } from '../types';
+import {
+  FolderOpen,
+  ChevronDown,
+  Plus,
+  Pencil,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Check,
+  History,
+  FileArchive,
+  Upload,
+  ExternalLink
+} from 'lucide-react';
+
+interface SessionSwitcherProps {
+  sessions: Session[];
+  activeSessionId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void; // Download as a .bugsnap archive
+  onImport: () => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const SessionSwitcher: React.FC<SessionSwitcherProps> = ({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (isOpen && menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setRenamingId(null);
+      setPendingDeleteId(null);
+    }
+  }, [isOpen]);
+
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+  const openSessions = sessions.filter(s => !s.archived);
+  const archivedSessions = sessions.filter(s => s.archived);
+
+  const startRename = (session: Session) => {
+    setPendingDeleteId(null);
+    setRenamingId(session.id);
+    setRenameValue(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  const handleSelect = (session: Session) => {
+    onSelect(session.id);
+    setIsOpen(false);
+  };
+
+  const iconButton = "p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 dark:hover:text-zinc-200 dark:hover:bg-[#333] transition";
+
+  const renderRow = (session: Session) => {
+    const isActive = session.id === activeSessionId;
+
+    if (renamingId === session.id) {
+      return (
+        <div key={session.id} className="flex items-center gap-2 px-3 py-2">
+          <input
+            autoFocus
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setRenamingId(null);
+            }}
+            className="flex-1 text-sm bg-white dark:bg-[#121212] border border-blue-400 rounded-md px-2 py-1 outline-none text-slate-800 dark:text-zinc-100"
+          />
+          <button onClick={commitRename} className={iconButton} title="Save name"><Check size={14} /></button>
+        </div>
+      );
+    }
+
+    if (pendingDeleteId === session.id) {
+      return (
+        <div key={session.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-red-50 dark:bg-red-900/10">
+          <span className="text-xs text-red-700 dark:text-red-400 truncate">Delete "{session.name}" and its slides?</span>
+          <div className="flex gap-1 shrink-0">
+            <button onClick={() => setPendingDeleteId(null)} className="px-2 py-1 text-xs font-medium rounded-md text-slate-600 dark:text-zinc-300 hover:bg-white dark:hover:bg-[#272727]">Cancel</button>
+            <button onClick={() => { onDelete(session.id); setPendingDeleteId(null); }} className="px-2 py-1 text-xs font-bold rounded-md text-white bg-red-600 hover:bg-red-700">Delete</button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={session.id}
+        className={`group flex items-center gap-2 px-3 py-2 ${isActive ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-[#272727]'}`}
+      >
+        <button onClick={() => handleSelect(session)} className="flex-1 min-w-0 text-left">
+          <div className={`text-sm font-semibold truncate ${isActive ? 'text-blue-700 dark:text-blue-300' : 'text-slate-700 dark:text-zinc-200'}`}>{session.name}</div>
+          <div className="text-[11px] text-slate-400 dark:text-zinc-500">
+            {formatDate(session.updatedAt)}
+            {session.exportHistory.length > 0 && ` · ${session.exportHistory.length} export${session.exportHistory.length > 1 ? 's' : ''}`}
+          </div>
+        </button>
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => startRename(session)} className={iconButton} title="Rename"><Pencil size={14} /></button>
+          <button onClick={() => onDuplicate(session.id)} className={iconButton} title="Duplicate"><Copy size={14} /></button>
+          <button onClick={() => onExport(session.id)} className={iconButton} title="Export .bugsnap archive"><FileArchive size={14} /></button>
+          {session.archived ? (
+            <button onClick={() => onArchive(session.id, false)} className={iconButton} title="Restore"><ArchiveRestore size={14} /></button>
+          ) : (
+            <button onClick={() => onArchive(session.id, true)} className={iconButton} title="Archive"><Archive size={14} /></button>
+          )}
+          <button onClick={() => { setRenamingId(null); setPendingDeleteId(session.id); }} className={`${iconButton} hover:!text-red-500`} title="Delete"><Trash2 size={14} /></button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-[#3f3f3f] text-sm font-semibold text-slate-700 dark:text-zinc-200 hover:bg-slate-50 dark:hover:bg-[#272727] transition max-w-[220px]"
+        title="Switch session"
+      >
+        <FolderOpen size={16} className="text-slate-400 shrink-0" />
+        <span className="truncate">{activeSession?.name || 'No session'}</span>
+        <ChevronDown size={14} className="text-slate-400 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-white dark:bg-[#1e1e1e] rounded-xl shadow-xl border border-slate-200 dark:border-[#272727] overflow-hidden z-50">
+          <div className="px-3 pt-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 dark:text-zinc-500">Sessions</div>
+          <div className="max-h-72 overflow-y-auto">
+            {openSessions.map(renderRow)}
+            {openSessions.length === 0 && (
+              <p className="px-3 py-4 text-center text-xs text-slate-400 dark:text-zinc-500">No open sessions</p>
+            )}
+          </div>
+
+          {archivedSessions.length > 0 && (
+            <div className="border-t border-slate-100 dark:border-[#272727]">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="w-full flex items-center justify-between px-3 py-2 text-xs font-semibold text-slate-500 dark:text-zinc-400 hover:bg-slate-50 dark:hover:bg-[#272727]"
+              >
+                Archived ({archivedSessions.length})
+                <ChevronDown size={14} className={`transition-transform ${showArchived ? 'rotate-180' : ''}`} />
+              </button>
+              {showArchived && <div className="max-h-48 overflow-y-auto">{archivedSessions.map(renderRow)}</div>}
+            </div>
+          )}
+
+          {activeSession && activeSession.exportHistory.length > 0 && (
+            <div className="border-t border-slate-100 dark:border-[#272727] px-3 py-2">
+              <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-400 dark:text-zinc-500 mb-1">
+                <History size={12} /> Export history
+              </div>
+              <ul className="max-h-32 overflow-y-auto space-y-1">
+                {[...activeSession.exportHistory].reverse().map((entry, i) => (
+                  <li key={`${entry.exportedAt}-${i}`} className="flex items-center justify-between text-xs text-slate-600 dark:text-zinc-300">
+                    <span>{entry.platform} <span className="text-slate-400 dark:text-zinc-500">· {formatDate(entry.exportedAt)}</span></span>
+                    {entry.url && (
+                      <a href={entry.url} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1">
+                        Open <ExternalLink size={10} />
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex border-t border-slate-100 dark:border-[#272727]">
+            <button
+              onClick={() => { onCreate(); setIsOpen(false); }}
+              className="flex-1 flex items-center gap-2 px-3 py-2.5 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:bg-slate-50 dark:hover:bg-[#272727]"
+            >
+              <Plus size={16} /> New session
+            </button>
+            <button
+              onClick={() => { onImport(); setIsOpen(false); }}
+              className="flex items-center gap-2 px-3 py-2.5 text-sm font-semibold text-slate-600 dark:text-zinc-300 hover:bg-slate-50 dark:hover:bg-[#272727]"
+              title="Import a .bugsnap archive as a new session"
+            >
+              <Upload size={16} /> Import
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
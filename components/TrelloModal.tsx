@@ -1,22 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { TrelloExportMode, Slide, TrelloBoard, TrelloList, IntegrationConfig } from '../types';
+import { TrelloExportMode, TrelloBoard, TrelloList, IntegrationConfig, TrackerModalProps } from '../types';
 import { Trello, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight, List } from 'lucide-react';
 import { getTrelloBoards, getTrelloLists } from '../services/trelloService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle } from '../services/reportFieldsService';
 
-interface TrelloModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: TrelloExportMode, listId: string, title: string, description: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
 
-export const TrelloModal: React.FC<TrelloModalProps> = ({
+export const TrelloModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -116,8 +107,9 @@ export const TrelloModal: React.FC<TrelloModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -378,7 +370,7 @@ export const TrelloModal: React.FC<TrelloModalProps> = ({
           
           {!isCorsDemoError && (
              <button 
-               onClick={() => onExport(mode, selectedListId, title, description)}
+               onClick={() => onExport({ mode, destinationId: selectedListId, title, description })}
                disabled={loading || !selectedListId || isGeneratingAI}
                className="px-8 py-2.5 bg-[#0079BF] hover:bg-[#056dae] text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
              >
@@ -0,0 +1,283 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Slide } from '../types';
+import { X, Scissors, Crop, Loader2, RotateCcw } from 'lucide-react';
+import { CropRect, VideoEditOptions, estimateVideoSize, formatFileSize, transcodeVideo } from '../services/videoService';
+import { formatVideoTime } from '../services/mediaService';
+
+interface VideoEditModalProps {
+  isOpen: boolean;
+  slide: Slide;
+  onClose: () => void;
+  onApply: (video: Blob, options: VideoEditOptions) => Promise<void>;
+}
+
+const RESOLUTIONS: { label: string; maxHeight?: number }[] = [
+  { label: 'Original' },
+  { label: '1080p', maxHeight: 1080 },
+  { label: '720p', maxHeight: 720 },
+  { label: '480p', maxHeight: 480 }
+];
+
+const QUALITIES = [
+  { label: 'High (4 Mbps)', bitrate: 4_000_000 },
+  { label: 'Medium (2 Mbps)', bitrate: 2_000_000 },
+  { label: 'Low (1 Mbps)', bitrate: 1_000_000 },
+  { label: 'Tiny (500 kbps)', bitrate: 500_000 }
+];
+
+const MIN_CROP = 16; // Source pixels
+
+// Base64 carries 4 characters per 3 bytes
+const dataUrlSize = (src: string) => Math.round((src.length - src.indexOf(',') - 1) * 0.75);
+
+export const VideoEditModal: React.FC<VideoEditModalProps> = ({ isOpen, slide, onClose, onApply }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const isProbingRef = useRef(false);
+  const [duration, setDuration] = useState(0);
+  const [trimStart, setTrimStart] = useState(0);
+  const [trimEnd, setTrimEnd] = useState(0);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [cropDrag, setCropDrag] = useState<{ x: number; y: number } | null>(null);
+  const [resolution, setResolution] = useState(0);
+  const [quality, setQuality] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDuration(0);
+    setTrimStart(0);
+    setTrimEnd(0);
+    setCrop(null);
+    setProgress(null);
+    setError(null);
+  }, [isOpen, slide.id]);
+
+  if (!isOpen) return null;
+
+  const isEncoding = progress !== null;
+
+  const setKnownDuration = (value: number) => {
+    setDuration(value);
+    setTrimEnd(value);
+  };
+
+  // MediaRecorder WebM has no duration header; seeking to the end makes the browser compute it
+  const handleMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (Number.isFinite(video.duration)) {
+      setKnownDuration(video.duration);
+    } else {
+      isProbingRef.current = true;
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    }
+  };
+
+  const handleDurationChange = () => {
+    const video = videoRef.current;
+    if (!video || !isProbingRef.current || !Number.isFinite(video.duration)) return;
+    isProbingRef.current = false;
+    setKnownDuration(video.duration);
+    video.currentTime = 0;
+  };
+
+  const seek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  /** Map a pointer position on the preview to source video pixels */
+  const toSourcePoint = (e: React.MouseEvent) => {
+    const video = videoRef.current!;
+    const rect = video.getBoundingClientRect();
+    const scale = video.videoWidth / rect.width;
+    return {
+      x: Math.min(video.videoWidth, Math.max(0, (e.clientX - rect.left) * scale)),
+      y: Math.min(video.videoHeight, Math.max(0, (e.clientY - rect.top) * scale))
+    };
+  };
+
+  const handleCropStart = (e: React.MouseEvent) => {
+    if (isEncoding || e.button !== 0 || !videoRef.current?.videoWidth) return;
+    e.preventDefault();
+    const point = toSourcePoint(e);
+    setCropDrag(point);
+    setCrop({ ...point, width: 0, height: 0 });
+  };
+
+  const handleCropMove = (e: React.MouseEvent) => {
+    if (!cropDrag) return;
+    const point = toSourcePoint(e);
+    setCrop({
+      x: Math.min(cropDrag.x, point.x),
+      y: Math.min(cropDrag.y, point.y),
+      width: Math.abs(point.x - cropDrag.x),
+      height: Math.abs(point.y - cropDrag.y)
+    });
+  };
+
+  const handleCropEnd = () => {
+    if (!cropDrag) return;
+    setCropDrag(null);
+    if (crop && (crop.width < MIN_CROP || crop.height < MIN_CROP)) setCrop(null);
+  };
+
+  const options: VideoEditOptions = {
+    start: trimStart,
+    end: trimEnd,
+    crop: crop && !cropDrag ? { x: Math.round(crop.x), y: Math.round(crop.y), width: Math.round(crop.width), height: Math.round(crop.height) } : undefined,
+    maxHeight: RESOLUTIONS[resolution].maxHeight,
+    videoBitsPerSecond: QUALITIES[quality].bitrate
+  };
+
+  const handleApply = async () => {
+    setError(null);
+    setProgress(0);
+    videoRef.current?.pause();
+    try {
+      const blob = await transcodeVideo(slide.src, options, setProgress);
+      await onApply(blob, options);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Video processing failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const video = videoRef.current;
+  const previewScale = video && video.videoWidth ? video.clientWidth / video.videoWidth : 0;
+  const labelClass = "block text-xs font-bold text-slate-500 dark:text-zinc-500 mb-1.5 uppercase tracking-wider";
+  const selectClass = "w-full bg-white dark:bg-[#121212] border border-slate-200 dark:border-[#3f3f3f] text-slate-800 dark:text-zinc-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-4xl overflow-hidden border border-slate-200 dark:border-[#272727] flex flex-col max-h-[90vh] transition-colors">
+        <div className="border-b border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-blue-600/20">
+              <Scissors size={22} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Trim &amp; Compress</h2>
+              <p className="text-xs text-slate-500 dark:text-zinc-400">Cut dead air, crop and shrink the recording for tracker uploads</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isEncoding} className="text-slate-400 hover:text-slate-600 dark:hover:text-zinc-300 p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-[#272727] transition disabled:opacity-50">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm text-red-700 dark:text-red-400">{error}</div>
+          )}
+
+          <div className="flex justify-center">
+            <div
+              className="relative inline-block bg-black rounded-lg overflow-hidden cursor-crosshair select-none"
+              onMouseDown={handleCropStart}
+              onMouseMove={handleCropMove}
+              onMouseUp={handleCropEnd}
+              onMouseLeave={handleCropEnd}
+            >
+              <video
+                ref={videoRef}
+                src={slide.src}
+                className="max-h-[45vh] block pointer-events-none"
+                onLoadedMetadata={handleMetadata}
+                onDurationChange={handleDurationChange}
+                muted
+              />
+              {crop && previewScale > 0 && (
+                <div
+                  className="absolute border-2 border-dashed border-blue-400 pointer-events-none"
+                  style={{
+                    left: crop.x * previewScale,
+                    top: crop.y * previewScale,
+                    width: crop.width * previewScale,
+                    height: crop.height * previewScale,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+                  }}
+                />
+              )}
+            </div>
+          </div>
+          <p className="text-center text-xs text-slate-400 dark:text-zinc-500 flex items-center justify-center gap-1.5">
+            <Crop size={12} /> Drag on the video to crop.
+            {crop && !cropDrag && (
+              <button onClick={() => setCrop(null)} className="ml-2 inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline">
+                <RotateCcw size={12} /> Reset crop
+              </button>
+            )}
+          </p>
+
+          <div>
+            <label className={labelClass}>Trim</label>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className="flex justify-between text-xs text-slate-600 dark:text-zinc-300 mb-1">
+                  <span>In</span><span className="tabular-nums">{formatVideoTime(trimStart)}</span>
+                </div>
+                <input
+                  type="range" min={0} max={duration} step={0.1} value={trimStart} disabled={!duration || isEncoding}
+                  onChange={(e) => { const t = Math.min(Number(e.target.value), trimEnd - 0.5); setTrimStart(Math.max(0, t)); seek(Math.max(0, t)); }}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div>
+                <div className="flex justify-between text-xs text-slate-600 dark:text-zinc-300 mb-1">
+                  <span>Out</span><span className="tabular-nums">{formatVideoTime(trimEnd)}</span>
+                </div>
+                <input
+                  type="range" min={0} max={duration} step={0.1} value={trimEnd} disabled={!duration || isEncoding}
+                  onChange={(e) => { const t = Math.max(Number(e.target.value), trimStart + 0.5); setTrimEnd(Math.min(duration, t)); seek(Math.min(duration, t)); }}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Resolution</label>
+              <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} disabled={isEncoding} className={selectClass}>
+                {RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Quality</label>
+              <select value={quality} onChange={(e) => setQuality(Number(e.target.value))} disabled={isEncoding} className={selectClass}>
+                {QUALITIES.map((q, i) => <option key={q.label} value={i}>{q.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500 dark:text-zinc-400">
+            Current size {formatFileSize(dataUrlSize(slide.src))} · estimated after processing ~{formatFileSize(estimateVideoSize(options))}.
+            Observations outside the kept segment or crop are removed.
+          </p>
+        </div>
+
+        <div className="border-t border-slate-100 dark:border-[#272727] p-5 flex items-center justify-end gap-3 shrink-0">
+          {isEncoding && (
+            <div className="flex-1 h-2 bg-slate-100 dark:bg-[#272727] rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(progress! * 100)}%` }} />
+            </div>
+          )}
+          <button onClick={onClose} disabled={isEncoding} className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] rounded-lg transition disabled:opacity-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isEncoding || !duration || trimEnd <= trimStart}
+            className="px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-md transition disabled:opacity-50 flex items-center gap-2"
+          >
+            {isEncoding ? <><Loader2 size={16} className="animate-spin" /> Processing {Math.round(progress! * 100)}%</> : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Annotation } from '../types';
+import { getAnnotationTimeRange, isRedaction } from '../services/annotationService';
+import { formatVideoTime } from '../services/mediaService';
+import { Play, Pause, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// Browsers don't expose a video's frame rate, so frame steps assume 30fps
+export const FRAME_DURATION = 1 / 30;
+const MIN_RANGE = 0.1;
+const LANE_HEIGHT = 20;
+
+interface VideoTimelineProps {
+  duration: number;
+  currentTime: number;
+  isPlaying: boolean;
+  annotations: Annotation[];
+  numberedAnnotations: Annotation[];
+  selectedAnnotationId: number | null;
+  onSeek: (time: number) => void;
+  onTogglePlay: () => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onSelectAnnotation: (id: number) => void;
+  onChangeRange: (id: number, start: number, end: number) => void;
+}
+
+interface DragState {
+  id: number;
+  mode: 'move' | 'start' | 'end';
+  originX: number;
+  originStart: number;
+  originEnd: number;
+}
+
+/** Stack overlapping segments into lanes so each stays clickable */
+const assignLanes = (items: { id: number; start: number; end: number }[]) => {
+  const laneEnds: number[] = [];
+  const lanes = new Map<number, number>();
+  [...items].sort((a, b) => a.start - b.start).forEach(item => {
+    let lane = laneEnds.findIndex(end => end <= item.start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = item.end;
+    lanes.set(item.id, lane);
+  });
+  return { lanes, count: Math.max(1, laneEnds.length) };
+};
+
+export const VideoTimeline: React.FC<VideoTimelineProps> = ({
+  duration,
+  currentTime,
+  isPlaying,
+  annotations,
+  numberedAnnotations,
+  selectedAnnotationId,
+  onSeek,
+  onTogglePlay,
+  onStepFrame,
+  onSelectAnnotation,
+  onChangeRange
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<{ id: number; start: number; end: number } | null>(null);
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  const timeAtClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  // Window listeners so the drag keeps tracking outside the strip
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: MouseEvent) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return;
+      const delta = ((e.clientX - drag.originX) / rect.width) * duration;
+      let start = drag.originStart;
+      let end = drag.originEnd;
+      if (drag.mode === 'move') {
+        const length = end - start;
+        start = Math.min(Math.max(0, start + delta), duration - length);
+        end = start + length;
+      } else if (drag.mode === 'start') {
+        start = Math.min(Math.max(0, start + delta), end - MIN_RANGE);
+      } else {
+        end = Math.max(Math.min(duration, end + delta), start + MIN_RANGE);
+      }
+      setDraft({ id: drag.id, start, end });
+      onSeek(drag.mode === 'end' ? end : start);
+    };
+    const handleUp = () => {
+      const final = draftRef.current;
+      if (final) onChangeRange(final.id, final.start, final.end);
+      setDrag(null);
+      setDraft(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, duration, onSeek, onChangeRange]);
+
+  const segments = annotations
+    .map(ann => {
+      const range = draft && draft.id === ann.id ? draft : getAnnotationTimeRange(ann);
+      return range ? { ann, id: ann.id, start: range.start, end: Math.min(range.end, duration || range.end) } : null;
+    })
+    .filter((s): s is { ann: Annotation; id: number; start: number; end: number } => s !== null);
+  const { lanes, count } = assignLanes(segments);
+
+  const startDrag = (e: React.MouseEvent, ann: Annotation, mode: DragState['mode'], start: number, end: number) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onSelectAnnotation(ann.id);
+    if (mode === 'move') onSeek(start);
+    setDrag({ id: ann.id, mode, originX: e.clientX, originStart: start, originEnd: end });
+  };
+
+  const percent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+  const controlButton = "p-1.5 rounded text-slate-600 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-[#272727] transition-colors";
+
+  return (
+    <div className="w-full bg-white dark:bg-[#1e1e1e] border-t border-slate-200 dark:border-[#272727] px-4 py-2 select-none">
+      <div className="flex items-center gap-1 mb-2">
+        <button onClick={() => onStepFrame(-1)} className={controlButton} title="Previous frame (,)"><ChevronLeft size={16} /></button>
+        <button onClick={onTogglePlay} className={controlButton} title={isPlaying ? 'Pause (K)' : 'Play (K)'}>
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <button onClick={() => onStepFrame(1)} className={controlButton} title="Next frame (.)"><ChevronRight size={16} /></button>
+        <span className="ml-2 text-xs font-medium tabular-nums text-slate-600 dark:text-zinc-300">
+          {formatVideoTime(currentTime)} <span className="text-slate-400 dark:text-zinc-500">/ {formatVideoTime(duration)}</span>
+        </span>
+        {segments.length > 0 && (
+          <span className="ml-auto text-[11px] text-slate-400 dark:text-zinc-500">Drag a segment to move it, or its edges to change when it shows</span>
+        )}
+      </div>
+      <div
+        ref={trackRef}
+        className="relative rounded-md bg-slate-100 dark:bg-[#121212] cursor-pointer overflow-hidden"
+        style={{ height: count * LANE_HEIGHT + 8 }}
+        onMouseDown={(e) => { if (e.button === 0) onSeek(timeAtClientX(e.clientX)); }}
+      >
+        {segments.map(({ ann, start, end }) => {
+          const isSelected = ann.id === selectedAnnotationId;
+          const index = numberedAnnotations.indexOf(ann);
+          const color = isRedaction(ann) ? '#475569' : ann.color;
+          return (
+            <div
+              key={ann.id}
+              className={`absolute rounded flex items-center overflow-hidden text-[10px] font-bold text-white cursor-grab ${isSelected ? 'ring-2 ring-blue-500 ring-offset-1 dark:ring-offset-[#121212] z-10' : 'opacity-80 hover:opacity-100'}`}
+              style={{
+                left: `${percent(start)}%`,
+                width: `max(${percent(end - start)}%, 6px)`,
+                top: 4 + (lanes.get(ann.id) || 0) * LANE_HEIGHT,
+                height: LANE_HEIGHT - 4,
+                backgroundColor: color
+              }}
+              onMouseDown={(e) => startDrag(e, ann, 'move', start, end)}
+              title={`${index >= 0 ? `#${index + 1} ` : 'Redaction '}${formatVideoTime(start)} – ${formatVideoTime(end)}`}
+            >
+              <div className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-black/20" onMouseDown={(e) => startDrag(e, ann, 'start', start, end)} />
+              <span className="px-2 truncate">{index >= 0 ? index + 1 : ''}</span>
+              <div className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-black/20" onMouseDown={(e) => startDrag(e, ann, 'end', start, end)} />
+            </div>
+          );
+        })}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-blue-500 pointer-events-none z-20" style={{ left: `${percent(currentTime)}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { WebhookExportMode, Slide, IntegrationConfig } from '../types';
 import { Webhook, UploadCloud, AlertCircle, X, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, ArrowRight } from 'lucide-react';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle } from '../services/reportFieldsService';
 
 interface WebhookModalProps {
   isOpen: boolean;
@@ -70,8 +71,9 @@ export const WebhookModal: React.FC<WebhookModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -1,22 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { ZohoExportMode, Slide, ZohoPortal, ZohoProject, IntegrationConfig } from '../types';
-import { Database, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight } from 'lucide-react';
+import { ZohoExportMode, BugReportFields, ZohoPortal, ZohoProject, IntegrationConfig, TrackerModalProps } from '../types';
+import { FolderKanban, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight, ClipboardList } from 'lucide-react';
 import { getZohoPortals, getZohoProjects } from '../services/zohoService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
 
-interface ZohoModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: ZohoExportMode, portalId: string, projectId: string, title: string, description: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
-
-export const ZohoModal: React.FC<ZohoModalProps> = ({
+export const ZohoModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -38,6 +29,7 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
   // Content State
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
 
   const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
@@ -107,6 +99,8 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
       setIsGeneratingAI(true);
       try {
           const isSingle = mode === 'current';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
           const targetSlide = activeSlide; 
           
           const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
@@ -116,8 +110,8 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -133,7 +127,7 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
             <div className="bg-white dark:bg-[#1e1e1e] rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200 dark:border-[#272727] flex flex-col transition-colors">
                 <div className="p-6 text-center flex flex-col items-center">
                     <div className="w-16 h-16 bg-teal-600/10 dark:bg-teal-600/20 text-teal-600 rounded-2xl flex items-center justify-center mb-4">
-                        <Database size={32} />
+                        <FolderKanban size={32} />
                     </div>
                     <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Connect Zoho Projects</h2>
                     <p className="text-slate-500 dark:text-zinc-400 text-sm mb-6">
@@ -167,7 +161,7 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
         <div className="bg-white dark:bg-[#1e1e1e] border-b border-slate-100 dark:border-[#272727] p-5 flex items-center justify-between shrink-0">
           <div className="flex items-center gap-3">
             <div className="w-10 h-10 bg-teal-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-teal-600/20">
-               <Database size={22} />
+               <FolderKanban size={22} />
             </div>
             <div>
                <h2 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Export to Zoho Projects</h2>
@@ -316,6 +310,15 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Classification */}
+                    <div>
+                        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                            <ClipboardList size={16} className="text-slate-400"/> Classification
+                        </label>
+                        <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                        <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Sets the bug's severity from Severity.</p>
+                    </div>
+
                     {/* Export Mode Cards */}
                     <div className="flex-1">
                         <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
@@ -378,7 +381,7 @@ export const ZohoModal: React.FC<ZohoModalProps> = ({
           
           {!isCorsDemoError && (
              <button 
-               onClick={() => onExport(mode, selectedPortalId, selectedProjectId, title, description)}
+               onClick={() => onExport({ mode, destinationId: selectedProjectId, containerId: selectedPortalId, title, description, fields: reportFields })}
                disabled={loading || !selectedPortalId || !selectedProjectId || isGeneratingAI}
                className="px-8 py-2.5 bg-teal-600 hover:bg-teal-700 text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
              >
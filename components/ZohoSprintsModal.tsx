@@ -1,22 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { ZohoSprintsExportMode, Slide, ZohoSprintsTeam, ZohoSprintsProject, ZohoSprintsItemType, IntegrationConfig } from '../types';
-import { Database, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight, Tag } from 'lucide-react';
+import { ZohoSprintsExportMode, BugReportFields, ZohoSprintsTeam, ZohoSprintsProject, ZohoSprintsItemType, IntegrationConfig, TrackerModalProps } from '../types';
+import { Database, UploadCloud, AlertCircle, X, ExternalLink, RefreshCw, Loader2, Sparkles, Check, FileStack, Image as ImageIcon, Briefcase, ArrowRight, Tag, ClipboardList } from 'lucide-react';
 import { getZohoSprintsTeams, getZohoSprintsProjects, getZohoSprintsItemTypes } from '../services/zohoSprintsService';
 import { generateAIReportMetadata } from '../services/geminiService';
+import { getExportReportFields, prefillDescription, prefillTitle, EMPTY_REPORT_FIELDS } from '../services/reportFieldsService';
+import { ReportFieldsForm } from './ReportFieldsForm';
 
-interface ZohoSprintsModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onExport: (mode: ZohoSprintsExportMode, teamId: string, projectId: string, itemTypeId: string, title: string, description: string) => void;
-  loading: boolean;
-  slides: Slide[];
-  activeSlideId: string;
-  error?: string | null;
-  onConfigure?: () => void;
-}
 
-export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
+export const ZohoSprintsModal: React.FC<TrackerModalProps> = ({
   isOpen,
   onClose,
   onExport,
@@ -39,6 +31,7 @@ export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
   
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [reportFields, setReportFields] = useState<BugReportFields>(EMPTY_REPORT_FIELDS);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
 
   const activeSlide = slides.find(s => s.id === activeSlideId) || slides[0];
@@ -134,6 +127,8 @@ export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
       setIsGeneratingAI(true);
       try {
           const isSingle = mode === 'current';
+          const report = getExportReportFields(slides, activeSlideId, isSingle);
+          setReportFields(report);
           const targetSlide = activeSlide; 
           
           const slideName = isSingle ? targetSlide.name : `Bug Report Batch (${slides.length} slides)`;
@@ -143,8 +138,8 @@ export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
           
           const meta = await generateAIReportMetadata(slideName, targetAnnotations);
           
-          setTitle(meta.title);
-          setDescription(meta.description);
+          setTitle(prefillTitle(meta.title, report));
+          setDescription(prefillDescription(meta.description, report));
       } catch (e) {
           console.error("AI Generation failed", e);
       } finally {
@@ -366,6 +361,15 @@ export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
                         </div>
                     </div>
 
+                    {/* Classification */}
+                    <div>
+                        <label className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2 mb-2">
+                            <ClipboardList size={16} className="text-slate-400"/> Classification
+                        </label>
+                        <ReportFieldsForm fields={reportFields} onChange={setReportFields} />
+                        <p className="text-[11px] text-slate-400 dark:text-zinc-500 mt-1.5">Sets the item's priority from Priority, or from Severity when no priority is chosen.</p>
+                    </div>
+
                     {/* Export Mode Cards */}
                     <div className="flex-1">
                         <h3 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-3 flex items-center gap-2">
@@ -428,7 +432,7 @@ export const ZohoSprintsModal: React.FC<ZohoSprintsModalProps> = ({
           
           {!isCorsDemoError && (
              <button 
-               onClick={() => onExport(mode, selectedTeamId, selectedProjectId, selectedItemTypeId, title, description)}
+               onClick={() => onExport({ mode, destinationId: selectedProjectId, containerId: selectedTeamId, issueTypeId: selectedItemTypeId, title, description, fields: reportFields })}
                disabled={loading || !selectedTeamId || !selectedProjectId || !selectedItemTypeId || isGeneratingAI}
                className="px-8 py-2.5 bg-teal-500 hover:bg-teal-600 text-white font-bold rounded-xl shadow-md hover:shadow-lg transition flex items-center gap-2 text-sm disabled:opacity-70 disabled:cursor-not-allowed transform active:scale-95"
              >
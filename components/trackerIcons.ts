@@ -0,0 +1,17 @@
+import type { LucideIcon } from 'lucide-react';
+import { Layers, CreditCard, CheckCircle2, Trello, FolderKanban, Database, Github, Gitlab, Orbit, Infinity as InfinityIcon } from 'lucide-react';
+import { IntegrationSource } from '../types';
+
+/** Icon for each tracker in the registry, shown in the Editor's export menu and the Dashboard's source picker */
+export const TRACKER_ICONS: Partial<Record<IntegrationSource, LucideIcon>> = {
+  ClickUp: Layers,
+  Jira: CreditCard,
+  Asana: CheckCircle2,
+  Trello: Trello,
+  Zoho: FolderKanban,
+  ZohoSprints: Database,
+  GitHub: Github,
+  GitLab: Gitlab,
+  Linear: Orbit,
+  AzureDevOps: InfinityIcon
+};
@@ -0,0 +1,27 @@
+
+import React from 'react';
+import { IntegrationSource, TrackerModalProps } from '../types';
+import { ClickUpModal } from './ClickUpModal';
+import { JiraModal } from './JiraModal';
+import { AsanaModal } from './AsanaModal';
+import { TrelloModal } from './TrelloModal';
+import { ZohoModal } from './ZohoModal';
+import { ZohoSprintsModal } from './ZohoSprintsModal';
+import { GitHubModal } from './GitHubModal';
+import { GitLabModal } from './GitLabModal';
+import { LinearModal } from './LinearModal';
+import { AzureDevOpsModal } from './AzureDevOpsModal';
+
+/** Export modal for each tracker in the registry (services/trackerService) */
+export const TRACKER_MODALS: Partial<Record<IntegrationSource, React.FC<TrackerModalProps>>> = {
+  ClickUp: ClickUpModal,
+  Jira: JiraModal,
+  Asana: AsanaModal,
+  Trello: TrelloModal,
+  Zoho: ZohoModal,
+  ZohoSprints: ZohoSprintsModal,
+  GitHub: GitHubModal,
+  GitLab: GitLabModal,
+  Linear: LinearModal,
+  AzureDevOps: AzureDevOpsModal
+};
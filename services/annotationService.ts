@@ -0,0 +1,302 @@
+
+import { Annotation, Point, ToolType } from '../types';
+
+export type ResizeHandle = 'tl' | 'tr' | 'bl' | 'br' | 'start' | 'end';
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const HIT_TOLERANCE = 8;
+const HANDLE_SIZE = 10;
+const PIXEL_BLOCK = 12;
+
+export const hexToRgba = (hex: string, alpha: number) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/** Arrows and lines are defined by their two endpoints rather than a box */
+export const isLinearAnnotation = (ann: Annotation) =>
+  ann.type === ToolType.ARROW || ann.type === ToolType.LINE;
+
+export const isRedaction = (ann: Annotation) => ann.type === ToolType.REDACT;
+
+/** Annotations that carry a comment and a numbered badge (everything except redactions) */
+export const getNumberedAnnotations = (annotations: Annotation[]) =>
+  annotations.filter(a => !isRedaction(a));
+
+// Older video annotations only mark a moment; they show this long either side of it
+const MOMENT_WINDOW = 0.5;
+
+/** The time span a video annotation is shown for, or null for annotations not tied to a time */
+export const getAnnotationTimeRange = (ann: Annotation): { start: number; end: number } | null => {
+  if (ann.timestamp === undefined) return null;
+  if (ann.endTimestamp === undefined) {
+    return { start: Math.max(0, ann.timestamp - MOMENT_WINDOW), end: ann.timestamp + MOMENT_WINDOW };
+  }
+  return { start: ann.timestamp, end: ann.endTimestamp };
+};
+
+export const isAnnotationVisibleAt = (ann: Annotation, time: number): boolean => {
+  const range = getAnnotationTimeRange(ann);
+  return !range || (time >= range.start && time <= range.end);
+};
+
+export const getAnnotationBounds = (ann: Annotation): Bounds => {
+  if (ann.type === ToolType.FREEHAND && ann.points && ann.points.length > 0) {
+    const xs = ann.points.map(p => p.x);
+    const ys = ann.points.map(p => p.y);
+    return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  }
+  return {
+    minX: Math.min(ann.start.x, ann.end.x),
+    minY: Math.min(ann.start.y, ann.end.y),
+    maxX: Math.max(ann.start.x, ann.end.x),
+    maxY: Math.max(ann.start.y, ann.end.y)
+  };
+};
+
+/** Where the numbered badge is anchored: the tail of a line, the first pen point, or the top-left corner */
+export const getBadgePosition = (ann: Annotation): Point => {
+  if (isLinearAnnotation(ann)) return ann.start;
+  if (ann.type === ToolType.FREEHAND && ann.points && ann.points.length > 0) return ann.points[0];
+  const b = getAnnotationBounds(ann);
+  return { x: b.minX, y: b.minY };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+export const isPointInAnnotation = (point: Point, ann: Annotation): boolean => {
+  if (isLinearAnnotation(ann)) {
+    return distanceToSegment(point, ann.start, ann.end) <= HIT_TOLERANCE;
+  }
+
+  if (ann.type === ToolType.FREEHAND && ann.points && ann.points.length > 0) {
+    if (ann.points.length === 1) return distanceToSegment(point, ann.points[0], ann.points[0]) <= HIT_TOLERANCE;
+    for (let i = 1; i < ann.points.length; i++) {
+      if (distanceToSegment(point, ann.points[i - 1], ann.points[i]) <= HIT_TOLERANCE) return true;
+    }
+    return false;
+  }
+
+  const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+  return point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY;
+};
+
+/** Grab points shown for a selected annotation */
+export const getHandlePoints = (ann: Annotation): { handle: ResizeHandle; point: Point }[] => {
+  if (isLinearAnnotation(ann)) {
+    return [
+      { handle: 'start', point: ann.start },
+      { handle: 'end', point: ann.end }
+    ];
+  }
+  const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+  return [
+    { handle: 'tl', point: { x: minX, y: minY } },
+    { handle: 'tr', point: { x: maxX, y: minY } },
+    { handle: 'bl', point: { x: minX, y: maxY } },
+    { handle: 'br', point: { x: maxX, y: maxY } }
+  ];
+};
+
+export const getResizeHandle = (point: Point, ann: Annotation): ResizeHandle | null => {
+  const hit = getHandlePoints(ann).find(h =>
+    Math.abs(point.x - h.point.x) < HANDLE_SIZE && Math.abs(point.y - h.point.y) < HANDLE_SIZE
+  );
+  return hit ? hit.handle : null;
+};
+
+export const translateAnnotation = (ann: Annotation, dx: number, dy: number): Annotation => ({
+  ...ann,
+  start: { x: ann.start.x + dx, y: ann.start.y + dy },
+  end: { x: ann.end.x + dx, y: ann.end.y + dy },
+  points: ann.points?.map(p => ({ x: p.x + dx, y: p.y + dy }))
+});
+
+export const resizeAnnotation = (ann: Annotation, handle: ResizeHandle, point: Point): Annotation => {
+  if (isLinearAnnotation(ann)) {
+    if (handle === 'start') return { ...ann, start: point };
+    if (handle === 'end') return { ...ann, end: point };
+    return ann;
+  }
+
+  const old = getAnnotationBounds(ann);
+  const next = { ...old };
+  if (handle === 'tl') { next.minX = point.x; next.minY = point.y; }
+  else if (handle === 'tr') { next.maxX = point.x; next.minY = point.y; }
+  else if (handle === 'bl') { next.minX = point.x; next.maxY = point.y; }
+  else if (handle === 'br') { next.maxX = point.x; next.maxY = point.y; }
+
+  const resized: Annotation = {
+    ...ann,
+    start: { x: Math.min(next.minX, next.maxX), y: Math.min(next.minY, next.maxY) },
+    end: { x: Math.max(next.minX, next.maxX), y: Math.max(next.minY, next.maxY) }
+  };
+
+  if (ann.type === ToolType.FREEHAND && ann.points) {
+    // Stretch the stroke proportionally into the new box
+    const oldW = old.maxX - old.minX || 1;
+    const oldH = old.maxY - old.minY || 1;
+    resized.points = ann.points.map(p => ({
+      x: next.minX + ((p.x - old.minX) / oldW) * (next.maxX - next.minX),
+      y: next.minY + ((p.y - old.minY) / oldH) * (next.maxY - next.minY)
+    }));
+  }
+
+  return resized;
+};
+
+/** The two barb points of an arrowhead drawn at `end` */
+export const getArrowHeadPoints = (start: Point, end: Point, size: number): [Point, Point] => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: end.x - size * Math.cos(angle - spread), y: end.y - size * Math.sin(angle - spread) },
+    { x: end.x - size * Math.cos(angle + spread), y: end.y - size * Math.sin(angle + spread) }
+  ];
+};
+
+/** Text labels scale with the height of the box the user drew */
+export const getTextFontSize = (ann: Annotation) => {
+  const { minY, maxY } = getAnnotationBounds(ann);
+  return Math.max(12, (maxY - minY) * 0.7);
+};
+
+export const getFreehandPath = (points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+/**
+ * Draw an annotation's shape onto a canvas. Coordinates are multiplied by
+ * `scale` to map from editor (DOM) pixels to canvas pixels; stroke width
+ * comes from the caller's context.
+ */
+export const drawAnnotationShape = (ctx: CanvasRenderingContext2D, ann: Annotation, scale: number) => {
+  const s = (p: Point): Point => ({ x: p.x * scale, y: p.y * scale });
+  const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+  const x = minX * scale;
+  const y = minY * scale;
+  const w = (maxX - minX) * scale;
+  const h = (maxY - minY) * scale;
+
+  ctx.strokeStyle = ann.color;
+  ctx.fillStyle = hexToRgba(ann.color, 0.2);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (ann.type) {
+    case ToolType.RECTANGLE:
+      ctx.fillRect(x, y, w, h);
+      ctx.strokeRect(x, y, w, h);
+      break;
+    case ToolType.CIRCLE:
+      ctx.beginPath();
+      ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.stroke();
+      break;
+    case ToolType.LINE:
+    case ToolType.ARROW: {
+      const start = s(ann.start);
+      const end = s(ann.end);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      if (ann.type === ToolType.ARROW) {
+        const [a, b] = getArrowHeadPoints(start, end, Math.max(ctx.lineWidth * 5, 12));
+        ctx.beginPath();
+        ctx.moveTo(end.x, end.y);
+        ctx.lineTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.closePath();
+        ctx.fillStyle = ann.color;
+        ctx.fill();
+      }
+      break;
+    }
+    case ToolType.FREEHAND: {
+      const points = (ann.points || []).map(s);
+      if (points.length === 0) break;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      break;
+    }
+    case ToolType.REDACT:
+      // Redactions modify the underlying pixels, see drawRedaction
+      break;
+    case ToolType.TEXT: {
+      const fontSize = getTextFontSize(ann) * scale;
+      ctx.save();
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.lineWidth = Math.max(fontSize / 6, 2);
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeText(ann.text || '', x, y + h / 2);
+      ctx.fillStyle = ann.color;
+      ctx.fillText(ann.text || '', x, y + h / 2);
+      ctx.restore();
+      break;
+    }
+  }
+};
+
+/**
+ * Burn a redaction into the pixels already on the canvas. Blur mode
+ * pixelates first and blurs on top, so the region stays unreadable even
+ * in browsers that ignore `ctx.filter`.
+ */
+export const drawRedaction = (ctx: CanvasRenderingContext2D, ann: Annotation, scale: number) => {
+  const b = getAnnotationBounds(ann);
+  const x = Math.floor(b.minX * scale);
+  const y = Math.floor(b.minY * scale);
+  const w = Math.ceil((b.maxX - b.minX) * scale);
+  const h = Math.ceil((b.maxY - b.minY) * scale);
+  if (w <= 0 || h <= 0) return;
+
+  const style = ann.redactStyle || 'solid';
+  const block = Math.max(PIXEL_BLOCK * scale, 4);
+  const tiny = document.createElement('canvas');
+  tiny.width = Math.max(1, Math.ceil(w / block));
+  tiny.height = Math.max(1, Math.ceil(h / block));
+  const tctx = tiny.getContext('2d');
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+
+  if (style === 'solid' || !tctx) {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(x, y, w, h);
+    ctx.restore();
+    return;
+  }
+
+  tctx.drawImage(ctx.canvas, x, y, w, h, 0, 0, tiny.width, tiny.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(tiny, 0, 0, tiny.width, tiny.height, x, y, w, h);
+
+  if (style === 'blur') {
+    ctx.imageSmoothingEnabled = true;
+    ctx.filter = `blur(${Math.max(block / 2, 4)}px)`;
+    ctx.drawImage(tiny, 0, 0, tiny.width, tiny.height, x, y, w, h);
+  }
+  ctx.restore();
+};
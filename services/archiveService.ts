@@ -0,0 +1,213 @@
+
+import { Slide, SlideLogs, EnvironmentInfo, BugReportFields, Annotation, ToolType, RedactionStyle } from '../types';
+import { SEVERITY_OPTIONS, PRIORITY_OPTIONS } from './reportFieldsService';
+import { sanitizeLogs } from './logService';
+import { createZip, readZip, ZipEntry } from './zipService';
+import { dataUrlToBlob, readFileAsDataURL, generateThumbnail, getSlideType } from './mediaService';
+
+export const ARCHIVE_EXTENSION = '.bugsnap';
+export const ARCHIVE_FORMAT = 'bugsnap-session';
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchiveSlide {
+  id: string;
+  name: string;
+  type: 'image' | 'video';
+  mimeType: string;
+  media: string; // Path of the media file inside the archive
+  audio?: string; // Path of the separate soundtrack, if the recording has one
+  audioMimeType?: string;
+  createdAt: number;
+  displayWidth?: number;
+  annotations: Annotation[];
+  logs?: SlideLogs;
+  environment?: EnvironmentInfo;
+  report?: BugReportFields;
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessionName: string;
+  slides: ArchiveSlide[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'video/ogg': 'ogv',
+  'video/quicktime': 'mov',
+  'audio/webm': 'weba',
+  'audio/ogg': 'oga'
+};
+
+export const isArchiveFile = (file: File): boolean => file.name.toLowerCase().endsWith(ARCHIVE_EXTENSION);
+
+/** Package slides (media, annotations, metadata) into a single .bugsnap zip */
+export const createSessionArchive = async (sessionName: string, slides: Slide[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifestSlides: ArchiveSlide[] = [];
+
+  for (const [index, slide] of slides.entries()) {
+    const blob = dataUrlToBlob(slide.src);
+    const mimeType = blob.type.split(';')[0];
+    const media = `media/${String(index + 1).padStart(3, '0')}.${EXTENSIONS[mimeType] || 'bin'}`;
+    entries.push({ name: media, data: new Uint8Array(await blob.arrayBuffer()) });
+
+    let audio: string | undefined;
+    let audioMimeType: string | undefined;
+    if (slide.audio) {
+      const audioBlob = dataUrlToBlob(slide.audio);
+      audioMimeType = audioBlob.type.split(';')[0];
+      audio = `media/${String(index + 1).padStart(3, '0')}-audio.${EXTENSIONS[audioMimeType] || 'bin'}`;
+      entries.push({ name: audio, data: new Uint8Array(await audioBlob.arrayBuffer()) });
+    }
+    manifestSlides.push({
+      id: slide.id,
+      name: slide.name,
+      type: slide.type,
+      mimeType,
+      media,
+      audio,
+      audioMimeType,
+      createdAt: slide.createdAt,
+      displayWidth: slide.displayWidth,
+      annotations: slide.annotations,
+      logs: slide.logs,
+      environment: slide.environment,
+      report: slide.report
+    });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessionName,
+    slides: manifestSlides
+  };
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+};
+
+const isPoint = (value: any) => value && typeof value.x === 'number' && typeof value.y === 'number';
+
+const isOptional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+// Colours end up in SVG attributes and inline styles of the HTML report, so only plain hex is accepted
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const REDACTION_STYLES: RedactionStyle[] = ['solid', 'pixelate', 'blur'];
+
+const isValidAnnotation = (value: any): value is Annotation =>
+  value &&
+  typeof value.id === 'number' &&
+  Object.values(ToolType).includes(value.type) &&
+  isPoint(value.start) &&
+  isPoint(value.end) &&
+  (value.points === undefined || (Array.isArray(value.points) && value.points.every(isPoint))) &&
+  typeof value.color === 'string' && HEX_COLOR.test(value.color) &&
+  (value.redactStyle === undefined || REDACTION_STYLES.includes(value.redactStyle)) &&
+  isOptional(value.comment, 'string') &&
+  isOptional(value.text, 'string') &&
+  isOptional(value.timestamp, 'number') &&
+  isOptional(value.endTimestamp, 'number');
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+
+/** Keep the report fields that have the right shape and drop the rest, so a hand-edited archive can't break rendering */
+const sanitizeReport = (report: any): BugReportFields | undefined => {
+  if (!report) return undefined;
+  return {
+    title: optionalString(report.title),
+    steps: stringList(report.steps),
+    expected: optionalString(report.expected) || '',
+    actual: optionalString(report.actual) || '',
+    suspectedArea: optionalString(report.suspectedArea),
+    severity: SEVERITY_OPTIONS.find(o => o.value === report.severity)?.value,
+    priority: PRIORITY_OPTIONS.find(o => o.value === report.priority)?.value,
+    component: optionalString(report.component),
+    labels: stringList(report.labels)
+  };
+};
+
+const validateManifest = (value: any): ArchiveManifest => {
+  if (!value || value.format !== ARCHIVE_FORMAT) throw new Error("This file is not a BugSnap session archive.");
+  if (typeof value.version !== 'number' || value.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${value.version} is newer than this BugSnap supports. Please update the app.`);
+  }
+  if (!isOptional(value.sessionName, 'string')) throw new Error("Archive manifest has an invalid session name.");
+  if (!Array.isArray(value.slides)) throw new Error("Archive manifest has no slide list.");
+  value.slides.forEach((slide: any, i: number) => {
+    if (!slide || typeof slide.media !== 'string' || !['image', 'video'].includes(slide.type) || typeof slide.mimeType !== 'string' || !isOptional(slide.name, 'string') || !isOptional(slide.audio, 'string') || !isOptional(slide.createdAt, 'number')) {
+      throw new Error(`Slide ${i + 1} in the archive is malformed.`);
+    }
+    if (!Array.isArray(slide.annotations) || !slide.annotations.every(isValidAnnotation)) {
+      throw new Error(`Slide ${i + 1} has invalid annotations.`);
+    }
+    if (slide.logs !== undefined && (!slide.logs || !Array.isArray(slide.logs.console) || !Array.isArray(slide.logs.network))) {
+      throw new Error(`Slide ${i + 1} has malformed logs.`);
+    }
+    if (slide.environment !== undefined && (!slide.environment || typeof slide.environment.browser !== 'string')) {
+      throw new Error(`Slide ${i + 1} has malformed environment details.`);
+    }
+    if (slide.report !== undefined && (!slide.report || typeof slide.report !== 'object')) {
+      throw new Error(`Slide ${i + 1} has malformed report details.`);
+    }
+  });
+  return value as ArchiveManifest;
+};
+
+/**
+ * Read a .bugsnap archive back into slides. Slides get fresh ids so the same
+ * archive can be imported more than once without clashing.
+ */
+export const readSessionArchive = async (file: Blob): Promise<{ sessionName: string; slides: Slide[] }> => {
+  const files = await readZip(file);
+  const manifestData = files.get(MANIFEST_PATH);
+  if (!manifestData) throw new Error("Archive is missing its manifest.");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifestData));
+  } catch (e) {
+    throw new Error("Archive manifest is not valid JSON.");
+  }
+  const manifest = validateManifest(parsed);
+
+  const slides: Slide[] = [];
+  for (const entry of manifest.slides) {
+    const data = files.get(entry.media);
+    if (!data) throw new Error(`Archive is missing media for "${entry.name}".`);
+    if (getSlideType(entry.mimeType) !== entry.type) throw new Error(`Unsupported media type ${entry.mimeType} in archive.`);
+
+    const src = await readFileAsDataURL(new Blob([data as BlobPart], { type: entry.mimeType }));
+    const audioData = entry.audio ? files.get(entry.audio) : undefined;
+    if (entry.audio && !audioData) throw new Error(`Archive is missing the soundtrack for "${entry.name}".`);
+    slides.push({
+      id: crypto.randomUUID(),
+      type: entry.type,
+      src,
+      thumbnail: await generateThumbnail(src, entry.type),
+      name: entry.name || 'Imported slide',
+      annotations: entry.annotations,
+      displayWidth: entry.displayWidth,
+      audio: audioData ? await readFileAsDataURL(new Blob([audioData as BlobPart], { type: entry.audioMimeType || 'audio/webm' })) : undefined,
+      logs: entry.logs ? sanitizeLogs(entry.logs) : undefined,
+      environment: entry.environment,
+      report: sanitizeReport(entry.report),
+      createdAt: entry.createdAt || Date.now()
+    });
+  }
+
+  return { sessionName: manifest.sessionName || 'Imported session', slides };
+};
@@ -1,6 +1,7 @@
 
 import { fetchWithProxy } from './proxyService';
-import { AsanaWorkspace, AsanaProject, ReportedIssue } from '../types';
+import { AsanaWorkspace, AsanaProject, ReportedIssue, BugReportFields, BugSeverity, BugPriority, DuplicateCandidate, IssueTracker } from '../types';
+import { matchOptionByName } from './reportFieldsService';
 
 const ASANA_API_BASE = 'https://app.asana.com/api/1.0';
 
@@ -62,6 +63,35 @@ export const getAsanaProjects = async (token: string, workspaceId: string): Prom
   return data.data;
 };
 
+/**
+ * Map severity, priority and component onto the project's custom fields of the
+ * same name. Projects without them (or free workspaces without custom fields) get nothing.
+ */
+const getAsanaCustomFieldValues = async (token: string, projectId: string, fields: BugReportFields): Promise<Record<string, string>> => {
+  const response = await fetchWithProxy(`${ASANA_API_BASE}/projects/${projectId}/custom_field_settings?opt_fields=custom_field.gid,custom_field.name,custom_field.resource_subtype,custom_field.enum_options.gid,custom_field.enum_options.name,custom_field.enum_options.enabled`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) return {};
+
+  const data = await response.json();
+  const customFields: any[] = (data.data || []).map((setting: any) => setting.custom_field).filter(Boolean);
+  const findField = (name: string) => customFields.find(f => f.name.trim().toLowerCase() === name);
+
+  const values: Record<string, string> = {};
+  const setEnum = (name: string, value?: BugSeverity | BugPriority) => {
+    const field = findField(name);
+    if (!value || field?.resource_subtype !== 'enum') return;
+    const option = matchOptionByName<{ gid: string; name: string }>((field.enum_options || []).filter((o: any) => o.enabled !== false), value);
+    if (option) values[field.gid] = option.gid;
+  };
+  setEnum('severity', fields.severity);
+  setEnum('priority', fields.priority);
+
+  const component = findField('component');
+  if (component?.resource_subtype === 'text' && fields.component?.trim()) values[component.gid] = fields.component.trim();
+  return values;
+};
+
 /**
  * Create a Task in Asana
  */
@@ -70,15 +100,18 @@ export const createAsanaTask = async (
   workspaceId: string, 
   projectId: string, 
   title: string, 
-  description: string
+  description: string,
+  fields?: BugReportFields
 ) => {
+  const customFields = fields ? await getAsanaCustomFieldValues(token, projectId, fields) : {};
   const payload = {
     data: {
       workspace: workspaceId,
       projects: [projectId],
       name: title,
       notes: description, // Plain text description
-      html_notes: `<body>${description.replace(/\n/g, '<br/>')}</body>` // Basic HTML support
+      html_notes: `<body>${description.replace(/\n/g, '<br/>')}</body>`, // Basic HTML support
+      ...(Object.keys(customFields).length > 0 ? { custom_fields: customFields } : {})
     }
   };
 
@@ -120,6 +153,100 @@ export const uploadAsanaAttachment = async (token: string, taskGid: string, file
   return await response.json();
 };
 
+/**
+ * Replace a task's description
+ */
+export const updateAsanaTask = async (token: string, taskGid: string, description: string) => {
+  const response = await fetchWithProxy(`${ASANA_API_BASE}/tasks/${taskGid}`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ data: { notes: description } })
+  });
+
+  if (!response.ok) throw new Error("Asana Update Failed");
+  return await response.json();
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToAsanaHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(?<!\w)_(.+?)_(?!\w)/g, '<em>$1</em>')
+    .replace(/!?\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<a href="$2">$1</a>');
+
+/**
+ * Converts Markdown to Asana rich text, which is a strict HTML subset: headings become bold lines
+ * (only h1/h2 exist), bullets become lists, and newlines are kept as written.
+ */
+const markdownToAsanaHtml = (text: string) => {
+  const lines: string[] = [];
+  let items: string[] = [];
+  const flushList = () => {
+    if (items.length > 0) lines.push(`<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`);
+    items = [];
+  };
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const item = line.match(/^\s*[-*]\s+(.*)$/);
+    if (item) { items.push(inlineToAsanaHtml(item[1])); continue; }
+    flushList();
+    if (/^\s*-{3,}\s*$/.test(line)) lines.push('<hr/>');
+    else if (heading) lines.push(`<strong>${inlineToAsanaHtml(heading[1])}</strong>`);
+    else lines.push(inlineToAsanaHtml(line));
+  }
+  flushList();
+  return `<body>${lines.join('\n')}</body>`;
+};
+
+/**
+ * Add a comment (story) to an existing task. Markdown is converted, since `text` would show it as typed.
+ */
+export const addAsanaComment = async (token: string, taskGid: string, text: string) => {
+  const response = await fetchWithProxy(`${ASANA_API_BASE}/tasks/${taskGid}/stories`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ data: { html_text: markdownToAsanaHtml(text) } })
+  });
+
+  if (!response.ok) throw new Error("Asana Comment Failed");
+  return await response.json();
+};
+
+/**
+ * Incomplete tasks in a project, for duplicate detection
+ */
+export const fetchAsanaOpenTasks = async (token: string, projectId: string): Promise<DuplicateCandidate[]> => {
+  // completed_since=now returns only tasks that are still open
+  const url = `${ASANA_API_BASE}/projects/${projectId}/tasks?completed_since=now&limit=100&opt_fields=name,notes,permalink_url`;
+
+  const response = await fetchWithProxy(url, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+
+  if (!response.ok) {
+     const text = await response.text();
+     if (text.includes('corsdemo')) throw new Error('corsdemo_required');
+     throw new Error("Failed to fetch Asana tasks");
+  }
+
+  const data = await response.json();
+  return data.data.map((t: any) => ({
+      id: t.gid,
+      title: t.name || '',
+      description: t.notes || '',
+      status: 'Incomplete',
+      url: t.permalink_url
+  }));
+};
+
 /**
  * Fetch Tasks for Dashboard
  * Gets tasks for a specific project
@@ -153,3 +280,37 @@ export const fetchAsanaTasks = async (token: string, projectId: string): Promise
       url: t.permalink_url
   }));
 };
+
+export const asanaTracker: IssueTracker = {
+  source: 'Asana',
+  name: 'Asana',
+  order: 30,
+  dashboardScope: 'destination',
+  isConfigured: (config) => !!config.asanaToken,
+  validate: async (config) => {
+    if (!config.asanaToken) throw new Error("Personal Access Token is required.");
+    if (!await validateAsanaToken(config.asanaToken)) throw new Error("Asana Authentication Failed.");
+  },
+  listDestinations: async (config) => {
+    const workspaces = await getAsanaWorkspaces(config.asanaToken!);
+    const perWorkspace = await Promise.all(workspaces.map(async ws =>
+      (await getAsanaProjects(config.asanaToken!, ws.gid)).map(p => ({ id: p.gid, name: p.name, group: ws.name, containerId: ws.gid }))
+    ));
+    return perWorkspace.flat();
+  },
+  createIssue: async (config, input) => {
+    const task = await createAsanaTask(config.asanaToken!, input.containerId || '', input.destinationId, input.title, input.description, input.fields);
+    return { id: task.gid, url: task.permalink_url, destinationId: input.destinationId, containerId: input.containerId };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    await uploadAsanaAttachment(config.asanaToken!, issue.id, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    await updateAsanaTask(config.asanaToken!, issue.id, update.description);
+  },
+  fetchIssues: (config, destination) => fetchAsanaTasks(config.asanaToken!, destination?.id || ''),
+  fetchOpenIssues: (config, destination) => fetchAsanaOpenTasks(config.asanaToken!, destination.id),
+  addComment: async (config, issue, markdown) => {
+    await addAsanaComment(config.asanaToken!, issue.id, markdown);
+  }
+};
@@ -0,0 +1,84 @@
+
+export interface RecordingAudioOptions {
+  microphone: boolean;
+  systemAudio: boolean; // Tab/system audio offered by the screen share picker
+}
+
+export interface RecordingStreams {
+  stream: MediaStream; // Screen video plus the mixed soundtrack
+  audioStream: MediaStream | null; // Mixed soundtrack alone, null when nothing is audible
+  getLevel: () => number; // Current loudness, 0..1
+  stop: () => void;
+}
+
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg'];
+
+export const getAudioRecorderMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? '' : AUDIO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+/**
+ * Ask for the screen (and optionally the microphone) and mix every audio
+ * source into a single track, so narration and app sound land in one recording.
+ * The microphone is requested first so a denied prompt fails before the screen picker.
+ */
+export const startRecordingStreams = async (options: RecordingAudioOptions): Promise<RecordingStreams> => {
+  let microphone: MediaStream | null = null;
+  if (options.microphone) {
+    try {
+      microphone = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (e) {
+      throw new Error("Microphone access was denied.");
+    }
+  }
+
+  let display: MediaStream;
+  try {
+    display = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: "monitor" },
+      audio: options.systemAudio
+    });
+  } catch (e) {
+    microphone?.getTracks().forEach(track => track.stop());
+    throw e;
+  }
+
+  const sources = [display, microphone].filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0);
+  if (sources.length === 0) {
+    return {
+      stream: display,
+      audioStream: null,
+      getLevel: () => 0,
+      stop: () => display.getTracks().forEach(track => track.stop())
+    };
+  }
+
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  sources.forEach(source => {
+    const node = context.createMediaStreamSource(source);
+    node.connect(destination);
+    node.connect(analyser);
+  });
+
+  const samples = new Float32Array(analyser.fftSize);
+  const getLevel = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    // RMS of speech sits well below 1; stretch it so normal talking fills most of the meter
+    return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+  };
+
+  return {
+    stream: new MediaStream([...display.getVideoTracks(), ...destination.stream.getAudioTracks()]),
+    audioStream: destination.stream,
+    getLevel,
+    stop: () => {
+      display.getTracks().forEach(track => track.stop());
+      microphone?.getTracks().forEach(track => track.stop());
+      context.close();
+    }
+  };
+};
@@ -0,0 +1,495 @@
+
+import { AzureDevOpsProject, AzureDevOpsIteration, ReportedIssue, DuplicateCandidate, IssueTracker, BugReportFields, Slide } from '../types';
+import { getNumberedAnnotations } from './annotationService';
+import { getReportEnvironmentFields, formatEnvironmentHtml } from './environmentService';
+import { getSeverityLabel, getPriorityLabel, toAzureDevOpsPriority, toAzureDevOpsSeverity } from './reportFieldsService';
+
+/**
+ * Azure DevOps Service
+ * Files Bug work items through the Azure DevOps REST API (dev.azure.com) with a personal access token.
+ * The API allows CORS, so requests go direct.
+ */
+
+const API_VERSION = '7.1';
+
+const getAuthHeader = (token: string) => `Basic ${btoa(`:${token}`)}`;
+
+const adoFetch = async (token: string, url: string, init: RequestInit = {}, contentType = 'application/json') => {
+  return fetch(url, {
+    ...init,
+    headers: {
+      'Authorization': getAuthHeader(token),
+      'Accept': 'application/json',
+      ...(init.body ? { 'Content-Type': contentType } : {})
+    }
+  });
+};
+
+const getErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    if (data.message) return `Azure DevOps: ${data.message}`;
+  } catch (e) {
+    // Not JSON; a bad PAT gets an HTML sign-in page
+  }
+  if (response.status === 401 || response.status === 203) return `${fallback}: check the personal access token.`;
+  return `${fallback} (${response.status})`;
+};
+
+/** Accept "contoso", "dev.azure.com/contoso/..." or the legacy "contoso.visualstudio.com" */
+export const extractAzureDevOpsOrganization = (input: string) => {
+  const value = input.trim();
+  const devAzure = value.match(/dev\.azure\.com\/([^/?#\s]+)/i);
+  if (devAzure) return devAzure[1];
+  const legacy = value.match(/^(?:https?:\/\/)?([^./\s]+)\.visualstudio\.com/i);
+  if (legacy) return legacy[1];
+  return value.replace(/\/+$/, '');
+};
+
+const orgUrl = (organization: string) => `https://dev.azure.com/${encodeURIComponent(organization)}`;
+const projectUrl = (organization: string, project: string) => `${orgUrl(organization)}/${encodeURIComponent(project)}`;
+
+/** Project names repeat across organizations, so destinations are "organization/project" */
+export const formatProjectRef = (organization: string, project: string) => `${organization}/${project}`;
+
+const parseProjectRef = (ref: string) => {
+  const [organization, project] = ref.split('/');
+  if (!organization || !project) throw new Error(`Invalid Azure DevOps project: ${ref}`);
+  return { organization, project };
+};
+
+/** Work item IDs are unique per organization; "contoso#123" carries the organization every call needs */
+export const formatWorkItemRef = (organization: string, id: number | string) => `${organization}#${id}`;
+
+export const parseWorkItemRef = (ref: string) => {
+  const [organization, id] = ref.split('#');
+  if (!organization || !id) throw new Error(`Invalid Azure DevOps work item reference: ${ref}`);
+  return { organization, id };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<a href="$2">$1</a>');
+
+/** Plain text or light Markdown (bold, links, headings, rules, bullet lists, line breaks) as HTML for rich-text fields and comments */
+const textToHtml = (text: string) =>
+  text.split(/\n{2,}/)
+    .filter(block => block.trim())
+    .map(block => {
+      const html: string[] = [];
+      let paragraph: string[] = [];
+      let items: string[] = [];
+      const flush = () => {
+        if (paragraph.length > 0) html.push(`<p>${paragraph.join('<br>')}</p>`);
+        if (items.length > 0) html.push(`<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`);
+        paragraph = [];
+        items = [];
+      };
+      for (const line of block.trim().split('\n')) {
+        const heading = line.match(/^#{1,6}\s+(.*)$/);
+        const item = line.match(/^\s*[-*]\s+(.*)$/);
+        if (/^\s*-{3,}\s*$/.test(line)) { flush(); html.push('<hr>'); }
+        else if (heading) { flush(); html.push(`<h3>${inlineToHtml(heading[1])}</h3>`); }
+        else if (item) { if (paragraph.length > 0) flush(); items.push(inlineToHtml(item[1])); }
+        else { if (items.length > 0) flush(); paragraph.push(inlineToHtml(line)); }
+      }
+      flush();
+      return html.join('');
+    })
+    .join('');
+
+/**
+ * Repro Steps for a Bug: the summary, the report's steps and expected/actual results,
+ * each slide's numbered observations, and the capture environment.
+ */
+export const buildReproStepsHtml = (summary: string, slides: Slide[], fields: BugReportFields) => {
+  const html: string[] = [];
+  if (summary.trim()) html.push(textToHtml(summary));
+
+  if (fields.steps.length > 0) {
+    html.push(`<h3>Steps to Reproduce</h3><ol>${fields.steps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>`);
+  }
+  if (fields.expected.trim()) html.push(`<p><b>Expected:</b> ${escapeHtml(fields.expected.trim())}</p>`);
+  if (fields.actual.trim()) html.push(`<p><b>Actual:</b> ${escapeHtml(fields.actual.trim())}</p>`);
+  if (fields.suspectedArea?.trim()) html.push(`<p><b>Suspected area:</b> ${escapeHtml(fields.suspectedArea.trim())}</p>`);
+  if (fields.severity) html.push(`<p><b>Severity:</b> ${getSeverityLabel(fields.severity)}</p>`);
+  if (fields.priority) html.push(`<p><b>Priority:</b> ${getPriorityLabel(fields.priority)}</p>`);
+
+  html.push('<h3>Observations</h3>');
+  slides.forEach(slide => {
+    if (slides.length > 1) html.push(`<h4>${escapeHtml(slide.name)}</h4>`);
+    const annotations = getNumberedAnnotations(slide.annotations);
+    html.push(annotations.length > 0
+      ? `<ol>${annotations.map(ann => `<li>${escapeHtml(ann.comment || 'No comment')}</li>`).join('')}</ol>`
+      : '<p><i>No specific annotations provided.</i></p>');
+  });
+
+  const environment = getReportEnvironmentFields(slides);
+  if (environment) html.push(`<h3>Environment</h3>${formatEnvironmentHtml(environment)}`);
+  html.push('<p>Source: BugSnap</p>');
+  return html.join('');
+};
+
+/**
+ * Validates a personal access token against an organization by listing its projects.
+ */
+export const validateAzureDevOpsToken = async (organization: string, token: string): Promise<boolean> => {
+  try {
+    const response = await adoFetch(token, `${orgUrl(organization)}/_apis/projects?$top=1&api-version=${API_VERSION}`);
+    return response.ok && (response.headers.get('content-type') || '').includes('json');
+  } catch (error) {
+    console.error("Azure DevOps Validation Failed:", error);
+    return false;
+  }
+};
+
+/**
+ * Organizations the token's user belongs to. Tokens scoped to a single organization can't
+ * list them, so the configured one is always included.
+ */
+export const getAzureDevOpsOrganizations = async (token: string, defaultOrganization?: string): Promise<string[]> => {
+  const organizations = defaultOrganization ? [defaultOrganization] : [];
+  try {
+    const profileResponse = await adoFetch(token, `https://app.vssps.visualstudio.com/_apis/profile/profiles/me?api-version=${API_VERSION}`);
+    if (!profileResponse.ok) return organizations;
+    const profile = await profileResponse.json();
+
+    const accountsResponse = await adoFetch(token, `https://app.vssps.visualstudio.com/_apis/accounts?memberId=${profile.id}&api-version=${API_VERSION}`);
+    if (!accountsResponse.ok) return organizations;
+    const accounts = await accountsResponse.json();
+    accounts.value.forEach((a: any) => {
+      if (!organizations.includes(a.accountName)) organizations.push(a.accountName);
+    });
+  } catch (e) {
+    console.warn("Couldn't list Azure DevOps organizations:", e);
+  }
+  return organizations;
+};
+
+export const getAzureDevOpsProjects = async (organization: string, token: string): Promise<AzureDevOpsProject[]> => {
+  const response = await adoFetch(token, `${orgUrl(organization)}/_apis/projects?$top=500&api-version=${API_VERSION}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch projects"));
+
+  const data = await response.json();
+  return data.value.map((p: any) => ({ id: p.id, name: p.name }));
+};
+
+/** Walk a classification node tree into "Project\Child\Grandchild" paths */
+const flattenNodes = (node: any, parentPath: string | null, visit: (node: any, path: string) => void) => {
+  const path = parentPath === null ? node.name : `${parentPath}\\${node.name}`;
+  visit(node, path);
+  (node.children || []).forEach((child: any) => flattenNodes(child, path, visit));
+};
+
+export const getAzureDevOpsAreaPaths = async (organization: string, project: string, token: string): Promise<string[]> => {
+  const response = await adoFetch(token, `${projectUrl(organization, project)}/_apis/wit/classificationnodes/Areas?$depth=10&api-version=${API_VERSION}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch area paths"));
+
+  const paths: string[] = [];
+  flattenNodes(await response.json(), null, (_, path) => paths.push(path));
+  return paths;
+};
+
+/** Iterations that haven't finished yet (or have no dates), with the one covering today marked current */
+export const getAzureDevOpsIterations = async (organization: string, project: string, token: string): Promise<AzureDevOpsIteration[]> => {
+  const response = await adoFetch(token, `${projectUrl(organization, project)}/_apis/wit/classificationnodes/Iterations?$depth=10&api-version=${API_VERSION}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch iterations"));
+
+  const now = Date.now();
+  const iterations: AzureDevOpsIteration[] = [];
+  flattenNodes(await response.json(), null, (node, path) => {
+    const start = node.attributes?.startDate ? new Date(node.attributes.startDate).getTime() : null;
+    const finish = node.attributes?.finishDate ? new Date(node.attributes.finishDate).getTime() : null;
+    if (finish !== null && finish < now) return;
+    iterations.push({ path, name: node.name, isCurrent: start !== null && finish !== null && start <= now && now <= finish });
+  });
+  return iterations;
+};
+
+interface CreateBugParams {
+  organization: string;
+  project: string;
+  title: string;
+  reproStepsHtml: string;
+  areaPath?: string;
+  iterationPath?: string;
+  fields?: BugReportFields;
+}
+
+/**
+ * Create a Bug work item. Priority and severity come from the report; labels become tags.
+ */
+export const createAzureDevOpsBug = async (token: string, params: CreateBugParams) => {
+  const patch: { op: 'add'; path: string; value: unknown }[] = [
+    { op: 'add', path: '/fields/System.Title', value: params.title },
+    { op: 'add', path: '/fields/Microsoft.VSTS.TCM.ReproSteps', value: params.reproStepsHtml }
+  ];
+  if (params.areaPath) patch.push({ op: 'add', path: '/fields/System.AreaPath', value: params.areaPath });
+  if (params.iterationPath) patch.push({ op: 'add', path: '/fields/System.IterationPath', value: params.iterationPath });
+  if (params.fields?.priority) patch.push({ op: 'add', path: '/fields/Microsoft.VSTS.Common.Priority', value: toAzureDevOpsPriority(params.fields.priority) });
+  if (params.fields?.severity) patch.push({ op: 'add', path: '/fields/Microsoft.VSTS.Common.Severity', value: toAzureDevOpsSeverity(params.fields.severity) });
+  if (params.fields && params.fields.labels.length > 0) patch.push({ op: 'add', path: '/fields/System.Tags', value: params.fields.labels.join('; ') });
+
+  const response = await adoFetch(
+    token,
+    `${projectUrl(params.organization, params.project)}/_apis/wit/workitems/$Bug?api-version=${API_VERSION}`,
+    { method: 'POST', body: JSON.stringify(patch) },
+    'application/json-patch+json'
+  );
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Azure DevOps Bug Creation Failed"));
+  return await response.json();
+};
+
+const patchWorkItem = async (token: string, organization: string, id: string, patch: unknown[], fallback: string) => {
+  const response = await adoFetch(
+    token,
+    `${orgUrl(organization)}/_apis/wit/workitems/${id}?api-version=${API_VERSION}`,
+    { method: 'PATCH', body: JSON.stringify(patch) },
+    'application/json-patch+json'
+  );
+  if (!response.ok) throw new Error(await getErrorMessage(response, fallback));
+  return await response.json();
+};
+
+const getWorkItemField = async (token: string, organization: string, id: string, field: string): Promise<string> => {
+  const response = await adoFetch(token, `${orgUrl(organization)}/_apis/wit/workitems/${id}?fields=${field}&api-version=${API_VERSION}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch Azure DevOps work item"));
+  const data = await response.json();
+  return data.fields?.[field] || '';
+};
+
+/** Add text to the end of the Repro Steps, keeping the rich HTML the Bug was created with */
+export const appendAzureDevOpsReproSteps = async (token: string, organization: string, id: string, text: string) => {
+  const current = await getWorkItemField(token, organization, id, 'Microsoft.VSTS.TCM.ReproSteps');
+  await patchWorkItem(token, organization, id, [
+    { op: 'add', path: '/fields/Microsoft.VSTS.TCM.ReproSteps', value: current + textToHtml(text) }
+  ], "Azure DevOps Update Failed");
+};
+
+export const updateAzureDevOpsReproSteps = async (token: string, organization: string, id: string, description: string) => {
+  await patchWorkItem(token, organization, id, [
+    { op: 'add', path: '/fields/Microsoft.VSTS.TCM.ReproSteps', value: textToHtml(description) }
+  ], "Azure DevOps Update Failed");
+};
+
+/** Work item comments are History entries; writing History adds one without needing the project */
+export const addAzureDevOpsComment = async (token: string, organization: string, id: string, text: string) => {
+  await patchWorkItem(token, organization, id, [
+    { op: 'add', path: '/fields/System.History', value: textToHtml(text) }
+  ], "Azure DevOps Comment Failed");
+};
+
+/**
+ * Upload a file to the organization's attachment store and link it to the work item.
+ */
+export const uploadAzureDevOpsAttachment = async (token: string, organization: string, id: string, fileBlob: Blob, filename: string) => {
+  const uploadResponse = await adoFetch(
+    token,
+    `${orgUrl(organization)}/_apis/wit/attachments?fileName=${encodeURIComponent(filename)}&api-version=${API_VERSION}`,
+    { method: 'POST', body: fileBlob },
+    'application/octet-stream'
+  );
+
+  if (uploadResponse.status === 413) throw new Error("Azure DevOps Storage Full: the file exceeds the attachment size limit.");
+  if (!uploadResponse.ok) throw new Error(await getErrorMessage(uploadResponse, "Azure DevOps Upload Failed"));
+  const attachment = await uploadResponse.json();
+
+  await patchWorkItem(token, organization, id, [
+    { op: 'add', path: '/relations/-', value: { rel: 'AttachedFile', url: attachment.url, attributes: { comment: 'Uploaded by BugSnap' } } }
+  ], "Azure DevOps Attachment Link Failed");
+};
+
+/** A work item from the batch endpoint; only the requested fields are present */
+interface AdoWorkItem {
+  id: number;
+  fields: Record<string, unknown>;
+}
+
+// People fields (System.AssignedTo, System.CreatedBy) come back as identity refs
+interface AdoIdentity {
+  displayName?: string;
+}
+
+/** Run a WIQL query and load the matching work items' fields, in query order */
+const queryWorkItems = async (token: string, organization: string, project: string, wiql: string, fields: string[], top: number): Promise<AdoWorkItem[]> => {
+  const queryResponse = await adoFetch(
+    token,
+    `${projectUrl(organization, project)}/_apis/wit/wiql?$top=${top}&api-version=${API_VERSION}`,
+    { method: 'POST', body: JSON.stringify({ query: wiql }) }
+  );
+  if (!queryResponse.ok) throw new Error(await getErrorMessage(queryResponse, "Failed to query Azure DevOps work items"));
+  const ids: number[] = (await queryResponse.json()).workItems.map((w: any) => w.id);
+  if (ids.length === 0) return [];
+
+  // The batch endpoint takes at most 200 IDs
+  const itemsResponse = await adoFetch(
+    token,
+    `${projectUrl(organization, project)}/_apis/wit/workitems?ids=${ids.slice(0, 200).join(',')}&fields=${fields.join(',')}&api-version=${API_VERSION}`
+  );
+  if (!itemsResponse.ok) throw new Error(await getErrorMessage(itemsResponse, "Failed to fetch Azure DevOps work items"));
+  return (await itemsResponse.json()).value as AdoWorkItem[];
+};
+
+const workItemUrl = (organization: string, project: string, id: number | string) =>
+  `${projectUrl(organization, project)}/_workitems/edit/${id}`;
+
+const escapeWiql = (value: string) => value.replace(/'/g, "''");
+
+// Microsoft.VSTS.Common.Priority: 1 (highest) to 4
+const mapPriority = (priority?: number): ReportedIssue['priority'] => {
+  switch (priority) {
+    case 1: return 'Urgent';
+    case 2: return 'High';
+    case 3: return 'Normal';
+    case 4: return 'Low';
+    default: return 'None';
+  }
+};
+
+const STATE_COLORS: Record<string, string> = {
+  New: '#b2b2b2', Active: '#007acc', Committed: '#007acc', Resolved: '#ff9d00', Closed: '#339933', Done: '#339933', Removed: '#8a8886'
+};
+
+/**
+ * Fetch the project's most recent Bugs for the Dashboard via WIQL.
+ */
+export const fetchAzureDevOpsWorkItems = async (token: string, organization: string, project: string): Promise<ReportedIssue[]> => {
+  const items = await queryWorkItems(token, organization, project,
+    `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = '${escapeWiql(project)}' AND [System.WorkItemType] = 'Bug' ORDER BY [System.CreatedDate] DESC`,
+    ['System.Id', 'System.Title', 'System.State', 'System.CreatedDate', 'System.AssignedTo', 'System.CreatedBy', 'System.Tags', 'Microsoft.VSTS.Common.Priority', 'Microsoft.VSTS.Common.ClosedDate', 'Microsoft.VSTS.Scheduling.DueDate'],
+    50
+  );
+
+  return items.map(item => {
+    const f = item.fields;
+    const state = f['System.State'] as string;
+    const createdDate = f['System.CreatedDate'] as string;
+    const closedDate = f['Microsoft.VSTS.Common.ClosedDate'] as string | undefined;
+    const dueDate = f['Microsoft.VSTS.Scheduling.DueDate'] as string | undefined;
+    const tags = f['System.Tags'] as string | undefined;
+    return {
+      id: `#${item.id}`,
+      title: f['System.Title'] as string,
+      platform: 'AzureDevOps' as const,
+      status: state,
+      statusColor: STATE_COLORS[state] || '#b2b2b2',
+      priority: mapPriority(f['Microsoft.VSTS.Common.Priority'] as number | undefined),
+      date: new Date(createdDate).toLocaleDateString(),
+      assignee: (f['System.AssignedTo'] as AdoIdentity | undefined)?.displayName,
+      dueDate: dueDate ? new Date(dueDate).toLocaleDateString() : undefined,
+      url: workItemUrl(organization, project, item.id),
+      reporter: (f['System.CreatedBy'] as AdoIdentity | undefined)?.displayName,
+      resolutionTime: closedDate ? (new Date(closedDate).getTime() - new Date(createdDate).getTime()) / 3600000 : undefined,
+      tags: tags ? tags.split(';').map(t => t.trim()).filter(Boolean) : []
+    };
+  });
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Open Bugs in a project, as duplicate-check candidates */
+export const fetchAzureDevOpsOpenBugs = async (token: string, organization: string, project: string): Promise<DuplicateCandidate[]> => {
+  const items = await queryWorkItems(token, organization, project,
+    `SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = '${escapeWiql(project)}' AND [System.WorkItemType] = 'Bug' AND [System.State] NOT IN ('Resolved', 'Closed', 'Done', 'Removed') ORDER BY [System.ChangedDate] DESC`,
+    ['System.Id', 'System.Title', 'System.State', 'Microsoft.VSTS.TCM.ReproSteps'],
+    100
+  );
+
+  return items.map(item => ({
+    id: formatWorkItemRef(organization, item.id),
+    title: item.fields['System.Title'] as string,
+    description: stripHtml((item.fields['Microsoft.VSTS.TCM.ReproSteps'] as string | undefined) || ''),
+    status: item.fields['System.State'] as string,
+    url: workItemUrl(organization, project, item.id)
+  }));
+};
+
+/** Area, iteration and prebuilt Repro Steps HTML from the export modal, passed in the request's `extra` options */
+const getAzureDevOpsOptions = (extra: Record<string, unknown> = {}): { areaPath?: string; iterationPath?: string; reproStepsHtml?: string } => {
+  const options: { areaPath?: string; iterationPath?: string; reproStepsHtml?: string } = {};
+  for (const key of ['areaPath', 'iterationPath', 'reproStepsHtml'] as const) {
+    const value = extra[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') throw new Error(`Invalid ${key} option for Azure DevOps.`);
+    options[key] = value;
+  }
+  return options;
+};
+
+export const azureDevOpsTracker: IssueTracker = {
+  source: 'AzureDevOps',
+  name: 'Azure DevOps',
+  order: 100,
+  dashboardScope: 'destination',
+  isConfigured: (config) => !!config.azureDevOpsToken && !!config.azureDevOpsOrganization,
+  validate: async (config) => {
+    if (!config.azureDevOpsOrganization) throw new Error("Organization is required.");
+    if (!config.azureDevOpsToken) throw new Error("Personal Access Token is required.");
+    if (!await validateAzureDevOpsToken(config.azureDevOpsOrganization, config.azureDevOpsToken)) {
+      throw new Error(`Azure DevOps Authentication Failed for ${config.azureDevOpsOrganization}.`);
+    }
+  },
+  listDestinations: async (config) => {
+    const token = config.azureDevOpsToken!;
+    const organizations = await getAzureDevOpsOrganizations(token, config.azureDevOpsOrganization);
+    // An organization the token can't read (e.g. a tenant policy blocks it) shouldn't hide the others
+    const perOrganization = await Promise.allSettled(organizations.map(async organization =>
+      (await getAzureDevOpsProjects(organization, token)).map(p => ({ id: formatProjectRef(organization, p.name), name: p.name, group: organization }))
+    ));
+    const destinations = perOrganization.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+    if (destinations.length === 0) {
+      const failure = perOrganization.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) throw failure.reason;
+    }
+    return destinations;
+  },
+  createIssue: async (config, input) => {
+    const { organization, project } = parseProjectRef(input.destinationId);
+    const { areaPath, iterationPath, reproStepsHtml } = getAzureDevOpsOptions(input.extra);
+    const workItem = await createAzureDevOpsBug(config.azureDevOpsToken!, {
+      organization,
+      project,
+      title: input.title,
+      // The modal prebuilds Repro Steps as HTML; other callers send Markdown only
+      reproStepsHtml: reproStepsHtml || textToHtml(input.description),
+      areaPath,
+      iterationPath,
+      fields: input.fields
+    });
+    return {
+      id: formatWorkItemRef(organization, workItem.id),
+      url: workItem._links?.html?.href || workItemUrl(organization, project, workItem.id),
+      destinationId: input.destinationId
+    };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    const { organization, id } = parseWorkItemRef(issue.id);
+    await uploadAzureDevOpsAttachment(config.azureDevOpsToken!, organization, id, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    const { organization, id } = parseWorkItemRef(issue.id);
+    await updateAzureDevOpsReproSteps(config.azureDevOpsToken!, organization, id, update.description);
+  },
+  appendToIssue: async (config, issue, markdown) => {
+    const { organization, id } = parseWorkItemRef(issue.id);
+    await appendAzureDevOpsReproSteps(config.azureDevOpsToken!, organization, id, markdown);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    const { organization, project } = parseProjectRef(destination.id);
+    return fetchAzureDevOpsWorkItems(config.azureDevOpsToken!, organization, project);
+  },
+  fetchOpenIssues: (config, destination) => {
+    const { organization, project } = parseProjectRef(destination.id);
+    return fetchAzureDevOpsOpenBugs(config.azureDevOpsToken!, organization, project);
+  },
+  addComment: async (config, issue, markdown) => {
+    const { organization, id } = parseWorkItemRef(issue.id);
+    await addAzureDevOpsComment(config.azureDevOpsToken!, organization, id, markdown);
+  }
+};
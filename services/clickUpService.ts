@@ -1,6 +1,10 @@
 
-import { Slide, IntegrationConfig, ClickUpExportMode, ReportedIssue, ClickUpHierarchyList } from '../types';
+import { Slide, IntegrationConfig, ClickUpExportMode, ReportedIssue, ClickUpHierarchyList, BugReportFields, DuplicateCandidate, IssueTracker } from '../types';
 import { fetchWithProxy } from './proxyService';
+import { hasLogs, summarizeLogs } from './logService';
+import { getEnvironmentFields, getReportEnvironmentFields, formatEnvironmentMarkdown } from './environmentService';
+import { hasReportFields, formatReportFieldsMarkdown, toClickUpPriority } from './reportFieldsService';
+import { getNumberedAnnotations } from './annotationService';
 
 /**
  * Extracts a List ID from a ClickUp URL or validates a raw ID.
@@ -21,6 +25,7 @@ interface CreateTaskParams {
   title: string;
   description: string;
   parentId?: string; // For subtasks
+  fields?: BugReportFields; // Priority maps natively; labels and component become tags
 }
 
 // Helper to safely truncate strings
@@ -184,7 +189,7 @@ export const getAllClickUpLists = async (token: string): Promise<ClickUpHierarch
     }
 };
 
-export const createClickUpTask = async ({ listId, token, title, description, parentId }: CreateTaskParams) => {
+export const createClickUpTask = async ({ listId, token, title, description, parentId, fields }: CreateTaskParams) => {
   const url = `https://api.clickup.com/api/v2/list/${listId}/task`;
   
   // Format Title: "[BugSnap] Title"
@@ -197,9 +202,13 @@ export const createClickUpTask = async ({ listId, token, title, description, par
   const payload: any = {
     name: truncate(formattedTitle, 180), 
     description: truncate(formattedDescription, 5000), 
-    tags: ["BugSnap"] // Add Tag
+    tags: ["BugSnap", ...(fields?.component?.trim() ? [fields.component.trim()] : []), ...(fields?.labels || [])] // ClickUp has no components, so it rides along as a tag
   };
 
+  if (fields?.priority) {
+    payload.priority = toClickUpPriority(fields.priority);
+  }
+
   if (parentId) {
     payload.parent = parentId;
   }
@@ -299,33 +308,106 @@ export const uploadClickUpAttachment = async (taskId: string, token: string, fil
   }
 };
 
-export const generateTaskDescription = (slide: Slide): string => {
-  let desc = `## Observations\n\n`;
+// Bold, italic and links (images are linked); anything else stays as written
+const INLINE_MARKDOWN = /\*\*(.+?)\*\*|(?<!\w)_(.+?)_(?!\w)|!?\[([^\]]+)\]\((https?:[^)\s]+)\)/g;
+
+type ClickUpCommentBlock = { text: string; attributes: Record<string, unknown> };
+
+const inlineToClickUpBlocks = (line: string): ClickUpCommentBlock[] => {
+    const blocks: ClickUpCommentBlock[] = [];
+    let last = 0;
+    for (const match of line.matchAll(INLINE_MARKDOWN)) {
+        if (match.index! > last) blocks.push({ text: line.slice(last, match.index), attributes: {} });
+        if (match[1]) blocks.push({ text: match[1], attributes: { bold: true } });
+        else if (match[2]) blocks.push({ text: match[2], attributes: { italic: true } });
+        else blocks.push({ text: match[3], attributes: { link: match[4] } });
+        last = match.index! + match[0].length;
+    }
+    if (last < line.length) blocks.push({ text: line.slice(last), attributes: {} });
+    return blocks;
+};
+
+/**
+ * Converts Markdown to ClickUp's rich comment blocks.
+ * `comment_text` shows Markdown as typed; line formats (headings, bullets) ride on the newline that ends the line.
+ */
+const markdownToClickUpComment = (text: string): ClickUpCommentBlock[] => {
+    const blocks: ClickUpCommentBlock[] = [];
+    for (const line of text.split('\n')) {
+        const heading = line.match(/^#{1,6}\s+(.*)$/);
+        const item = line.match(/^\s*[-*]\s+(.*)$/);
+        if (/^\s*-{3,}\s*$/.test(line)) {
+            blocks.push({ text: '\n', attributes: {} });
+        } else if (heading) {
+            blocks.push(...inlineToClickUpBlocks(heading[1]), { text: '\n', attributes: { header: 3 } });
+        } else if (item) {
+            blocks.push(...inlineToClickUpBlocks(item[1]), { text: '\n', attributes: { list: { list: 'bullet' } } });
+        } else {
+            blocks.push(...inlineToClickUpBlocks(line), { text: '\n', attributes: {} });
+        }
+    }
+    return blocks;
+};
+
+export const addClickUpComment = async (taskId: string, token: string, text: string) => {
+    const response = await fetchWithProxy(`https://api.clickup.com/api/v2/task/${taskId}/comment`, {
+        method: 'POST',
+        headers: {
+            'Authorization': token,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ comment: markdownToClickUpComment(text), notify_all: false })
+    });
+
+    if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`ClickUp Comment Error: ${body}`);
+    }
+    return await response.json();
+};
+
+/**
+ * Markdown description for a single slide. Pass `includeEnvironment = false` when the
+ * destination renders the environment natively (Teams facts, Slack fields).
+ */
+export const generateTaskDescription = (slide: Slide, includeEnvironment: boolean = true): string => {
+  let desc = hasReportFields(slide.report) ? `${formatReportFieldsMarkdown(slide.report)}\n\n` : '';
+  desc += `## Observations\n\n`;
+  const annotations = getNumberedAnnotations(slide.annotations);
   
-  if (slide.annotations.length === 0) {
+  if (annotations.length === 0) {
     desc += `_No specific annotations provided._\n`;
   } else {
-    slide.annotations.forEach((ann, i) => {
+    annotations.forEach((ann, i) => {
       desc += `**${i + 1}.** ${ann.comment || 'No comment'}\n`;
     });
   }
 
   desc += `\n\n---\n`;
-  desc += `**Metadata**\n`;
-  desc += `Captured: ${new Date(slide.createdAt).toLocaleString()}\n`;
+  if (includeEnvironment) {
+    desc += `## Environment\n\n${formatEnvironmentMarkdown(getEnvironmentFields(slide))}\n\n`;
+  }
+  if (hasLogs(slide.logs)) {
+    const { errors, failedRequests } = summarizeLogs(slide.logs);
+    desc += `Logs: ${slide.logs.console.length} console entries (${errors} errors), ${slide.logs.network.length} requests (${failedRequests} failed), attached\n`;
+  }
   desc += `Source: BugSnap`;
   
   return desc;
 };
 
-export const generateMasterDescription = (slides: Slide[]): string => {
+export const generateMasterDescription = (slides: Slide[], includeEnvironment: boolean = true): string => {
   let desc = `# Bug Report Summary\n\n`;
   desc += `Total Slides: ${slides.length}\n\n`;
 
+  const report = slides.find(slide => hasReportFields(slide.report))?.report;
+  if (report) desc += `${formatReportFieldsMarkdown(report)}\n\n`;
+
   slides.forEach((slide, i) => {
       desc += `## Slide ${i + 1}: ${slide.name}\n`;
-      if (slide.annotations.length > 0) {
-          slide.annotations.forEach((ann, j) => {
+      const annotations = getNumberedAnnotations(slide.annotations);
+      if (annotations.length > 0) {
+          annotations.forEach((ann, j) => {
               desc += `- **Issue ${j + 1}:** ${ann.comment || 'No details'}\n`;
           });
       } else {
@@ -334,6 +416,11 @@ export const generateMasterDescription = (slides: Slide[]): string => {
       desc += `\n`;
   });
 
+  const environment = includeEnvironment ? getReportEnvironmentFields(slides) : null;
+  if (environment) {
+    desc += `## Environment\n\n${formatEnvironmentMarkdown(environment)}\n`;
+  }
+
   return desc;
 };
 
@@ -374,4 +461,58 @@ export const fetchClickUpTasks = async (listId: string, token: string, includeSu
     }
 };
 
+/** Open tasks in a list, with their plain-text descriptions, for duplicate detection */
+export const fetchClickUpOpenTasks = async (listId: string, token: string): Promise<DuplicateCandidate[]> => {
+    const response = await fetchWithProxy(`https://api.clickup.com/api/v2/list/${listId}/task?include_closed=false&subtasks=true&order_by=updated`, {
+        headers: { 'Authorization': token }
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        if (text.includes('corsdemo')) throw new Error('corsdemo_required');
+        throw new Error(`Failed to fetch ClickUp tasks: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.tasks || []).map((t: any) => ({
+        id: t.id,
+        title: t.name || '',
+        description: t.text_content || t.description || '',
+        status: t.status?.status || 'Open',
+        url: t.url
+    }));
+};
+
 const capitalize = (s: string) => s ? s.charAt(0).toUpperCase() + s.slice(1) : '';
+
+export const clickUpTracker: IssueTracker = {
+    source: 'ClickUp',
+    name: 'ClickUp',
+    order: 10,
+    dashboardScope: 'destination',
+    destinationLabel: 'List',
+    isConfigured: (config) => !!config.clickUpToken,
+    validate: async (config) => {
+        if (!config.clickUpToken) throw new Error("Personal Access Token is required.");
+        if (!await validateClickUpToken(config.clickUpToken)) throw new Error("Invalid Personal Access Token. Authentication failed.");
+    },
+    listDestinations: async (config) => {
+        const lists = await getAllClickUpLists(config.clickUpToken!);
+        return lists.map(list => ({ id: list.id, name: list.name, group: list.groupName }));
+    },
+    createIssue: async (config, input) => {
+        const task = await createClickUpTask({ listId: input.destinationId, token: config.clickUpToken!, title: input.title, description: input.description, parentId: input.parentId, fields: input.fields });
+        return { id: task.id, url: task.url, destinationId: input.destinationId };
+    },
+    uploadAttachment: async (config, issue, file, filename) => {
+        await uploadClickUpAttachment(issue.id, config.clickUpToken!, file, filename);
+    },
+    updateIssue: async (config, issue, update) => {
+        await updateClickUpTask(issue.id, config.clickUpToken!, update);
+    },
+    fetchIssues: (config, destination) => fetchClickUpTasks(destination?.id || config.clickUpListId || '', config.clickUpToken!),
+    fetchOpenIssues: (config, destination) => fetchClickUpOpenTasks(destination.id, config.clickUpToken!),
+    addComment: async (config, issue, markdown) => {
+        await addClickUpComment(issue.id, config.clickUpToken!, markdown);
+    }
+};
@@ -0,0 +1,83 @@
+
+import { Slide } from '../types';
+import { getNumberedAnnotations, isRedaction, isAnnotationVisibleAt, drawAnnotationShape, drawRedaction, getBadgePosition } from './annotationService';
+import { encodeGif } from './gifService';
+import { loadVideo, seekVideo } from './mediaService';
+
+export interface ClipOptions {
+  start: number; // Seconds
+  end: number;
+  fps?: number;
+  maxWidth?: number;
+}
+
+const DEFAULT_FPS = 10;
+const DEFAULT_MAX_WIDTH = 640;
+const ESTIMATED_DISPLAY_HEIGHT = 800;
+export const MAX_CLIP_DURATION = 15; // Seconds; GIFs grow quickly past this
+
+/**
+ * Render a segment of a video slide as an animated GIF with redactions and
+ * observations burned in, each shown only while its time range covers the frame.
+ */
+export const createAnnotatedGif = async (slide: Slide, options: ClipOptions, onProgress?: (progress: number) => void): Promise<Blob> => {
+  if (slide.type !== 'video') throw new Error("Only video slides can be exported as clips.");
+  const fps = options.fps || DEFAULT_FPS;
+  const video = await loadVideo(slide.src);
+  const duration = Number.isFinite(video.duration) ? video.duration : Infinity;
+  const end = Math.min(options.end, options.start + MAX_CLIP_DURATION, duration);
+  if (end <= options.start) throw new Error("Clip range is empty.");
+  const naturalWidth = video.videoWidth;
+  const naturalHeight = video.videoHeight;
+  if (!naturalWidth || !naturalHeight) throw new Error("Video has no dimensions.");
+
+  const renderWidth = Math.min(naturalWidth, options.maxWidth || DEFAULT_MAX_WIDTH);
+  const renderHeight = Math.round(naturalHeight * (renderWidth / naturalWidth));
+  const displayWidth = slide.displayWidth || naturalWidth * (ESTIMATED_DISPLAY_HEIGHT / naturalHeight);
+  const scale = renderWidth / displayWidth;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = renderWidth;
+  canvas.height = renderHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas creation failed");
+
+  const redactions = slide.annotations.filter(isRedaction);
+  const numbered = getNumberedAnnotations(slide.annotations);
+  const badgeRadius = Math.max(8, 12 * scale);
+
+  const frameCount = Math.max(1, Math.round((end - options.start) * fps));
+  const frames: ImageData[] = [];
+  try {
+    for (let f = 0; f < frameCount; f++) {
+      const time = options.start + f / fps;
+      await seekVideo(video, time);
+      ctx.drawImage(video, 0, 0, renderWidth, renderHeight);
+      redactions.forEach(ann => { if (isAnnotationVisibleAt(ann, time)) drawRedaction(ctx, ann, scale); });
+
+      numbered.forEach((ann, i) => {
+        if (!isAnnotationVisibleAt(ann, time)) return;
+        ctx.lineWidth = Math.max(1.5, 3 * scale);
+        drawAnnotationShape(ctx, ann, scale);
+
+        const badge = getBadgePosition(ann);
+        ctx.beginPath();
+        ctx.arc(badge.x * scale, badge.y * scale, badgeRadius, 0, 2 * Math.PI);
+        ctx.fillStyle = ann.color;
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.font = `bold ${Math.round(badgeRadius * 1.1)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(i + 1), badge.x * scale, badge.y * scale);
+      });
+
+      frames.push(ctx.getImageData(0, 0, renderWidth, renderHeight));
+      onProgress?.((f + 1) / frameCount);
+    }
+  } finally {
+    video.removeAttribute('src');
+  }
+
+  return encodeGif(frames, 1000 / fps);
+};
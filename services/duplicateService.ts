@@ -0,0 +1,115 @@
+
+import { DuplicateCandidate, DuplicateMatch } from '../types';
+import { embedTexts } from './geminiService';
+
+// Matches below this are noise: shared words like "page" or "button" only
+const MIN_SCORE = 0.35;
+const MAX_MATCHES = 5;
+
+// Embedding similarity of unrelated bug reports rarely drops below this; rescale so the two scores are comparable
+const SEMANTIC_FLOOR = 0.6;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was', 'were', 'has', 'have', 'had',
+  'this', 'that', 'with', 'from', 'when', 'then', 'than', 'into', 'onto', 'after', 'before', 'while', 'there',
+  'should', 'would', 'could', 'does', 'doesn', 'did', 'didn', 'isn', 'its', 'it\'s', 'been', 'being', 'also',
+  'bug', 'issue', 'report', 'slide', 'screenshot', 'bugsnap'
+]);
+
+const embeddingCache = new Map<string, number[]>();
+
+/** Drop the scaffolding every BugSnap export shares (headings, environment table, footer) so it can't make reports look alike */
+const stripBoilerplate = (text: string) => text
+  .split('\n')
+  .filter(line => !/^\s*(#|\||---|Source:|Logs:|Total Slides:)/.test(line))
+  .join(' ');
+
+const tokenize = (text: string) => stripBoilerplate(text)
+  .toLowerCase()
+  .replace(/[^a-z0-9\s']/g, ' ')
+  .split(/\s+/)
+  .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  // Crude stemming is enough to match "crashes" with "crashing"
+  .map(word => word.length > 5 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+
+const termVector = (text: string) => {
+  const vector = new Map<string, number>();
+  tokenize(text).forEach(term => vector.set(term, (vector.get(term) || 0) + 1));
+  return vector;
+};
+
+const termCosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let dot = 0;
+  a.forEach((count, term) => { dot += count * (b.get(term) || 0); });
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+};
+
+const denseCosine = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/** Word-overlap similarity; titles weigh most since tracker descriptions are often empty */
+export const textSimilarity = (report: { title: string; description: string }, candidate: DuplicateCandidate) => {
+  const titleScore = termCosine(termVector(report.title), termVector(candidate.title));
+  const bodyScore = termCosine(termVector(`${report.title}\n${report.description}`), termVector(`${candidate.title}\n${candidate.description}`));
+  return 0.6 * titleScore + 0.4 * bodyScore;
+};
+
+const getEmbeddings = async (texts: string[]): Promise<number[][] | null> => {
+  const missing = [...new Set(texts.filter(text => !embeddingCache.has(text)))];
+  if (missing.length > 0) {
+    const vectors = await embedTexts(missing);
+    if (!vectors) return null;
+    missing.forEach((text, i) => embeddingCache.set(text, vectors[i]));
+  }
+  return texts.map(text => embeddingCache.get(text)!);
+};
+
+/**
+ * Rank a destination's open issues by similarity to the report about to be filed.
+ * With `semantic` on, Gemini embeddings catch reworded duplicates that share few words;
+ * without an API key it quietly stays lexical.
+ */
+export const findDuplicates = async (
+  report: { title: string; description: string },
+  candidates: DuplicateCandidate[],
+  semantic: boolean = false
+): Promise<DuplicateMatch[]> => {
+  if (!report.title.trim() || candidates.length === 0) return [];
+
+  const scores = candidates.map(candidate => textSimilarity(report, candidate));
+
+  if (semantic) {
+    // Descriptions are truncated: the opening lines carry the meaning and long bodies slow embedding down
+    const toText = (title: string, description: string) => `${title}\n${stripBoilerplate(description).slice(0, 1000)}`;
+    const vectors = await getEmbeddings([toText(report.title, report.description), ...candidates.map(c => toText(c.title, c.description))]);
+    if (vectors) {
+      const [query, ...rest] = vectors;
+      rest.forEach((vector, i) => {
+        const semanticScore = Math.max(0, (denseCosine(query, vector) - SEMANTIC_FLOOR) / (1 - SEMANTIC_FLOOR));
+        scores[i] = Math.max(scores[i], semanticScore);
+      });
+    }
+  }
+
+  return candidates
+    .map((candidate, i) => ({ ...candidate, score: scores[i] }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+};
+
+/** Comment posted on the existing issue when a report is added to it instead of filed */
+export const formatDuplicateComment = (title: string, description: string, attachmentCount: number) => [
+  `**Reported again via BugSnap:** ${title.trim()}`,
+  description.trim(),
+  attachmentCount > 0 ? `_${attachmentCount} screenshot${attachmentCount === 1 ? '' : 's'} attached to this issue._` : ''
+].filter(Boolean).join('\n\n');
@@ -0,0 +1,145 @@
+
+import { CaptureSource, EnvironmentInfo, Slide } from '../types';
+
+export interface EnvironmentField {
+  label: string;
+  value: string;
+}
+
+const CAPTURE_SOURCE_LABELS: Record<CaptureSource, string> = {
+  browser: 'Browser tab',
+  window: 'Window',
+  monitor: 'Entire screen',
+  file: 'Uploaded file'
+};
+
+const getAppVersion = () => {
+  // Replaced with a string literal by the bundler; guarded like the API key lookup in geminiService
+  try {
+    // @ts-ignore
+    if (process.env.APP_VERSION) return process.env.APP_VERSION as string;
+  } catch (e) {
+    // process is not defined, ignore
+  }
+  return 'dev';
+};
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSER_PATTERNS: [string, RegExp][] = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /OPR\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari/]
+];
+
+const parseBrowser = (ua: string) => {
+  for (const [name, pattern] of BROWSER_PATTERNS) {
+    const match = ua.match(pattern);
+    if (match) return `${name} ${match[1].split('.')[0]}`;
+  }
+  return 'Unknown browser';
+};
+
+const parseOs = (ua: string) => {
+  const windows = ua.match(/Windows NT ([\d.]+)/);
+  if (windows) return windows[1] === '10.0' ? 'Windows 10/11' : `Windows NT ${windows[1]}`;
+  const ios = ua.match(/(?:iPhone|iPad|iPod).*OS (\d+[_\d]*)/);
+  if (ios) return `iOS ${ios[1].replace(/_/g, '.')}`;
+  const mac = ua.match(/Mac OS X (\d+[_.\d]*)/);
+  if (mac) return `macOS ${mac[1].replace(/_/g, '.')}`;
+  const android = ua.match(/Android ([\d.]+)/);
+  if (android) return `Android ${android[1]}`;
+  if (/CrOS/.test(ua)) return 'ChromeOS';
+  if (/Linux/.test(ua)) return 'Linux';
+  return 'Unknown OS';
+};
+
+/**
+ * Snapshot the reporter's browser and device. Pass the screen-share stream a
+ * frame was taken from to also record what was shared and at which resolution.
+ */
+export const captureEnvironment = (source?: MediaStream | 'file' | null): EnvironmentInfo => {
+  const ua = navigator.userAgent;
+  const env: EnvironmentInfo = {
+    browser: parseBrowser(ua),
+    os: parseOs(ua),
+    userAgent: ua,
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    devicePixelRatio: window.devicePixelRatio || 1,
+    locale: navigator.language,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    appVersion: getAppVersion()
+  };
+
+  if (source === 'file') {
+    env.captureSource = 'file';
+  } else if (source) {
+    const settings = source.getVideoTracks()[0]?.getSettings() as MediaTrackSettings & { displaySurface?: string } | undefined;
+    if (settings?.displaySurface && settings.displaySurface in CAPTURE_SOURCE_LABELS) env.captureSource = settings.displaySurface as CaptureSource;
+    env.captureWidth = settings?.width;
+    env.captureHeight = settings?.height;
+  }
+  return env;
+};
+
+const formatOffset = (timezone: string) => {
+  try {
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'shortOffset' })
+      .formatToParts(new Date())
+      .find(part => part.type === 'timeZoneName')?.value;
+    return offset ? `${timezone} (${offset})` : timezone;
+  } catch (e) {
+    return timezone;
+  }
+};
+
+/** Label/value rows every exporter renders, in a fixed order; rows without a value are left out */
+export const getEnvironmentFields = (slide: Slide): EnvironmentField[] => {
+  const env = slide.environment;
+  const pageUrl = env?.pageUrl || slide.logs?.pageUrl;
+  const fields: (EnvironmentField | null)[] = [
+    { label: 'Captured', value: new Date(slide.createdAt).toLocaleString() },
+    env ? { label: 'Browser', value: env.browser } : null,
+    env ? { label: 'OS', value: env.os } : null,
+    env ? { label: 'Viewport', value: `${env.viewportWidth}×${env.viewportHeight} @${env.devicePixelRatio}x` } : null,
+    env ? { label: 'Screen', value: `${env.screenWidth}×${env.screenHeight}` } : null,
+    env?.captureSource ? {
+      label: 'Captured from',
+      value: CAPTURE_SOURCE_LABELS[env.captureSource] + (env.captureWidth && env.captureHeight ? ` (${env.captureWidth}×${env.captureHeight})` : '')
+    } : null,
+    pageUrl ? { label: 'Page URL', value: pageUrl } : null,
+    env?.pageTitle ? { label: 'Page title', value: env.pageTitle } : null,
+    env ? { label: 'Locale', value: env.locale } : null,
+    env ? { label: 'Timezone', value: formatOffset(env.timezone) } : null,
+    env ? { label: 'BugSnap version', value: env.appVersion } : null
+  ];
+  return fields.filter((field): field is EnvironmentField => field !== null);
+};
+
+/** Slides in one report are almost always captured on the same machine, so one table covers them */
+export const getReportEnvironmentFields = (slides: Slide[]): EnvironmentField[] | null => {
+  const captured = slides.find(slide => slide.environment);
+  return captured ? getEnvironmentFields(captured) : null;
+};
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/** Markdown table, used by ClickUp, Jira (converted to ADF), Asana, Trello, Zoho and the HTML report */
+export const formatEnvironmentMarkdown = (fields: EnvironmentField[]) =>
+  ['| Field | Value |', '| --- | --- |', ...fields.map(f => `| ${escapeCell(f.label)} | ${escapeCell(f.value)} |`)].join('\n');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** HTML table, for trackers whose rich-text fields store HTML (Azure DevOps) */
+export const formatEnvironmentHtml = (fields: EnvironmentField[]) =>
+  `<table>${fields.map(f => `<tr><td><b>${escapeHtml(f.label)}</b></td><td>${escapeHtml(f.value)}</td></tr>`).join('')}</table>`;
+
+/** Slack has no tables; one bold label per line reads closest to one */
+export const formatEnvironmentMrkdwn = (fields: EnvironmentField[]) =>
+  fields.map(f => `*${f.label}:* ${f.value}`).join('\n');
@@ -0,0 +1,28 @@
+
+import { ReportedIssue } from '../types';
+
+/**
+ * Forge Service
+ * Helpers shared by the GitHub and GitLab services, whose issue APIs work alike.
+ */
+
+/** Error text from a JSON error body (`message`, or GitLab's `error`), else the fallback with the status */
+export const getForgeErrorMessage = async (response: Response, platform: string, fallback: string) => {
+  try {
+    const data = await response.json();
+    const message = data.message || data.error;
+    if (message) return `${platform}: ${typeof message === 'string' ? message : JSON.stringify(message)}`;
+  } catch (e) {
+    // Not JSON
+  }
+  return `${fallback} (${response.status})`;
+};
+
+/** Neither has a priority field, so priority is read from conventional label names */
+export const mapLabelPriority = (labels: string[]): ReportedIssue['priority'] => {
+  const names = labels.join(' ').toLowerCase();
+  if (/urgent|critical|blocker|p0|p1/.test(names)) return 'Urgent';
+  if (/high|p2/.test(names)) return 'High';
+  if (/low|p4|trivial/.test(names)) return 'Low';
+  return 'Normal';
+};
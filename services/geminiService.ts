@@ -1,5 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { getNumberedAnnotations } from './annotationService';
+import { detectSecretsLocally } from './piiService';
 
 // Helper to safely get the API Key in both Dev and Prod (Browser) environments
 const getApiKey = (): string | undefined => {
@@ -67,6 +69,8 @@ export const refineBugReport = async (rawText: string, context: string = "genera
   }
 };
 
+export const isGeminiConfigured = (): boolean => !!getApiKey();
+
 export const generateMarkdownReport = async (slideTitle: string, annotations: any[]): Promise<string> => {
   const apiKey = getApiKey();
   if (!apiKey) return "";
@@ -99,8 +103,10 @@ export const generateMarkdownReport = async (slideTitle: string, annotations: an
 
 export const generateAIReportMetadata = async (
   slideName: string, 
-  annotations: any[]
+  allAnnotations: any[]
 ): Promise<{ title: string, description: string }> => {
+  // Redacted regions carry no observation text
+  const annotations = getNumberedAnnotations(allAnnotations || []);
   const apiKey = getApiKey();
   if (!apiKey) {
     console.warn("Gemini API Key missing. Returning default metadata.");
@@ -239,3 +245,288 @@ export const scanImageForIssues = async (base64Image: string): Promise<DetectedI
         return [];
     }
 };
+
+export type SecretCategory = 'email' | 'phone' | 'credit_card' | 'api_key' | 'name';
+
+export interface DetectedSecret {
+    coordinates: number[]; // [ymin, xmin, ymax, xmax] 0-1000
+    category: SecretCategory;
+}
+
+/**
+ * Find personal data and credentials in a screenshot so they can be redacted.
+ * Falls back to on-device OCR + pattern matching when Gemini is unavailable.
+ */
+export const scanImageForSecrets = async (base64Image: string): Promise<DetectedSecret[]> => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      console.warn("Gemini API Key missing. Using local secret detection.");
+      return detectSecretsLocally(base64Image);
+    }
+
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        const modelId = 'gemini-2.5-flash';
+        const pureBase64 = base64Image.split(',')[1] || base64Image;
+
+        const prompt = `
+            Find every piece of sensitive information visible in this screenshot that should be hidden before sharing it:
+            email addresses, phone numbers, credit card numbers, API keys / access tokens / passwords, and people's names.
+
+            Return a JSON object containing a list of findings.
+            For each finding, strictly provide:
+            1. 'coordinates': A tight bounding box [ymin, xmin, ymax, xmax] normalized to a 1000x1000 scale.
+            2. 'category': One of "email", "phone", "credit_card", "api_key", "name".
+
+            Do not include the sensitive text itself. If nothing is found, return an empty list.
+        `;
+
+        const response = await ai.models.generateContent({
+            model: modelId,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: 'image/png', data: pureBase64 } },
+                    { text: prompt }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        findings: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    coordinates: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+                                    category: { type: Type.STRING, enum: ['email', 'phone', 'credit_card', 'api_key', 'name'] }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+
+        const text = response.text;
+        if (!text) return [];
+
+        const json = JSON.parse(text);
+        return json.findings || [];
+
+    } catch (error) {
+        console.error("AI Secret Scan failed, using local detection:", error);
+        return detectSecretsLocally(base64Image);
+    }
+};
+
+export interface NarrationSegment {
+    start: number; // Seconds from the start of the recording
+    end: number;
+    text: string;
+}
+
+// Inline request payloads are capped at 20MB; leave room for the base64 overhead and prompt
+const MAX_INLINE_MEDIA_BYTES = 14 * 1024 * 1024;
+
+/**
+ * Transcribe the narration in a recording into timed segments, one per spoken
+ * observation. Accepts an audio or video data URL.
+ */
+export const transcribeNarration = async (mediaDataUrl: string): Promise<NarrationSegment[]> => {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new Error("Transcription needs a Gemini API key.");
+
+    const [header, data] = mediaDataUrl.split(',');
+    const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'audio/webm';
+    if (data.length * 0.75 > MAX_INLINE_MEDIA_BYTES) {
+        throw new Error("Recording is too long to transcribe. Trim it first.");
+    }
+
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        const modelId = 'gemini-2.5-flash';
+
+        const prompt = `
+            This is a QA tester narrating a bug reproduction while recording their screen.
+            Transcribe what they say, split into short segments at natural pauses or topic changes.
+
+            Return a JSON object containing a list of segments.
+            For each segment, strictly provide:
+            1. 'start': When the segment begins, in seconds from the start of the recording.
+            2. 'end': When it ends, in seconds.
+            3. 'text': The spoken words, cleaned of filler words ("um", "uh").
+
+            Skip silence and background sound. If nobody speaks, return an empty list.
+        `;
+
+        const response = await ai.models.generateContent({
+            model: modelId,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType, data } },
+                    { text: prompt }
+                ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        segments: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    start: { type: Type.NUMBER },
+                                    end: { type: Type.NUMBER },
+                                    text: { type: Type.STRING }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+
+        const text = response.text;
+        if (!text) return [];
+
+        const json = JSON.parse(text);
+        const segments: NarrationSegment[] = json.segments || [];
+        return segments.filter(s => typeof s.start === 'number' && s.text && s.text.trim());
+
+    } catch (error) {
+        console.error("Narration transcription failed:", error);
+        throw new Error("Transcription failed. Please try again.");
+    }
+};
+
+export interface ReproSlideInput {
+    name: string;
+    image: string; // JPEG data URL of the slide with its annotations drawn in
+    observations: string[];
+}
+
+export interface ReproDraft {
+    title: string;
+    steps: string[];
+    expected: string;
+    actual: string;
+    suspectedArea: string;
+}
+
+// Keeps the request fast; long sessions are usually a few key frames plus repeats
+const MAX_REPRO_SLIDES = 12;
+
+/**
+ * Draft steps to reproduce from a whole session. Slides are passed in capture
+ * order so the model can follow the user's path through the product.
+ */
+export const draftReproSteps = async (slides: ReproSlideInput[]): Promise<ReproDraft> => {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new Error("Drafting repro steps needs a Gemini API key.");
+    if (slides.length === 0) throw new Error("Add a slide first.");
+
+    // Text always goes in; images only while they fit the inline payload
+    let budget = MAX_INLINE_MEDIA_BYTES;
+    const parts: ({ text: string } | { inlineData: { mimeType: string; data: string } })[] = [];
+    slides.slice(0, MAX_REPRO_SLIDES).forEach((slide, i) => {
+        const data = slide.image.split(',')[1] || '';
+        if (data && data.length * 0.75 <= budget) {
+            budget -= data.length * 0.75;
+            parts.push({ inlineData: { mimeType: 'image/jpeg', data } });
+        }
+        const observations = slide.observations.length > 0
+            ? slide.observations.map((o, n) => `  ${n + 1}. ${o}`).join('\n')
+            : '  (no comments)';
+        parts.push({ text: `Slide ${i + 1}: ${slide.name}\nObservations:\n${observations}` });
+    });
+
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        const modelId = 'gemini-2.5-flash';
+
+        const prompt = `
+            You are an expert QA Lead. The screenshots above were captured in order while a tester reproduced a bug.
+            Each one is followed by the tester's numbered observations, which match the numbered markers drawn on it.
+
+            Write a bug report a developer can follow without seeing the session:
+            1. 'title': Short, descriptive summary of the bug (max 60 chars).
+            2. 'steps': Numbered steps to reproduce, as concise imperative sentences ("Open the cart", "Apply coupon SAVE10").
+               Infer the navigation between screenshots from what changes on screen. Do not number the strings yourself.
+            3. 'expected': What should have happened.
+            4. 'actual': What happened instead, citing visible error text where there is any.
+            5. 'suspectedArea': The part of the product or code most likely at fault (e.g. "Checkout - coupon validation").
+
+            Only describe what the screenshots and observations support. Return JSON.
+        `;
+
+        const response = await ai.models.generateContent({
+            model: modelId,
+            contents: { parts: [...parts, { text: prompt }] },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING },
+                        steps: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        expected: { type: Type.STRING },
+                        actual: { type: Type.STRING },
+                        suspectedArea: { type: Type.STRING }
+                    },
+                    required: ["title", "steps", "expected", "actual", "suspectedArea"]
+                }
+            }
+        });
+
+        const text = response.text;
+        if (!text) throw new Error("Empty response");
+
+        const json = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+        return {
+            title: json.title || '',
+            // Strip numbering the model adds anyway; the exporters number the list themselves
+            steps: (json.steps || []).map((s: string) => s.replace(/^\s*\d+[.)]\s*/, '').trim()).filter(Boolean),
+            expected: json.expected || '',
+            actual: json.actual || '',
+            suspectedArea: json.suspectedArea || ''
+        };
+
+    } catch (error) {
+        console.error("Repro step drafting failed:", error);
+        throw new Error("Drafting repro steps failed. Please try again.");
+    }
+};
+
+// The embedding endpoint takes at most this many texts per request
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Embed texts for semantic comparison. Returns null when Gemini is unavailable so
+ * callers can fall back to lexical matching.
+ */
+export const embedTexts = async (texts: string[]): Promise<number[][] | null> => {
+    const apiKey = getApiKey();
+    if (!apiKey || texts.length === 0) return null;
+
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+            const response = await ai.models.embedContent({
+                model: 'gemini-embedding-001',
+                contents: texts.slice(i, i + EMBED_BATCH_SIZE),
+                config: { taskType: 'SEMANTIC_SIMILARITY' }
+            });
+            vectors.push(...(response.embeddings || []).map(e => e.values || []));
+        }
+        return vectors.length === texts.length ? vectors : null;
+
+    } catch (error) {
+        console.error("Embedding failed:", error);
+        return null;
+    }
+};
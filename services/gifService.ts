@@ -0,0 +1,190 @@
+
+// Minimal animated GIF89a encoder: one shared 256-colour palette, LZW-compressed frames, looping forever
+
+const MAX_CODE = 4096;
+const MIN_CODE_SIZE = 8;
+const PALETTE_SIZE = 256;
+
+interface ByteWriter {
+  byte: (value: number) => void;
+  word: (value: number) => void;
+  bytes: (values: ArrayLike<number>) => void;
+  result: () => Uint8Array;
+}
+
+const createWriter = (initialSize: number): ByteWriter => {
+  let buffer = new Uint8Array(initialSize);
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    const next = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  };
+  return {
+    byte: (value) => { ensure(1); buffer[length++] = value & 0xff; },
+    word: (value) => { ensure(2); buffer[length++] = value & 0xff; buffer[length++] = (value >> 8) & 0xff; },
+    bytes: (values) => { ensure(values.length); buffer.set(values, length); length += values.length; },
+    result: () => buffer.slice(0, length)
+  };
+};
+
+// Colours are bucketed at 5 bits per channel; screen recordings have few distinct colours
+const colorKey = (data: Uint8ClampedArray, i: number) => ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+
+/** Popularity palette: the 256 most common colour buckets across (a sample of) all frames */
+const buildPalette = (frames: Uint8ClampedArray[]) => {
+  const counts = new Uint32Array(1 << 15);
+  const sums = new Float64Array((1 << 15) * 3);
+  for (const data of frames) {
+    for (let i = 0; i < data.length; i += 16) {
+      const key = colorKey(data, i);
+      counts[key]++;
+      sums[key * 3] += data[i];
+      sums[key * 3 + 1] += data[i + 1];
+      sums[key * 3 + 2] += data[i + 2];
+    }
+  }
+
+  const keys: number[] = [];
+  counts.forEach((count, key) => { if (count > 0) keys.push(key); });
+  keys.sort((a, b) => counts[b] - counts[a]);
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const used = Math.min(PALETTE_SIZE, keys.length);
+  for (let p = 0; p < used; p++) {
+    const key = keys[p];
+    palette[p * 3] = Math.round(sums[key * 3] / counts[key]);
+    palette[p * 3 + 1] = Math.round(sums[key * 3 + 1] / counts[key]);
+    palette[p * 3 + 2] = Math.round(sums[key * 3 + 2] / counts[key]);
+  }
+  return { palette, used };
+};
+
+const createColorMapper = (palette: Uint8Array, used: number) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (data: Uint8ClampedArray, i: number) => {
+    const key = colorKey(data, i);
+    if (cache[key] >= 0) return cache[key];
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let p = 0; p < used; p++) {
+      const dr = palette[p * 3] - r, dg = palette[p * 3 + 1] - g, db = palette[p * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) { bestDistance = distance; best = p; }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+/** LZW-compress palette indices into GIF data sub-blocks */
+const writeImageData = (writer: ByteWriter, indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let table = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const flushByte = (value: number) => {
+    block[blockLength++] = value;
+    if (blockLength === 255) {
+      writer.byte(255);
+      writer.bytes(block);
+      blockLength = 0;
+    }
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      flushByte(bits & 0xff);
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (current << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      current = existing;
+      continue;
+    }
+    emit(current);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = k;
+  }
+  emit(current);
+  emit(endCode);
+  if (bitCount > 0) flushByte(bits & 0xff);
+  if (blockLength > 0) {
+    writer.byte(blockLength);
+    writer.bytes(block.subarray(0, blockLength));
+  }
+  writer.byte(0);
+};
+
+/**
+ * Encode RGBA frames of equal size into a looping GIF. `delay` is the time each
+ * frame stays on screen, in milliseconds (GIF stores hundredths of a second).
+ */
+export const encodeGif = (frames: ImageData[], delay: number): Blob => {
+  if (frames.length === 0) throw new Error("No frames to encode.");
+  const { width, height } = frames[0];
+  const { palette, used } = buildPalette(frames.map(f => f.data));
+  const mapColor = createColorMapper(palette, used);
+
+  const writer = createWriter(width * height * frames.length / 4 + 1024);
+  writer.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  writer.word(width);
+  writer.word(height);
+  writer.byte(0xf7); // Global colour table, 8 bits per primary, 256 entries
+  writer.byte(0);
+  writer.byte(0);
+  writer.bytes(palette);
+
+  // NETSCAPE2.0 application extension: loop forever
+  writer.bytes([0x21, 0xff, 0x0b]);
+  writer.bytes(Array.from('NETSCAPE2.0', c => c.charCodeAt(0)));
+  writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const centiseconds = Math.max(2, Math.round(delay / 10));
+  const indices = new Uint8Array(width * height);
+  for (const frame of frames) {
+    if (frame.width !== width || frame.height !== height) throw new Error("All GIF frames must be the same size.");
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) indices[p] = mapColor(frame.data, i);
+
+    writer.bytes([0x21, 0xf9, 0x04, 0x04]); // Graphic control: keep the previous frame underneath
+    writer.word(centiseconds);
+    writer.bytes([0x00, 0x00]);
+
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0);
+    writeImageData(writer, indices);
+  }
+  writer.byte(0x3b);
+
+  return new Blob([writer.result() as BlobPart], { type: 'image/gif' });
+};
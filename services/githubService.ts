@@ -0,0 +1,327 @@
+
+import { GitHubRepo, GitHubLabel, GitHubUser, GitHubMilestone, ReportedIssue, DuplicateCandidate, IssueTracker, IntegrationConfig, TrackerIssue } from '../types';
+import { readFileAsDataURL } from './mediaService';
+import { uploadToDrive } from './googleDriveService';
+import { getForgeErrorMessage, mapLabelPriority } from './forgeService';
+
+/**
+ * GitHub Service
+ * Interacts with the GitHub REST API. It allows CORS, so requests go direct rather than through the proxy
+ * (which would also hand the token to a third party).
+ */
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+// Issues have no attachment API; screenshots are committed to this branch and linked from the issue
+export const GITHUB_ASSET_BRANCH = 'bugsnap-assets';
+
+const getHeaders = (token: string) => ({
+  'Authorization': `Bearer ${token}`,
+  'Accept': 'application/vnd.github+json',
+  'X-GitHub-Api-Version': '2022-11-28'
+});
+
+const githubFetch = async (token: string, path: string, init: RequestInit = {}) => {
+  return fetch(`${GITHUB_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      ...getHeaders(token),
+      ...(init.body ? { 'Content-Type': 'application/json' } : {})
+    }
+  });
+};
+
+const getErrorMessage = (response: Response, fallback: string) => getForgeErrorMessage(response, 'GitHub', fallback);
+
+/** "owner/name#12" is how GitHub itself cross-references issues; it carries the repo every API call needs */
+export const formatGitHubIssueRef = (repo: string, issueNumber: number | string) => `${repo}#${issueNumber}`;
+
+export const parseGitHubIssueRef = (ref: string) => {
+  const [repo, issueNumber] = ref.split('#');
+  if (!repo || !issueNumber) throw new Error(`Invalid GitHub issue reference: ${ref}`);
+  return { repo, issueNumber };
+};
+
+/**
+ * Validates a personal access token by fetching the authenticated user.
+ */
+export const validateGitHubToken = async (token: string): Promise<boolean> => {
+  try {
+    const response = await githubFetch(token, '/user');
+    return response.ok;
+  } catch (error) {
+    console.error("GitHub Validation Failed:", error);
+    return false;
+  }
+};
+
+/**
+ * Repositories the user can file issues in, most recently pushed first.
+ */
+export const getGitHubRepos = async (token: string): Promise<GitHubRepo[]> => {
+  const response = await githubFetch(token, '/user/repos?per_page=100&sort=pushed&affiliation=owner,collaborator,organization_member');
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch repositories"));
+
+  const data = await response.json();
+  return data
+    .filter((r: any) => r.has_issues && !r.archived)
+    .map((r: any) => ({ id: String(r.id), fullName: r.full_name, isPrivate: r.private }));
+};
+
+export const getGitHubLabels = async (token: string, repo: string): Promise<GitHubLabel[]> => {
+  const response = await githubFetch(token, `/repos/${repo}/labels?per_page=100`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch labels"));
+
+  const data = await response.json();
+  return data.map((l: any) => ({ name: l.name, color: l.color }));
+};
+
+/** Users who can be assigned issues in the repo */
+export const getGitHubAssignees = async (token: string, repo: string): Promise<GitHubUser[]> => {
+  const response = await githubFetch(token, `/repos/${repo}/assignees?per_page=100`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch assignees"));
+
+  const data = await response.json();
+  return data.map((u: any) => ({ login: u.login, avatarUrl: u.avatar_url }));
+};
+
+export const getGitHubMilestones = async (token: string, repo: string): Promise<GitHubMilestone[]> => {
+  const response = await githubFetch(token, `/repos/${repo}/milestones?state=open&per_page=100`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch milestones"));
+
+  const data = await response.json();
+  return data.map((m: any) => ({ number: m.number, title: m.title }));
+};
+
+interface CreateGitHubIssueParams {
+  repo: string;
+  title: string;
+  body: string;
+  labels?: string[];
+  assignees?: string[];
+  milestone?: number;
+}
+
+/**
+ * Create an issue. Labels that don't exist yet are created by GitHub.
+ */
+export const createGitHubIssue = async (token: string, params: CreateGitHubIssueParams) => {
+  const response = await githubFetch(token, `/repos/${params.repo}/issues`, {
+    method: 'POST',
+    body: JSON.stringify({
+      title: params.title,
+      body: params.body,
+      labels: params.labels && params.labels.length > 0 ? params.labels : undefined,
+      assignees: params.assignees && params.assignees.length > 0 ? params.assignees : undefined,
+      milestone: params.milestone
+    })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitHub Issue Creation Failed"));
+  return await response.json();
+};
+
+export const getGitHubIssueBody = async (token: string, repo: string, issueNumber: string): Promise<string> => {
+  const response = await githubFetch(token, `/repos/${repo}/issues/${issueNumber}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitHub issue"));
+  const data = await response.json();
+  return data.body || '';
+};
+
+export const updateGitHubIssue = async (token: string, repo: string, issueNumber: string, body: string) => {
+  const response = await githubFetch(token, `/repos/${repo}/issues/${issueNumber}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitHub Update Failed"));
+  return await response.json();
+};
+
+export const addGitHubComment = async (token: string, repo: string, issueNumber: string, body: string) => {
+  const response = await githubFetch(token, `/repos/${repo}/issues/${issueNumber}/comments`, {
+    method: 'POST',
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitHub Comment Failed"));
+  return await response.json();
+};
+
+/** Create the asset branch from the default branch's head the first time it's needed */
+const ensureAssetBranch = async (token: string, repo: string) => {
+  const existing = await githubFetch(token, `/repos/${repo}/git/ref/heads/${GITHUB_ASSET_BRANCH}`);
+  if (existing.ok) return;
+  if (existing.status !== 404) throw new Error(await getErrorMessage(existing, "Failed to check asset branch"));
+
+  const repoResponse = await githubFetch(token, `/repos/${repo}`);
+  if (!repoResponse.ok) throw new Error(await getErrorMessage(repoResponse, "Failed to fetch repository"));
+  const { default_branch } = await repoResponse.json();
+
+  const headResponse = await githubFetch(token, `/repos/${repo}/git/ref/heads/${default_branch}`);
+  if (!headResponse.ok) throw new Error(await getErrorMessage(headResponse, "Failed to read default branch"));
+  const head = await headResponse.json();
+
+  const createResponse = await githubFetch(token, `/repos/${repo}/git/refs`, {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${GITHUB_ASSET_BRANCH}`, sha: head.object.sha })
+  });
+  // 422: created concurrently by another export
+  if (!createResponse.ok && createResponse.status !== 422) throw new Error(await getErrorMessage(createResponse, "Failed to create asset branch"));
+};
+
+/**
+ * Commit a file to the asset branch and return a URL that renders it for anyone who can see the repo.
+ */
+export const uploadGitHubAsset = async (token: string, repo: string, issueNumber: string, fileBlob: Blob, filename: string): Promise<string> => {
+  await ensureAssetBranch(token, repo);
+
+  const safeName = filename.replace(/[^\w.-]+/g, '_');
+  const path = `issues/${issueNumber}/${Date.now()}_${safeName}`;
+  const dataUrl = await readFileAsDataURL(fileBlob);
+
+  const response = await githubFetch(token, `/repos/${repo}/contents/${path}`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      message: `Add ${safeName} for #${issueNumber}`,
+      content: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      branch: GITHUB_ASSET_BRANCH
+    })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitHub Asset Upload Failed"));
+  return `https://github.com/${repo}/blob/${GITHUB_ASSET_BRANCH}/${path}?raw=true`;
+};
+
+const isImageFile = (filename: string) => /\.(png|jpe?g|gif|webp)$/i.test(filename);
+
+const formatAttachmentLink = (filename: string, url: string) =>
+  isImageFile(filename) ? `![${filename}](${url})` : `[${filename}](${url})`;
+
+/**
+ * Fetch Issues for Dashboard. The issues endpoint also returns pull requests; those are skipped.
+ */
+export const fetchGitHubIssues = async (token: string, repo: string): Promise<ReportedIssue[]> => {
+  const response = await githubFetch(token, `/repos/${repo}/issues?state=all&per_page=50&sort=created&direction=desc`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitHub issues"));
+
+  const data = await response.json();
+  return data
+    .filter((i: any) => !i.pull_request)
+    .map((i: any) => {
+      const labels: string[] = (i.labels || []).map((l: any) => typeof l === 'string' ? l : l.name);
+      const closed = i.state === 'closed';
+      return {
+        id: `#${i.number}`,
+        title: i.title,
+        platform: 'GitHub' as const,
+        status: closed ? 'Closed' : 'Open',
+        statusColor: closed ? '#8250df' : '#1a7f37',
+        priority: mapLabelPriority(labels),
+        date: new Date(i.created_at).toLocaleDateString(),
+        assignee: i.assignee?.login,
+        dueDate: i.milestone?.due_on ? new Date(i.milestone.due_on).toLocaleDateString() : undefined,
+        url: i.html_url,
+        reporter: i.user?.login,
+        resolutionTime: closed && i.closed_at ? (new Date(i.closed_at).getTime() - new Date(i.created_at).getTime()) / 3600000 : undefined,
+        tags: labels
+      };
+    });
+};
+
+/** Open issues in a repo, as duplicate-check candidates */
+export const fetchGitHubOpenIssues = async (token: string, repo: string): Promise<DuplicateCandidate[]> => {
+  const response = await githubFetch(token, `/repos/${repo}/issues?state=open&per_page=100&sort=updated`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitHub issues"));
+
+  const data = await response.json();
+  return data
+    .filter((i: any) => !i.pull_request)
+    .map((i: any) => ({
+      id: formatGitHubIssueRef(repo, i.number),
+      title: i.title,
+      description: i.body || '',
+      status: 'Open',
+      url: i.html_url
+    }));
+};
+
+/**
+ * Host a file on the asset branch, or on Google Drive when configured or when the branch can't be written
+ * (e.g. the token only has issue access), and return the Markdown that links it.
+ * Issue bodies may belong to someone else, so adding the link is left to the caller.
+ */
+const attachToGitHubIssue = async (config: IntegrationConfig, issue: TrackerIssue, file: Blob, filename: string) => {
+  const token = config.githubToken!;
+  const { repo, issueNumber } = parseGitHubIssueRef(issue.id);
+
+  const uploadViaDrive = async () => {
+    const driveFile = await uploadToDrive(config.googleDriveToken!, file, `BugSnap_${filename}`);
+    return driveFile.webViewLink;
+  };
+
+  let url: string;
+  if (config.githubAttachmentStorage === 'drive') {
+    if (!config.googleDriveToken) throw new Error("GitHub attachments are set to use Google Drive. Connect Google Drive in Integrations.");
+    url = await uploadViaDrive();
+  } else {
+    try {
+      url = await uploadGitHubAsset(token, repo, issueNumber, file, filename);
+    } catch (error) {
+      if (!config.googleDriveToken) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Couldn't store ${filename} on the ${GITHUB_ASSET_BRANCH} branch (${reason}). Give the token write access or connect Google Drive.`);
+      }
+      url = await uploadViaDrive();
+    }
+  }
+
+  return formatAttachmentLink(filename, url);
+};
+
+export const githubTracker: IssueTracker = {
+  source: 'GitHub',
+  name: 'GitHub',
+  order: 70,
+  dashboardScope: 'destination',
+  destinationLabel: 'Repository',
+  isConfigured: (config) => !!config.githubToken,
+  validate: async (config) => {
+    if (!config.githubToken) throw new Error("Personal Access Token is required.");
+    if (!await validateGitHubToken(config.githubToken)) throw new Error("GitHub Authentication Failed.");
+  },
+  listDestinations: async (config) => {
+    const repos = await getGitHubRepos(config.githubToken!);
+    return repos.map(r => ({ id: r.fullName, name: r.fullName }));
+  },
+  createIssue: async (config, input) => {
+    const issue = await createGitHubIssue(config.githubToken!, {
+      repo: input.destinationId,
+      title: input.title,
+      body: input.description,
+      labels: input.labels,
+      assignees: input.assignees,
+      milestone: input.milestoneId ? Number(input.milestoneId) : undefined
+    });
+    return { id: formatGitHubIssueRef(input.destinationId, issue.number), url: issue.html_url, destinationId: input.destinationId };
+  },
+  uploadAttachment: attachToGitHubIssue,
+  updateIssue: async (config, issue, update) => {
+    const { repo, issueNumber } = parseGitHubIssueRef(issue.id);
+    await updateGitHubIssue(config.githubToken!, repo, issueNumber, update.description);
+  },
+  appendToIssue: async (config, issue, markdown) => {
+    const { repo, issueNumber } = parseGitHubIssueRef(issue.id);
+    const body = await getGitHubIssueBody(config.githubToken!, repo, issueNumber);
+    await updateGitHubIssue(config.githubToken!, repo, issueNumber, body + markdown);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    return fetchGitHubIssues(config.githubToken!, destination.id);
+  },
+  fetchOpenIssues: (config, destination) => fetchGitHubOpenIssues(config.githubToken!, destination.id),
+  addComment: async (config, issue, markdown) => {
+    const { repo, issueNumber } = parseGitHubIssueRef(issue.id);
+    await addGitHubComment(config.githubToken!, repo, issueNumber, markdown);
+  }
+};
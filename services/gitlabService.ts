@@ -0,0 +1,258 @@
+
+import { GitLabProject, GitLabLabel, GitLabMilestone, ReportedIssue, DuplicateCandidate, IssueTracker, IntegrationConfig } from '../types';
+import { getForgeErrorMessage, mapLabelPriority } from './forgeService';
+
+/**
+ * GitLab Service
+ * Interacts with the GitLab REST API (v4) on gitlab.com or a self-hosted instance.
+ * The API allows CORS for token-authenticated requests, so calls go direct.
+ */
+
+export const GITLAB_DEFAULT_URL = 'https://gitlab.com';
+
+export const getGitLabBaseUrl = (config: IntegrationConfig) => (config.gitlabUrl || GITLAB_DEFAULT_URL).replace(/\/$/, '');
+
+const gitlabFetch = async (baseUrl: string, token: string, path: string, init: RequestInit = {}) => {
+  const isForm = init.body instanceof FormData;
+  return fetch(`${baseUrl}/api/v4${path}`, {
+    ...init,
+    headers: {
+      'PRIVATE-TOKEN': token,
+      ...(init.body && !isForm ? { 'Content-Type': 'application/json' } : {})
+    }
+  });
+};
+
+const getErrorMessage = (response: Response, fallback: string) => getForgeErrorMessage(response, 'GitLab', fallback);
+
+/** The API accepts a URL-encoded "group/project" path wherever it takes a project ID */
+const projectPath = (project: string) => `/projects/${encodeURIComponent(project)}`;
+
+/** "group/project#12" is GitLab's own cross-reference format; it carries the project every API call needs */
+export const formatGitLabIssueRef = (project: string, iid: number | string) => `${project}#${iid}`;
+
+export const parseGitLabIssueRef = (ref: string) => {
+  const [project, iid] = ref.split('#');
+  if (!project || !iid) throw new Error(`Invalid GitLab issue reference: ${ref}`);
+  return { project, iid };
+};
+
+/**
+ * Validates a personal access token by fetching the authenticated user.
+ */
+export const validateGitLabToken = async (baseUrl: string, token: string): Promise<boolean> => {
+  try {
+    const response = await gitlabFetch(baseUrl, token, '/user');
+    return response.ok;
+  } catch (error) {
+    console.error("GitLab Validation Failed:", error);
+    return false;
+  }
+};
+
+/**
+ * Projects the user can report issues in (Reporter or above), most recently active first.
+ */
+export const getGitLabProjects = async (baseUrl: string, token: string): Promise<GitLabProject[]> => {
+  const response = await gitlabFetch(baseUrl, token, '/projects?membership=true&min_access_level=20&with_issues_enabled=true&archived=false&order_by=last_activity_at&simple=true&per_page=100');
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch projects"));
+
+  const data = await response.json();
+  return data.map((p: any) => ({ id: String(p.id), pathWithNamespace: p.path_with_namespace }));
+};
+
+export const getGitLabLabels = async (baseUrl: string, token: string, project: string): Promise<GitLabLabel[]> => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/labels?per_page=100`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch labels"));
+
+  const data = await response.json();
+  return data.map((l: any) => ({ name: l.name, color: l.color }));
+};
+
+/** Active milestones of the project and its parent groups */
+export const getGitLabMilestones = async (baseUrl: string, token: string, project: string): Promise<GitLabMilestone[]> => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/milestones?state=active&include_ancestors=true&per_page=100`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch milestones"));
+
+  const data = await response.json();
+  return data.map((m: any) => ({ id: String(m.id), title: m.title }));
+};
+
+interface CreateGitLabIssueParams {
+  project: string;
+  title: string;
+  description: string;
+  labels?: string[];
+  weight?: number;
+  milestoneId?: string;
+}
+
+/**
+ * Create an issue. Weight needs GitLab Premium; other tiers ignore it.
+ */
+export const createGitLabIssue = async (baseUrl: string, token: string, params: CreateGitLabIssueParams) => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(params.project)}/issues`, {
+    method: 'POST',
+    body: JSON.stringify({
+      title: params.title,
+      description: params.description,
+      labels: params.labels && params.labels.length > 0 ? params.labels.join(',') : undefined,
+      weight: params.weight,
+      milestone_id: params.milestoneId ? Number(params.milestoneId) : undefined
+    })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitLab Issue Creation Failed"));
+  return await response.json();
+};
+
+export const getGitLabIssueDescription = async (baseUrl: string, token: string, project: string, iid: string): Promise<string> => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/issues/${iid}`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitLab issue"));
+  const data = await response.json();
+  return data.description || '';
+};
+
+export const updateGitLabIssue = async (baseUrl: string, token: string, project: string, iid: string, description: string) => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/issues/${iid}`, {
+    method: 'PUT',
+    body: JSON.stringify({ description })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitLab Update Failed"));
+  return await response.json();
+};
+
+export const addGitLabNote = async (baseUrl: string, token: string, project: string, iid: string, body: string) => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/issues/${iid}/notes`, {
+    method: 'POST',
+    body: JSON.stringify({ body })
+  });
+
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitLab Comment Failed"));
+  return await response.json();
+};
+
+/**
+ * Upload a file to the project and return the markdown GitLab renders for it.
+ * Uploads aren't tied to an issue until something references them.
+ */
+export const uploadGitLabFile = async (baseUrl: string, token: string, project: string, fileBlob: Blob, filename: string): Promise<string> => {
+  const formData = new FormData();
+  formData.append('file', fileBlob, filename);
+
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/uploads`, {
+    method: 'POST',
+    body: formData
+  });
+
+  if (response.status === 413) throw new Error("GitLab Storage Full: the file exceeds the instance's upload limit.");
+  if (!response.ok) throw new Error(await getErrorMessage(response, "GitLab Upload Failed"));
+  const data = await response.json();
+  return data.markdown;
+};
+
+/**
+ * Fetch Issues for Dashboard
+ */
+export const fetchGitLabIssues = async (baseUrl: string, token: string, project: string): Promise<ReportedIssue[]> => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/issues?per_page=50&order_by=created_at&sort=desc`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitLab issues"));
+
+  const data = await response.json();
+  return data.map((i: any) => {
+    const labels: string[] = i.labels || [];
+    const closed = i.state === 'closed';
+    const dueDate = i.due_date || i.milestone?.due_date;
+    return {
+      id: `#${i.iid}`,
+      title: i.title,
+      platform: 'GitLab' as const,
+      status: closed ? 'Closed' : 'Open',
+      statusColor: closed ? '#1f75cb' : '#108548',
+      priority: mapLabelPriority(labels),
+      date: new Date(i.created_at).toLocaleDateString(),
+      assignee: i.assignee?.name,
+      dueDate: dueDate ? new Date(dueDate).toLocaleDateString() : undefined,
+      url: i.web_url,
+      reporter: i.author?.name,
+      resolutionTime: closed && i.closed_at ? (new Date(i.closed_at).getTime() - new Date(i.created_at).getTime()) / 3600000 : undefined,
+      tags: labels
+    };
+  });
+};
+
+/** Open issues in a project, as duplicate-check candidates */
+export const fetchGitLabOpenIssues = async (baseUrl: string, token: string, project: string): Promise<DuplicateCandidate[]> => {
+  const response = await gitlabFetch(baseUrl, token, `${projectPath(project)}/issues?state=opened&per_page=100&order_by=updated_at`);
+  if (!response.ok) throw new Error(await getErrorMessage(response, "Failed to fetch GitLab issues"));
+
+  const data = await response.json();
+  return data.map((i: any) => ({
+    id: formatGitLabIssueRef(project, i.iid),
+    title: i.title,
+    description: i.description || '',
+    status: 'Open',
+    url: i.web_url
+  }));
+};
+
+/** The export modal's optional issue weight, passed in the request's `extra` options */
+const getGitLabWeight = (extra: Record<string, unknown> = {}): number | undefined => {
+  const { weight } = extra;
+  if (weight === undefined) return undefined;
+  if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 0) throw new Error("Weight must be a whole number of 0 or more.");
+  return weight;
+};
+
+export const gitlabTracker: IssueTracker = {
+  source: 'GitLab',
+  name: 'GitLab',
+  order: 80,
+  dashboardScope: 'destination',
+  isConfigured: (config) => !!config.gitlabToken,
+  validate: async (config) => {
+    if (!config.gitlabToken) throw new Error("Personal Access Token is required.");
+    if (!await validateGitLabToken(getGitLabBaseUrl(config), config.gitlabToken)) throw new Error(`GitLab Authentication Failed for ${getGitLabBaseUrl(config)}.`);
+  },
+  listDestinations: async (config) => {
+    const projects = await getGitLabProjects(getGitLabBaseUrl(config), config.gitlabToken!);
+    return projects.map(p => ({ id: p.pathWithNamespace, name: p.pathWithNamespace }));
+  },
+  createIssue: async (config, input) => {
+    const weight = getGitLabWeight(input.extra);
+    const issue = await createGitLabIssue(getGitLabBaseUrl(config), config.gitlabToken!, {
+      project: input.destinationId,
+      title: input.title,
+      description: input.description,
+      labels: input.labels,
+      weight,
+      milestoneId: input.milestoneId
+    });
+    return { id: formatGitLabIssueRef(input.destinationId, issue.iid), url: issue.web_url, destinationId: input.destinationId };
+  },
+  // The upload's markdown is what ties it to the issue; the caller puts it in the description or a note
+  uploadAttachment: async (config, issue, file, filename) => {
+    const { project } = parseGitLabIssueRef(issue.id);
+    return uploadGitLabFile(getGitLabBaseUrl(config), config.gitlabToken!, project, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    const { project, iid } = parseGitLabIssueRef(issue.id);
+    await updateGitLabIssue(getGitLabBaseUrl(config), config.gitlabToken!, project, iid, update.description);
+  },
+  // The description may have been edited since the issue was created, so links are added to what's there now
+  appendToIssue: async (config, issue, markdown) => {
+    const { project, iid } = parseGitLabIssueRef(issue.id);
+    const description = await getGitLabIssueDescription(getGitLabBaseUrl(config), config.gitlabToken!, project, iid);
+    await updateGitLabIssue(getGitLabBaseUrl(config), config.gitlabToken!, project, iid, description + markdown);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    return fetchGitLabIssues(getGitLabBaseUrl(config), config.gitlabToken!, destination.id);
+  },
+  fetchOpenIssues: (config, destination) => fetchGitLabOpenIssues(getGitLabBaseUrl(config), config.gitlabToken!, destination.id),
+  addComment: async (config, issue, markdown) => {
+    const { project, iid } = parseGitLabIssueRef(issue.id);
+    await addGitLabNote(getGitLabBaseUrl(config), config.gitlabToken!, project, iid, markdown);
+  }
+};
@@ -1,6 +1,7 @@
 
 import { fetchWithProxy } from './proxyService';
-import { ReportedIssue, JiraProject, JiraIssueType, Slide } from '../types';
+import { ReportedIssue, JiraProject, JiraIssueType, Slide, BugReportFields, DuplicateCandidate, IssueTracker, IntegrationConfig } from '../types';
+import { toJiraPriority, toJiraLabel } from './reportFieldsService';
 
 /**
  * Jira Service
@@ -119,15 +120,50 @@ export const getJiraIssueTypes = async (domain: string, email: string, token: st
     }
 };
 
+/** Split a markdown table row into trimmed cells, or null if the line isn't one */
+const parseTableRow = (line: string): string[] | null => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('|') || !trimmed.endsWith('|') || trimmed.length < 2) return null;
+    return trimmed.slice(1, -1).split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+/** ADF table with the first row as header. Empty text nodes are invalid ADF, so blank cells get an empty paragraph. */
+const tableToADF = (rows: string[][]) => ({
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: rows.map((row, i) => ({
+        type: 'tableRow',
+        content: row.map(cell => ({
+            type: i === 0 ? 'tableHeader' : 'tableCell',
+            attrs: {},
+            content: [{ type: 'paragraph', content: cell ? [{ type: 'text', text: cell }] : [] }]
+        }))
+    }))
+});
+
 /**
  * Converts Markdown text to Atlassian Document Format (ADF)
  * Jira API v3 requires ADF for the description field.
  */
 const markdownToADF = (text: string) => {
-    const content = [];
+    const content: any[] = [];
     const lines = text.split('\n');
+    let tableRows: string[][] = [];
+
+    const flushTable = () => {
+        if (tableRows.length === 0) return;
+        content.push(tableToADF(tableRows));
+        tableRows = [];
+    };
 
     for (const line of lines) {
+        const cells = parseTableRow(line);
+        if (cells) {
+            // The "| --- | --- |" separator only marks the row above it as the header
+            if (!cells.every(cell => /^:?-+:?$/.test(cell))) tableRows.push(cells);
+            continue;
+        }
+        flushTable();
         if (!line.trim()) continue;
 
         if (line.startsWith('## ')) {
@@ -153,6 +189,8 @@ const markdownToADF = (text: string) => {
         }
     }
 
+    flushTable();
+
     // Add Footer
     content.push({
         type: 'paragraph',
@@ -169,56 +207,74 @@ const markdownToADF = (text: string) => {
     };
 };
 
+// Fields a project's create screen may not offer; Jira rejects the whole issue if one is sent anyway
+const OPTIONAL_ISSUE_FIELDS = ['priority', 'labels', 'components'];
+
 /**
  * Create a Jira Issue
  */
 export const createJiraIssue = async (
     config: { domain: string, email: string, token: string },
-    payload: { projectId: string, issueTypeId: string, title: string, description: string }
+    payload: { projectId: string, issueTypeId: string, title: string, description: string, fields?: BugReportFields }
 ) => {
     const baseUrl = config.domain.startsWith('http') ? config.domain : `https://${config.domain}`;
     const url = `${baseUrl}/rest/api/3/issue`;
 
-    const body = {
-        fields: {
-            project: { id: payload.projectId },
-            summary: payload.title,
-            issuetype: { id: payload.issueTypeId },
-            description: markdownToADF(payload.description),
-            // Default priority/assignee omitted for simplicity
-        }
+    const fields: Record<string, any> = {
+        project: { id: payload.projectId },
+        summary: payload.title,
+        issuetype: { id: payload.issueTypeId },
+        description: markdownToADF(payload.description),
     };
+    const report = payload.fields;
+    if (report?.priority) fields.priority = { name: toJiraPriority(report.priority) };
+    if (report && report.labels.length > 0) fields.labels = report.labels.map(toJiraLabel);
+    if (report?.component?.trim()) fields.components = [{ name: report.component.trim() }];
+
+    const postIssue = () => fetchWithProxy(url, {
+        method: 'POST',
+        headers: {
+            'Authorization': getAuthHeader(config.email, config.token),
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'X-Atlassian-Token': 'no-check', // Important for bypassing XSRF
+            'X-Requested-With': 'XMLHttpRequest' // Explicitly set for robust bypass
+        },
+        body: JSON.stringify({ fields })
+    });
 
     try {
-        const response = await fetchWithProxy(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': getAuthHeader(config.email, config.token),
-                'Accept': 'application/json',
-                'Content-Type': 'application/json',
-                'X-Atlassian-Token': 'no-check', // Important for bypassing XSRF
-                'X-Requested-With': 'XMLHttpRequest' // Explicitly set for robust bypass
-            },
-            body: JSON.stringify(body)
-        });
+        let response = await postIssue();
 
         if (!response.ok) {
             // Read body ONCE as text to prevent stream locking issues
             const text = await response.text();
             let msg = text;
+            let errorKeys: string[] = [];
             
             // Try parsing as JSON to extract structured error messages
             try {
                 const errorData = JSON.parse(text);
                 if (errorData.errors) {
                     msg = JSON.stringify(errorData.errors);
+                    errorKeys = Object.keys(errorData.errors);
                 } else if (errorData.errorMessages) {
                     msg = errorData.errorMessages.join(', ');
                 }
             } catch (e) {
                 // Not JSON, fall back to raw text (e.g. "XSRF check failed")
             }
-            throw new Error(`Jira Create Failed: ${msg}`);
+
+            // Only optional fields were refused: they're still in the description, so create the issue without them
+            const rejectedOnlyOptional = errorKeys.length > 0 && errorKeys.every(key => OPTIONAL_ISSUE_FIELDS.includes(key) && key in fields);
+            if (response.status === 400 && rejectedOnlyOptional) {
+                console.warn(`Jira rejected ${errorKeys.join(', ')}; retrying without them.`);
+                errorKeys.forEach(key => delete fields[key]);
+                response = await postIssue();
+                if (!response.ok) throw new Error(`Jira Create Failed: ${await response.text()}`);
+            } else {
+                throw new Error(`Jira Create Failed: ${msg}`);
+            }
         }
 
         return await response.json(); // Returns { id, key, self }
@@ -267,6 +323,99 @@ export const uploadJiraAttachment = async (
     }
 };
 
+/**
+ * Replace an issue's description
+ */
+export const updateJiraIssue = async (
+    config: { domain: string, email: string, token: string },
+    issueIdOrKey: string,
+    update: { description: string }
+) => {
+    const baseUrl = config.domain.startsWith('http') ? config.domain : `https://${config.domain}`;
+    const response = await fetchWithProxy(`${baseUrl}/rest/api/3/issue/${issueIdOrKey}`, {
+        method: 'PUT',
+        headers: {
+            'Authorization': getAuthHeader(config.email, config.token),
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'X-Atlassian-Token': 'no-check',
+            'X-Requested-With': 'XMLHttpRequest'
+        },
+        body: JSON.stringify({ fields: { description: markdownToADF(update.description) } })
+    });
+
+    if (!response.ok) throw new Error(`Jira Update Failed: ${response.status}`);
+};
+
+/**
+ * Add a markdown comment to an existing issue
+ */
+export const addJiraComment = async (
+    config: { domain: string, email: string, token: string },
+    issueIdOrKey: string,
+    markdown: string
+) => {
+    const baseUrl = config.domain.startsWith('http') ? config.domain : `https://${config.domain}`;
+    const response = await fetchWithProxy(`${baseUrl}/rest/api/3/issue/${issueIdOrKey}/comment`, {
+        method: 'POST',
+        headers: {
+            'Authorization': getAuthHeader(config.email, config.token),
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'X-Atlassian-Token': 'no-check',
+            'X-Requested-With': 'XMLHttpRequest'
+        },
+        body: JSON.stringify({ body: markdownToADF(markdown) })
+    });
+
+    if (!response.ok) throw new Error(`Jira Comment Failed: ${response.status}`);
+    return await response.json();
+};
+
+// Flatten an ADF document back to plain text for similarity scoring
+const adfToText = (node: any): string => {
+    if (!node) return '';
+    if (typeof node.text === 'string') return node.text;
+    return (node.content || []).map(adfToText).join(' ');
+};
+
+/**
+ * Open issues in a project, most recently updated first, for duplicate detection
+ */
+export const fetchJiraOpenIssues = async (config: { domain: string, email: string, token: string }, projectId: string): Promise<DuplicateCandidate[]> => {
+    const baseUrl = (config.domain.startsWith('http') ? config.domain : `https://${config.domain}`).replace(/\/$/, '');
+    const response = await fetchWithProxy(`${baseUrl}/rest/api/3/search`, {
+        method: 'POST',
+        headers: {
+            'Authorization': getAuthHeader(config.email, config.token),
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'X-Atlassian-Token': 'no-check',
+            'X-Requested-With': 'XMLHttpRequest'
+        },
+        body: JSON.stringify({
+            jql: `project = ${projectId} AND statusCategory != Done ORDER BY updated DESC`,
+            maxResults: 100,
+            fields: ['summary', 'description', 'status']
+        })
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        if (text.includes('corsdemo')) throw new Error('corsdemo_required');
+        throw new Error(`Jira Search Failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.issues || []).map((i: any) => ({
+        id: i.key,
+        title: i.fields.summary || '',
+        description: adfToText(i.fields.description),
+        status: i.fields.status?.name || 'Open',
+        url: `${baseUrl}/browse/${i.key}`
+    }));
+};
+
 /**
  * Fetch Jira Issues for Dashboard using JQL (Jira Query Language)
  */
@@ -368,3 +517,43 @@ export const fetchJiraIssues = async (config: { domain: string, email: string, t
         throw error;
     }
 };
+
+const getCredentials = (config: IntegrationConfig) => ({ domain: config.jiraUrl!, email: config.jiraEmail!, token: config.jiraToken! });
+
+export const jiraTracker: IssueTracker = {
+    source: 'Jira',
+    name: 'Jira',
+    order: 20,
+    dashboardScope: 'account',
+    isConfigured: (config) => !!config.jiraUrl && !!config.jiraEmail && !!config.jiraToken,
+    validate: async (config) => {
+        if (!config.jiraUrl || !config.jiraToken || !config.jiraEmail) throw new Error("All fields are required for Jira.");
+        if (!await validateJiraCredentials(config.jiraUrl, config.jiraEmail, config.jiraToken)) throw new Error("Jira Authentication Failed. Check credentials.");
+    },
+    listDestinations: async (config) => {
+        const projects = await getJiraProjects(config.jiraUrl!, config.jiraEmail!, config.jiraToken!);
+        return projects.map(p => ({ id: p.id, name: `${p.name} (${p.key})` }));
+    },
+    createIssue: async (config, input) => {
+        const creds = getCredentials(config);
+        let issueTypeId = input.issueTypeId;
+        if (!issueTypeId) {
+            // Callers that don't pick a type get "Bug", as the modal defaults to
+            const types = await getJiraIssueTypes(creds.domain, creds.email, creds.token, input.destinationId);
+            issueTypeId = (types.find(t => t.name.toLowerCase() === 'bug') || types[0])?.id;
+            if (!issueTypeId) throw new Error("This Jira project has no issue types.");
+        }
+        const issue = await createJiraIssue(creds, { projectId: input.destinationId, issueTypeId, title: input.title, description: input.description, fields: input.fields });
+        const baseUrl = creds.domain.startsWith('http') ? creds.domain : `https://${creds.domain}`;
+        return { id: issue.key, url: `${baseUrl}/browse/${issue.key}`, destinationId: input.destinationId };
+    },
+    uploadAttachment: async (config, issue, file, filename) => {
+        await uploadJiraAttachment(getCredentials(config), issue.id, file, filename);
+    },
+    updateIssue: (config, issue, update) => updateJiraIssue(getCredentials(config), issue.id, update),
+    fetchIssues: (config) => fetchJiraIssues(getCredentials(config)),
+    fetchOpenIssues: (config, destination) => fetchJiraOpenIssues(getCredentials(config), destination.id),
+    addComment: async (config, issue, markdown) => {
+        await addJiraComment(getCredentials(config), issue.id, markdown);
+    }
+};
@@ -0,0 +1,51 @@
+
+import { Slide, Annotation } from '../types';
+import { getNumberedAnnotations, isRedaction, isAnnotationVisibleAt } from './annotationService';
+import { generateThumbnail, formatVideoTime, loadVideo, seekVideo } from './mediaService';
+
+const stripTiming = ({ timestamp, endTimestamp, ...ann }: Annotation): Annotation => ann;
+
+/**
+ * Turn each numbered annotation on a video slide into an image slide holding
+ * the frame it was drawn on. Redactions showing at that moment come along so
+ * the still never leaks what the video hides.
+ */
+export const extractKeyframeSlides = async (slide: Slide): Promise<Slide[]> => {
+  if (slide.type !== 'video') return [];
+  const numbered = getNumberedAnnotations(slide.annotations);
+  if (numbered.length === 0) return [];
+
+  const video = await loadVideo(slide.src);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas creation failed");
+
+  const keyframes: Slide[] = [];
+  const now = Date.now();
+  for (const [index, ann] of numbered.entries()) {
+    const time = ann.timestamp || 0;
+    // Recordings without a duration header report Infinity until played through
+    await seekVideo(video, Number.isFinite(video.duration) ? Math.min(time, video.duration) : time);
+    if (!video.videoWidth || !video.videoHeight) throw new Error("Video frame could not be decoded.");
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx.drawImage(video, 0, 0);
+    const src = canvas.toDataURL('image/png');
+
+    const redactions = slide.annotations.filter(a => isRedaction(a) && isAnnotationVisibleAt(a, time));
+    keyframes.push({
+      id: crypto.randomUUID(),
+      type: 'image',
+      src,
+      thumbnail: await generateThumbnail(src, 'image'),
+      name: `${slide.name} #${index + 1} @ ${formatVideoTime(time)}`,
+      annotations: [...redactions, ann].map(stripTiming),
+      displayWidth: slide.displayWidth,
+      environment: slide.environment,
+      createdAt: now + index
+    });
+  }
+  video.removeAttribute('src');
+  return keyframes;
+};
@@ -0,0 +1,310 @@
+
+import { LinearTeam, LinearProject, LinearCycle, LinearLabel, ReportedIssue, DuplicateCandidate, IssueTracker, BugReportFields } from '../types';
+import { toLinearPriority } from './reportFieldsService';
+
+/**
+ * Linear Service
+ * Interacts with the Linear GraphQL API using a personal API key.
+ * The API allows CORS, so requests go direct.
+ */
+
+const LINEAR_API_URL = 'https://api.linear.app/graphql';
+
+const linearQuery = async <T = any>(apiKey: string, query: string, variables: Record<string, unknown> = {}): Promise<T> => {
+  const response = await fetch(LINEAR_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': apiKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (e) {
+    throw new Error(`Linear API Error (${response.status})`);
+  }
+  // GraphQL reports most failures in `errors`, sometimes alongside a 200
+  if (data.errors && data.errors.length > 0) {
+    const first = data.errors[0];
+    throw new Error(`Linear: ${first.extensions?.userPresentableMessage || first.message}`);
+  }
+  if (!response.ok) throw new Error(`Linear API Error (${response.status})`);
+  return data.data;
+};
+
+/**
+ * Validates an API key by fetching the authenticated user.
+ */
+export const validateLinearApiKey = async (apiKey: string): Promise<boolean> => {
+  try {
+    const data = await linearQuery(apiKey, `query { viewer { id } }`);
+    return !!data.viewer?.id;
+  } catch (error) {
+    console.error("Linear Validation Failed:", error);
+    return false;
+  }
+};
+
+export const getLinearTeams = async (apiKey: string): Promise<LinearTeam[]> => {
+  const data = await linearQuery(apiKey, `query { teams(first: 100) { nodes { id name key } } }`);
+  return data.teams.nodes.map((t: any) => ({ id: t.id, name: t.name, key: t.key }));
+};
+
+/**
+ * Projects, upcoming cycles and labels available to a team.
+ * Labels include workspace-wide ones, which any team can use.
+ */
+export const getLinearTeamOptions = async (apiKey: string, teamId: string): Promise<{ projects: LinearProject[]; cycles: LinearCycle[]; labels: LinearLabel[] }> => {
+  const data = await linearQuery(apiKey, `
+    query TeamOptions($teamId: String!, $teamIdFilter: ID!) {
+      team(id: $teamId) {
+        projects(first: 100) { nodes { id name completedAt canceledAt } }
+        cycles(first: 20, filter: { isPast: { eq: false } }) { nodes { id name number isActive } }
+      }
+      issueLabels(first: 250, filter: { or: [{ team: { id: { eq: $teamIdFilter } } }, { team: { null: true } }] }) {
+        nodes { id name color isGroup }
+      }
+    }
+  `, { teamId, teamIdFilter: teamId });
+
+  return {
+    projects: data.team.projects.nodes
+      .filter((p: any) => !p.completedAt && !p.canceledAt)
+      .map((p: any) => ({ id: p.id, name: p.name })),
+    cycles: data.team.cycles.nodes
+      .sort((a: any, b: any) => a.number - b.number)
+      .map((c: any) => ({ id: c.id, name: c.name || `Cycle ${c.number}`, isActive: c.isActive })),
+    // Group labels only organize their children; they can't be applied
+    labels: data.issueLabels.nodes
+      .filter((l: any) => !l.isGroup)
+      .map((l: any) => ({ id: l.id, name: l.name, color: l.color }))
+  };
+};
+
+interface CreateLinearIssueParams {
+  teamId: string;
+  title: string;
+  description: string;
+  projectId?: string;
+  cycleId?: string;
+  labelIds?: string[];
+  parentId?: string;
+  fields?: BugReportFields;
+}
+
+/**
+ * Create an issue. The report's priority maps onto Linear's 1 (Urgent) to 4 (Low) scale.
+ */
+export const createLinearIssue = async (apiKey: string, params: CreateLinearIssueParams) => {
+  const input: Record<string, unknown> = {
+    teamId: params.teamId,
+    title: params.title,
+    description: params.description
+  };
+  if (params.projectId) input.projectId = params.projectId;
+  if (params.cycleId) input.cycleId = params.cycleId;
+  if (params.labelIds && params.labelIds.length > 0) input.labelIds = params.labelIds;
+  if (params.parentId) input.parentId = params.parentId;
+  if (params.fields?.priority) input.priority = toLinearPriority(params.fields.priority);
+
+  const data = await linearQuery(apiKey, `
+    mutation CreateIssue($input: IssueCreateInput!) {
+      issueCreate(input: $input) { success issue { id identifier url } }
+    }
+  `, { input });
+
+  if (!data.issueCreate.success) throw new Error("Linear Issue Creation Failed");
+  return data.issueCreate.issue as { id: string; identifier: string; url: string };
+};
+
+export const updateLinearIssue = async (apiKey: string, issueId: string, description: string) => {
+  const data = await linearQuery(apiKey, `
+    mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+      issueUpdate(id: $id, input: $input) { success }
+    }
+  `, { id: issueId, input: { description } });
+
+  if (!data.issueUpdate.success) throw new Error("Linear Update Failed");
+};
+
+export const addLinearComment = async (apiKey: string, issueId: string, body: string) => {
+  const data = await linearQuery(apiKey, `
+    mutation AddComment($input: CommentCreateInput!) {
+      commentCreate(input: $input) { success }
+    }
+  `, { input: { issueId, body } });
+
+  if (!data.commentCreate.success) throw new Error("Linear Comment Failed");
+};
+
+/**
+ * Upload a file through Linear's signed upload URL flow and return its asset URL.
+ * Linear hands out a storage URL and the headers to PUT with; the file never goes through the GraphQL API.
+ */
+export const uploadLinearFile = async (apiKey: string, fileBlob: Blob, filename: string): Promise<string> => {
+  const contentType = fileBlob.type || 'application/octet-stream';
+  const data = await linearQuery(apiKey, `
+    mutation FileUpload($contentType: String!, $filename: String!, $size: Int!) {
+      fileUpload(contentType: $contentType, filename: $filename, size: $size) {
+        success
+        uploadFile { uploadUrl assetUrl headers { key value } }
+      }
+    }
+  `, { contentType, filename, size: fileBlob.size });
+
+  if (!data.fileUpload.success) throw new Error("Linear Upload Failed");
+  const { uploadUrl, assetUrl, headers } = data.fileUpload.uploadFile;
+
+  const uploadHeaders: Record<string, string> = {
+    'Content-Type': contentType,
+    'Cache-Control': 'public, max-age=31536000'
+  };
+  headers.forEach((h: { key: string; value: string }) => { uploadHeaders[h.key] = h.value; });
+
+  const response = await fetch(uploadUrl, { method: 'PUT', headers: uploadHeaders, body: fileBlob });
+  if (response.status === 413) throw new Error("Linear Storage Full: the file exceeds the upload limit.");
+  if (!response.ok) throw new Error(`Linear Upload Failed (${response.status})`);
+  return assetUrl;
+};
+
+/** Attach an uploaded file to an issue so it's listed under the issue's attachments */
+export const attachLinearFile = async (apiKey: string, issueId: string, assetUrl: string, title: string) => {
+  const data = await linearQuery(apiKey, `
+    mutation AttachFile($input: AttachmentCreateInput!) {
+      attachmentCreate(input: $input) { success }
+    }
+  `, { input: { issueId, url: assetUrl, title } });
+
+  if (!data.attachmentCreate.success) throw new Error("Linear Attachment Failed");
+};
+
+// Linear priority: 0 none, 1 urgent, 2 high, 3 medium, 4 low
+const mapPriority = (priority: number): ReportedIssue['priority'] => {
+  switch (priority) {
+    case 1: return 'Urgent';
+    case 2: return 'High';
+    case 3: return 'Normal';
+    case 4: return 'Low';
+    default: return 'None';
+  }
+};
+
+/**
+ * Fetch Issues for Dashboard
+ */
+export const fetchLinearIssues = async (apiKey: string, teamId: string): Promise<ReportedIssue[]> => {
+  const data = await linearQuery(apiKey, `
+    query TeamIssues($teamId: String!) {
+      team(id: $teamId) {
+        issues(first: 50, orderBy: createdAt) {
+          nodes {
+            identifier title url priority createdAt completedAt dueDate
+            state { name color type }
+            assignee { name }
+            creator { name }
+            labels { nodes { name } }
+          }
+        }
+      }
+    }
+  `, { teamId });
+
+  return data.team.issues.nodes.map((i: any) => ({
+    id: i.identifier,
+    title: i.title,
+    platform: 'Linear' as const,
+    status: i.state?.name || 'Unknown',
+    statusColor: i.state?.color || '#94a3b8',
+    priority: mapPriority(i.priority),
+    date: new Date(i.createdAt).toLocaleDateString(),
+    assignee: i.assignee?.name,
+    dueDate: i.dueDate ? new Date(i.dueDate).toLocaleDateString() : undefined,
+    url: i.url,
+    reporter: i.creator?.name,
+    resolutionTime: i.completedAt ? (new Date(i.completedAt).getTime() - new Date(i.createdAt).getTime()) / 3600000 : undefined,
+    tags: i.labels.nodes.map((l: any) => l.name)
+  }));
+};
+
+/** Open issues in a team, as duplicate-check candidates */
+export const fetchLinearOpenIssues = async (apiKey: string, teamId: string): Promise<DuplicateCandidate[]> => {
+  const data = await linearQuery(apiKey, `
+    query OpenIssues($teamId: String!) {
+      team(id: $teamId) {
+        issues(first: 100, orderBy: updatedAt, filter: { state: { type: { nin: ["completed", "canceled"] } } }) {
+          nodes { identifier title description url state { name } }
+        }
+      }
+    }
+  `, { teamId });
+
+  return data.team.issues.nodes.map((i: any) => ({
+    id: i.identifier,
+    title: i.title,
+    description: i.description || '',
+    status: i.state?.name || 'Open',
+    url: i.url
+  }));
+};
+
+/** Project and cycle picked in the export modal, passed in the request's `extra` options */
+const getLinearOptions = (extra: Record<string, unknown> = {}): { projectId?: string; cycleId?: string } => {
+  const options: { projectId?: string; cycleId?: string } = {};
+  for (const key of ['projectId', 'cycleId'] as const) {
+    const value = extra[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') throw new Error(`Invalid ${key} option for Linear.`);
+    options[key] = value;
+  }
+  return options;
+};
+
+export const linearTracker: IssueTracker = {
+  source: 'Linear',
+  name: 'Linear',
+  order: 90,
+  dashboardScope: 'destination',
+  destinationLabel: 'Team',
+  isConfigured: (config) => !!config.linearApiKey,
+  validate: async (config) => {
+    if (!config.linearApiKey) throw new Error("API Key is required.");
+    if (!await validateLinearApiKey(config.linearApiKey)) throw new Error("Linear Authentication Failed.");
+  },
+  listDestinations: async (config) => {
+    const teams = await getLinearTeams(config.linearApiKey!);
+    return teams.map(t => ({ id: t.id, name: t.name }));
+  },
+  createIssue: async (config, input) => {
+    const { projectId, cycleId } = getLinearOptions(input.extra);
+    const issue = await createLinearIssue(config.linearApiKey!, {
+      teamId: input.destinationId,
+      title: input.title,
+      description: input.description,
+      projectId,
+      cycleId,
+      labelIds: input.labels,
+      parentId: input.parentId,
+      fields: input.fields
+    });
+    // Identifiers ("ENG-123") are accepted wherever Linear takes an issue ID
+    return { id: issue.identifier, url: issue.url, destinationId: input.destinationId };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    const assetUrl = await uploadLinearFile(config.linearApiKey!, file, filename);
+    await attachLinearFile(config.linearApiKey!, issue.id, assetUrl, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    await updateLinearIssue(config.linearApiKey!, issue.id, update.description);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    return fetchLinearIssues(config.linearApiKey!, destination.id);
+  },
+  fetchOpenIssues: (config, destination) => fetchLinearOpenIssues(config.linearApiKey!, destination.id),
+  addComment: async (config, issue, markdown) => {
+    await addLinearComment(config.linearApiKey!, issue.id, markdown);
+  }
+};
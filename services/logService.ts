@@ -0,0 +1,218 @@
+
+import { ConsoleEntry, ConsoleLevel, NetworkEntry, SlideLogs } from '../types';
+
+export const LOG_FORMAT = 'bugsnap-logs';
+
+const MAX_ENTRIES = 1000;
+const LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+/**
+ * Pasted into the DevTools console of the page under test. It records console
+ * output, uncaught errors and fetch/XHR traffic until `copy(__bugsnapDump())`
+ * puts the capture on the clipboard for pasting into BugSnap.
+ */
+export const LOG_CAPTURE_SNIPPET = `(() => {
+  if (window.__bugsnap) { console.info('[BugSnap] Already capturing. Run copy(__bugsnapDump()) to copy the logs.'); return; }
+  const MAX = 500;
+  const state = window.__bugsnap = { console: [], network: [] };
+  const push = (list, entry) => { list.push(entry); if (list.length > MAX) list.shift(); };
+  const format = (args) => args.map(a => {
+    if (a instanceof Error) return a.stack || a.message;
+    if (typeof a === 'string') return a;
+    try { return JSON.stringify(a); } catch (e) { return String(a); }
+  }).join(' ');
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+    const original = console[level];
+    console[level] = function (...args) {
+      push(state.console, { level, message: format(args), timestamp: Date.now(), source: 'console' });
+      return original.apply(this, args);
+    };
+  });
+  window.addEventListener('error', e => push(state.console, { level: 'error', message: e.message, stack: e.error && e.error.stack, timestamp: Date.now(), source: 'uncaught' }));
+  window.addEventListener('unhandledrejection', e => push(state.console, { level: 'error', message: 'Unhandled rejection: ' + format([e.reason]), stack: e.reason && e.reason.stack, timestamp: Date.now(), source: 'rejection' }));
+  const originalFetch = window.fetch;
+  window.fetch = async function (input, init) {
+    const startedAt = Date.now();
+    const method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+    const url = typeof input === 'string' ? input : (input && input.url) || String(input);
+    try {
+      const res = await originalFetch.apply(this, arguments);
+      push(state.network, { method, url, status: res.status, statusText: res.statusText, startedAt, duration: Date.now() - startedAt, mimeType: res.headers.get('content-type') || undefined, responseSize: Number(res.headers.get('content-length') || -1) });
+      return res;
+    } catch (err) {
+      push(state.network, { method, url, status: 0, startedAt, duration: Date.now() - startedAt, error: String(err) });
+      throw err;
+    }
+  };
+  const open = XMLHttpRequest.prototype.open;
+  const send = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (method, url) {
+    this.__bugsnap = { method: String(method).toUpperCase(), url: String(url) };
+    return open.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function () {
+    const info = this.__bugsnap;
+    if (info) {
+      const startedAt = Date.now();
+      this.addEventListener('loadend', () => push(state.network, { method: info.method, url: info.url, status: this.status, statusText: this.statusText, startedAt, duration: Date.now() - startedAt, mimeType: this.getResponseHeader('content-type') || undefined, responseSize: -1, error: this.status === 0 ? 'Network error' : undefined }));
+    }
+    return send.apply(this, arguments);
+  };
+  window.__bugsnapDump = () => JSON.stringify({ format: '${LOG_FORMAT}', version: 1, pageUrl: location.href, capturedAt: Date.now(), console: state.console, network: state.network });
+  console.info('[BugSnap] Capturing console and network. Reproduce the bug, then run copy(__bugsnapDump()) and paste into BugSnap.');
+})();`;
+
+export const isFailedRequest = (entry: NetworkEntry) => entry.status === 0 || entry.status >= 400;
+
+export const summarizeLogs = (logs: SlideLogs) => ({
+  errors: logs.console.filter(e => e.level === 'error').length,
+  warnings: logs.console.filter(e => e.level === 'warn').length,
+  failedRequests: logs.network.filter(isFailedRequest).length
+});
+
+export const hasLogs = (logs?: SlideLogs): logs is SlideLogs =>
+  !!logs && (logs.console.length > 0 || logs.network.length > 0);
+
+const toNumber = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+const sanitizeConsole = (value: any): ConsoleEntry | null => {
+  if (!value || typeof value.message !== 'string') return null;
+  return {
+    level: LEVELS.includes(value.level) ? value.level : 'log',
+    message: value.message,
+    timestamp: toNumber(value.timestamp, Date.now()),
+    stack: typeof value.stack === 'string' ? value.stack : undefined,
+    source: ['console', 'uncaught', 'rejection'].includes(value.source) ? value.source : undefined
+  };
+};
+
+const sanitizeNetwork = (value: any): NetworkEntry | null => {
+  if (!value || typeof value.url !== 'string') return null;
+  // A status that isn't a number would otherwise read as a failed request
+  if (value.status !== undefined && typeof value.status !== 'number') return null;
+  return {
+    method: typeof value.method === 'string' ? value.method.toUpperCase() : 'GET',
+    url: value.url,
+    status: toNumber(value.status, 0),
+    statusText: typeof value.statusText === 'string' ? value.statusText : undefined,
+    startedAt: toNumber(value.startedAt, Date.now()),
+    duration: Math.max(0, toNumber(value.duration, 0)),
+    mimeType: typeof value.mimeType === 'string' ? value.mimeType : undefined,
+    responseSize: toNumber(value.responseSize, -1),
+    error: typeof value.error === 'string' ? value.error : undefined
+  };
+};
+
+/** A stored capture with every entry checked; entries that aren't the right shape are dropped */
+export const sanitizeLogs = (value: any): SlideLogs => ({
+  console: (Array.isArray(value.console) ? value.console : []).map(sanitizeConsole).filter((e: ConsoleEntry | null): e is ConsoleEntry => e !== null),
+  network: (Array.isArray(value.network) ? value.network : []).map(sanitizeNetwork).filter((e: NetworkEntry | null): e is NetworkEntry => e !== null),
+  pageUrl: typeof value.pageUrl === 'string' ? value.pageUrl : undefined,
+  capturedAt: toNumber(value.capturedAt, Date.now())
+});
+
+const parseHar = (har: any): SlideLogs => {
+  const entries: any[] = Array.isArray(har.log.entries) ? har.log.entries : [];
+  const network = entries.map(entry => sanitizeNetwork({
+    method: entry.request?.method,
+    url: entry.request?.url,
+    status: entry.response?.status,
+    statusText: entry.response?.statusText,
+    startedAt: Date.parse(entry.startedDateTime),
+    duration: entry.time,
+    mimeType: entry.response?.content?.mimeType,
+    responseSize: entry.response?.content?.size ?? entry.response?.bodySize,
+    error: entry.response?._error || undefined
+  })).filter((e): e is NetworkEntry => e !== null);
+  return { console: [], network, pageUrl: har.log.pages?.[0]?.title, capturedAt: Date.now() };
+};
+
+const LINE_LEVEL = /\b(error|warn(?:ing)?|info|debug)\b/i;
+const LINE_TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ][\d:.]+Z?)\]?\s*/;
+
+/** Plain-text console exports: one entry per line, level guessed from keywords */
+const parseTextLog = (text: string): SlideLogs => {
+  const entries = text.split(/\r?\n/).filter(line => line.trim()).map((line): ConsoleEntry => {
+    const time = line.match(LINE_TIMESTAMP);
+    const level = line.match(LINE_LEVEL)?.[1].toLowerCase();
+    return {
+      level: level?.startsWith('warn') ? 'warn' : (level as ConsoleLevel) || 'log',
+      message: time ? line.slice(time[0].length) : line,
+      timestamp: (time && Date.parse(time[1])) || Date.now()
+    };
+  });
+  return { console: entries, network: [], capturedAt: Date.now() };
+};
+
+/** Read a capture-snippet dump, a HAR file or a plain-text console log */
+export const parseLogImport = (text: string): SlideLogs => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Nothing to import.");
+
+  let json: any = null;
+  if (trimmed.startsWith('{')) {
+    try {
+      json = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error("Log file looks like JSON but could not be parsed.");
+    }
+  }
+
+  if (json?.format === LOG_FORMAT) return sanitizeLogs(json);
+  if (json?.log && Array.isArray(json.log.entries)) return parseHar(json);
+  if (json) throw new Error("Unrecognised JSON. Import a HAR file or a BugSnap capture.");
+  return parseTextLog(trimmed);
+};
+
+/** Combine a new capture with what the slide already has, oldest first and capped */
+export const mergeLogs = (existing: SlideLogs | undefined, incoming: SlideLogs): SlideLogs => {
+  if (!existing) return incoming;
+  return {
+    console: [...existing.console, ...incoming.console].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_ENTRIES),
+    network: [...existing.network, ...incoming.network].sort((a, b) => a.startedAt - b.startedAt).slice(-MAX_ENTRIES),
+    pageUrl: incoming.pageUrl || existing.pageUrl,
+    capturedAt: incoming.capturedAt
+  };
+};
+
+/** HAR 1.2 document of the network log; fields the capture doesn't know are left empty as the spec allows */
+export const toHar = (logs: SlideLogs): string => JSON.stringify({
+  log: {
+    version: '1.2',
+    creator: { name: 'BugSnap', version: '1.0' },
+    pages: [],
+    entries: logs.network.map(entry => ({
+      startedDateTime: new Date(entry.startedAt).toISOString(),
+      time: entry.duration,
+      request: { method: entry.method, url: entry.url, httpVersion: '', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: -1 },
+      response: {
+        status: entry.status,
+        statusText: entry.statusText || '',
+        httpVersion: '',
+        cookies: [],
+        headers: [],
+        content: { size: entry.responseSize ?? -1, mimeType: entry.mimeType || '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+        ...(entry.error ? { _error: entry.error } : {})
+      },
+      cache: {},
+      timings: { send: 0, wait: entry.duration, receive: 0 }
+    }))
+  }
+}, null, 2);
+
+export const toConsoleLog = (logs: SlideLogs): string => logs.console.map(entry => {
+  const line = `${new Date(entry.timestamp).toISOString()} [${entry.level.toUpperCase()}] ${entry.message}`;
+  return entry.stack && !entry.message.includes(entry.stack) ? `${line}\n${entry.stack.replace(/^/gm, '    ')}` : line;
+}).join('\n');
+
+/** Files an exporter should attach for a slide's logs: a .log for the console and a .har for the network */
+export const getLogAttachments = (logs: SlideLogs | undefined, baseName: string): { blob: Blob; filename: string }[] => {
+  if (!hasLogs(logs)) return [];
+  const files: { blob: Blob; filename: string }[] = [];
+  if (logs.console.length > 0) files.push({ blob: new Blob([toConsoleLog(logs)], { type: 'text/plain' }), filename: `${baseName}_console.log` });
+  if (logs.network.length > 0) files.push({ blob: new Blob([toHar(logs)], { type: 'application/json' }), filename: `${baseName}_network.har` });
+  return files;
+};
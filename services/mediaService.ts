@@ -0,0 +1,171 @@
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp'];
+export const SUPPORTED_VIDEO_TYPES = ['video/webm', 'video/mp4', 'video/ogg', 'video/quicktime'];
+
+const THUMBNAIL_SIZE = 240;
+
+/** Map a MIME type to the kind of slide it can become, or null if unsupported */
+export const getSlideType = (mimeType: string): 'image' | 'video' | null => {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (SUPPORTED_IMAGE_TYPES.includes(type)) return 'image';
+  if (SUPPORTED_VIDEO_TYPES.includes(type)) return 'video';
+  return null;
+};
+
+export const readFileAsDataURL = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, commaIndex);
+  const data = dataUrl.slice(commaIndex + 1);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  const raw = header.includes(';base64') ? atob(data) : decodeURIComponent(data);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+/** Load a video far enough to draw frames from it. Unmuted when the soundtrack is needed. */
+export const loadVideo = (src: string, muted: boolean = true): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = muted;
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Video could not be decoded."));
+    video.src = src;
+  });
+};
+
+/** Seek and wait until the frame at `time` is ready */
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+};
+
+/** Load a video and seek to `time` so the frame can be drawn */
+export const loadVideoFrame = (src: string, time: number = 0.1): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => { video.currentTime = Math.min(time, video.duration || time); };
+    video.onseeked = () => resolve(video);
+    video.onerror = reject;
+    video.src = src;
+  });
+};
+
+/** m:ss.s label for a position in a video */
+export const formatVideoTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+};
+
+/** Small JPEG preview for the slide strip. Returns undefined if the media can't be decoded. */
+export const generateThumbnail = async (src: string, type: 'image' | 'video'): Promise<string | undefined> => {
+  try {
+    let source: CanvasImageSource;
+    let width: number;
+    let height: number;
+
+    if (type === 'video') {
+      const video = await loadVideoFrame(src);
+      source = video;
+      width = video.videoWidth;
+      height = video.videoHeight;
+    } else {
+      const img = await loadImage(src);
+      source = img;
+      width = img.naturalWidth;
+      height = img.naturalHeight;
+    }
+    if (!width || !height) return undefined;
+
+    const ratio = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (e) {
+    console.warn("Thumbnail generation failed", e);
+    return undefined;
+  }
+};
+
+const readDirectoryEntries = (reader: any): Promise<any[]> => {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+const collectEntryFiles = async (entry: any): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve) => entry.file((file: File) => resolve([file]), () => resolve([])));
+  }
+  if (entry.isDirectory) {
+    const reader = entry.createReader();
+    const files: File[] = [];
+    // readEntries returns results in batches until an empty batch
+    let batch = await readDirectoryEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        files.push(...await collectEntryFiles(child));
+      }
+      batch = await readDirectoryEntries(reader);
+    }
+    return files;
+  }
+  return [];
+};
+
+/** Flatten dropped files and folders (recursively) into a list of files */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items || []);
+  const entries: (FileSystemEntry | null)[] = items
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...await collectEntryFiles(entry));
+  }
+  return files;
+};
+
+/** Save a blob through a temporary download link */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,134 @@
+
+import type { SecretCategory, DetectedSecret } from './geminiService';
+import type { Worker as OcrWorker, Bbox } from 'tesseract.js';
+
+const SECRET_PATTERNS: { category: SecretCategory; pattern: RegExp; validate?: (match: string) => boolean }[] = [
+  { category: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  {
+    category: 'api_key',
+    pattern: /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}|\bsk-[A-Za-z0-9_-]{20,}|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{30,}|\bxox[abprs]-[A-Za-z0-9-]{10,}|\bAIza[0-9A-Za-z_-]{35}\b|\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+  },
+  {
+    // Long opaque tokens in mixed case. Hex digests and UUIDs are single-case, so commit hashes and IDs don't match.
+    category: 'api_key',
+    pattern: /\b[A-Za-z0-9_-]{32,}\b/g,
+    validate: (m) => /[a-z]/.test(m) && /[A-Z]/.test(m) && /\d/.test(m) && !/^[0-9a-f]+$/i.test(m)
+  },
+  {
+    category: 'credit_card',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: (m) => passesLuhn(m.replace(/\D/g, ''))
+  },
+  {
+    // Needs a country code, a bracketed area code or separated groups; bare digit runs are usually IDs, amounts or dates
+    category: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,3}|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]\d{3,4}|\b\d{3}[.-]\d{3}[.-]\d{4})\b/g,
+    validate: (m) => {
+      const digits = m.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15;
+    }
+  },
+  {
+    // Names can only be spotted reliably next to a label like "Name:" or "Customer:"
+    category: 'name',
+    pattern: /\b(?:name|customer|user|contact|owner|assignee)\s*[:-]\s*[A-Z][a-z]+(?:\s+[A-Z][a-z]+)+/gi
+  }
+];
+
+const passesLuhn = (digits: string): boolean => {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+interface SensitiveMatch {
+  category: SecretCategory;
+  start: number;
+  end: number;
+}
+
+/** Every sensitive match in a piece of text, with its character range */
+const findSensitiveMatches = (text: string): SensitiveMatch[] => {
+  const matches: SensitiveMatch[] = [];
+  SECRET_PATTERNS.forEach(({ category, pattern, validate }) => {
+    for (const match of text.matchAll(pattern)) {
+      if (validate && !validate(match[0])) continue;
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Patterns run most specific first; a later, looser one shouldn't box the same text again
+      if (matches.some(m => m.start < end && m.end > start)) continue;
+      matches.push({ category, start, end });
+    }
+  });
+  return matches;
+};
+
+/** Return the categories of sensitive data found in a piece of text */
+export const findSensitiveText = (text: string): SecretCategory[] =>
+  Array.from(new Set(findSensitiveMatches(text).map(m => m.category)));
+
+let ocrWorker: Promise<OcrWorker> | null = null;
+
+/**
+ * tesseract.js is only loaded the first time a scan runs without Gemini. The worker,
+ * its WebAssembly core and the English model are fetched once and then cached by the browser.
+ */
+const getOcrWorker = () => {
+  if (!ocrWorker) {
+    ocrWorker = import('tesseract.js')
+      .then(({ createWorker }) => createWorker('eng'))
+      .catch(error => {
+        ocrWorker = null;
+        throw error;
+      });
+  }
+  return ocrWorker;
+};
+
+/**
+ * Offline fallback: OCR the image on-device and run the patterns over each line.
+ * Only the words a match covers are boxed, so a redaction doesn't swallow the whole line.
+ */
+export const detectSecretsLocally = async (base64Image: string): Promise<DetectedSecret[]> => {
+  const img = new Image();
+  img.src = base64Image;
+  await img.decode();
+
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(img, {}, { blocks: true });
+
+  const results: DetectedSecret[] = [];
+  (data.blocks || []).forEach(block => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line => {
+    // Rebuild the line from its words so match offsets map back onto word boxes
+    let text = '';
+    const words = line.words.map(word => {
+      if (text) text += ' ';
+      const start = text.length;
+      text += word.text;
+      return { start, end: text.length, bbox: word.bbox };
+    });
+
+    findSensitiveMatches(text).forEach(match => {
+      const boxes: Bbox[] = words.filter(w => w.start < match.end && w.end > match.start).map(w => w.bbox);
+      if (boxes.length === 0) return;
+      results.push({
+        coordinates: [
+          (Math.min(...boxes.map(b => b.y0)) / img.naturalHeight) * 1000,
+          (Math.min(...boxes.map(b => b.x0)) / img.naturalWidth) * 1000,
+          (Math.max(...boxes.map(b => b.y1)) / img.naturalHeight) * 1000,
+          (Math.max(...boxes.map(b => b.x1)) / img.naturalWidth) * 1000
+        ],
+        category: match.category
+      });
+    });
+  })));
+  return results;
+};
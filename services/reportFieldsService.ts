@@ -0,0 +1,122 @@
+
+import { BugPriority, BugReportFields, BugSeverity, Slide } from '../types';
+
+export const SEVERITY_OPTIONS: { value: BugSeverity; label: string }[] = [
+  { value: 'blocker', label: 'Blocker' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'major', label: 'Major' },
+  { value: 'minor', label: 'Minor' },
+  { value: 'trivial', label: 'Trivial' }
+];
+
+export const PRIORITY_OPTIONS: { value: BugPriority; label: string }[] = [
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' }
+];
+
+export const EMPTY_REPORT_FIELDS: BugReportFields = { steps: [], expected: '', actual: '', labels: [] };
+
+// Unknown values (older or hand-edited data) are shown as stored rather than throwing
+export const getSeverityLabel = (severity: BugSeverity) => SEVERITY_OPTIONS.find(o => o.value === severity)?.label ?? String(severity);
+export const getPriorityLabel = (priority: BugPriority) => PRIORITY_OPTIONS.find(o => o.value === priority)?.label ?? String(priority);
+
+export const hasReportFields = (fields?: BugReportFields): fields is BugReportFields =>
+  !!fields && (!!fields.title?.trim() || fields.steps.length > 0 || !!fields.expected.trim() || !!fields.actual.trim() || !!fields.suspectedArea?.trim() || !!fields.severity || !!fields.priority || !!fields.component?.trim() || fields.labels.length > 0);
+
+/** Comma separated input to a clean label list, keeping the first spelling of duplicates */
+export const parseLabels = (text: string) => {
+  const seen = new Set<string>();
+  return text.split(',').map(label => label.trim()).filter(label => {
+    const key = label.toLowerCase();
+    if (!label || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Fields for an export: the active slide's for single-slide exports. Batches fall
+ * back to the first slide that has any, since sessions usually describe one bug.
+ */
+export const getExportReportFields = (slides: Slide[], activeSlideId: string, singleSlide: boolean): BugReportFields => {
+  const active = slides.find(s => s.id === activeSlideId);
+  if (hasReportFields(active?.report)) return active!.report!;
+  if (singleSlide) return EMPTY_REPORT_FIELDS;
+  return slides.find(s => hasReportFields(s.report))?.report || EMPTY_REPORT_FIELDS;
+};
+
+/** Markdown sections placed ahead of the observations; trackers without native fields get the classification as text */
+export const formatReportFieldsMarkdown = (fields: BugReportFields): string => {
+  const sections: string[] = [];
+  if (fields.steps.length > 0) sections.push(`## Steps to Reproduce\n\n${fields.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`);
+  if (fields.expected.trim()) sections.push(`## Expected Result\n\n${fields.expected.trim()}`);
+  if (fields.actual.trim()) sections.push(`## Actual Result\n\n${fields.actual.trim()}`);
+  if (fields.suspectedArea?.trim()) sections.push(`## Suspected Area\n\n${fields.suspectedArea.trim()}`);
+
+  const classification = [
+    fields.severity ? `**Severity:** ${getSeverityLabel(fields.severity)}` : '',
+    fields.priority ? `**Priority:** ${getPriorityLabel(fields.priority)}` : '',
+    fields.component?.trim() ? `**Component:** ${fields.component.trim()}` : '',
+    fields.labels.length > 0 ? `**Labels:** ${fields.labels.join(', ')}` : ''
+  ].filter(Boolean);
+  if (classification.length > 0) sections.push(classification.join(' · '));
+
+  return sections.join('\n\n');
+};
+
+/** Modal description prefill: the structured sections followed by the (AI) summary */
+export const prefillDescription = (summary: string, fields: BugReportFields) => {
+  const sections = formatReportFieldsMarkdown(fields);
+  return [sections, summary.trim()].filter(Boolean).join('\n\n');
+};
+
+/** Modal title prefill: a title written (or drafted) in the report wins over the per-export AI one */
+export const prefillTitle = (generated: string, fields: BugReportFields) => fields.title?.trim() || generated;
+
+// --- Native tracker values ---
+
+const JIRA_PRIORITIES: Record<BugPriority, string> = { urgent: 'Highest', high: 'High', medium: 'Medium', low: 'Low' };
+export const toJiraPriority = (priority: BugPriority) => JIRA_PRIORITIES[priority];
+
+/** Jira labels can't contain spaces */
+export const toJiraLabel = (label: string) => label.trim().replace(/\s+/g, '-');
+
+const CLICKUP_PRIORITIES: Record<BugPriority, number> = { urgent: 1, high: 2, medium: 3, low: 4 };
+export const toClickUpPriority = (priority: BugPriority) => CLICKUP_PRIORITIES[priority];
+
+const LINEAR_PRIORITIES: Record<BugPriority, number> = { urgent: 1, high: 2, medium: 3, low: 4 };
+export const toLinearPriority = (priority: BugPriority) => LINEAR_PRIORITIES[priority];
+
+const AZURE_DEVOPS_PRIORITIES: Record<BugPriority, number> = { urgent: 1, high: 2, medium: 3, low: 4 };
+export const toAzureDevOpsPriority = (priority: BugPriority) => AZURE_DEVOPS_PRIORITIES[priority];
+
+// The Bug process template's Severity picklist values
+const AZURE_DEVOPS_SEVERITIES: Record<BugSeverity, string> = {
+  blocker: '1 - Critical', critical: '1 - Critical', major: '2 - High', minor: '3 - Medium', trivial: '4 - Low'
+};
+export const toAzureDevOpsSeverity = (severity: BugSeverity) => AZURE_DEVOPS_SEVERITIES[severity];
+
+// Trackers name their options differently ("Normal" vs "Medium", "S1 - Critical"); accept the closest spelling
+const OPTION_ALIASES: Record<BugSeverity | BugPriority, string[]> = {
+  blocker: ['blocker', 'showstopper', 's0'],
+  critical: ['critical', 's1'],
+  major: ['major', 'high', 's2'],
+  minor: ['minor', 'low', 's3'],
+  trivial: ['trivial', 'cosmetic', 's4'],
+  urgent: ['urgent', 'highest', 'critical', 'p0', 'p1'],
+  high: ['high', 'p2'],
+  medium: ['medium', 'normal', 'p3'],
+  low: ['low', 'lowest', 'p4']
+};
+
+/** Pick the tracker option whose name matches a severity or priority, or undefined if none does */
+export const matchOptionByName = <T extends { name: string }>(options: T[], value: BugSeverity | BugPriority): T | undefined => {
+  const aliases = OPTION_ALIASES[value];
+  for (const alias of aliases) {
+    const exact = options.find(o => o.name.trim().toLowerCase() === alias);
+    if (exact) return exact;
+  }
+  return options.find(o => aliases.some(alias => new RegExp(`\\b${alias}\\b`, 'i').test(o.name)));
+};
@@ -0,0 +1,314 @@
+
+import { Slide, Annotation, ToolType } from '../types';
+import { generateTaskDescription, generateMasterDescription } from './clickUpService';
+import {
+  isRedaction,
+  isLinearAnnotation,
+  getNumberedAnnotations,
+  getAnnotationBounds,
+  getBadgePosition,
+  getArrowHeadPoints,
+  getFreehandPath,
+  getTextFontSize,
+  hexToRgba,
+  drawRedaction,
+  getAnnotationTimeRange
+} from './annotationService';
+import { loadImage, loadVideoFrame } from './mediaService';
+
+// Same fallback the composite export uses for slides that never recorded a display width
+const ESTIMATED_DISPLAY_HEIGHT = 800;
+const MAX_RENDER_WIDTH = 1920;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Annotation data can come from an imported archive, so every attribute value is escaped, numbers included */
+const attr = (value: string | number) => escapeHtml(String(value));
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const renderInline = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[\s(])_(.+?)_(?=[\s).,]|$)/g, '$1<em>$2</em>')
+    .replace(/\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<a href="$2" target="_blank" rel="noreferrer">$1</a>');
+
+/**
+ * Just enough Markdown for the descriptions the exporters generate. Numbered
+ * observation lines ("**1.** ...") become hoverable notes tied to their overlay.
+ */
+const markdownToHtml = (markdown: string, noteSuffix: (note: number) => string = () => '') => {
+  const html: string[] = [];
+  let inList = false;
+  let tableRows = 0;
+  const closeList = () => {
+    if (inList) html.push('</ul>');
+    inList = false;
+    if (tableRows > 0) html.push('</table>');
+    tableRows = 0;
+  };
+
+  markdown.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const note = line.match(/^\*\*(\d+)\.\*\*\s*(.*)$/);
+    if (line.startsWith('|') && line.endsWith('|') && line.length > 1) {
+      const cells = line.slice(1, -1).split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+      if (cells.every(cell => /^:?-+:?$/.test(cell))) return;
+      if (tableRows === 0) {
+        closeList();
+        html.push('<table>');
+      }
+      const tag = tableRows === 0 ? 'th' : 'td';
+      html.push(`<tr>${cells.map(cell => `<${tag}>${renderInline(cell)}</${tag}>`).join('')}</tr>`);
+      tableRows++;
+    } else if (!line) {
+      closeList();
+    } else if (line === '---') {
+      closeList();
+      html.push('<hr>');
+    } else if (line.startsWith('## ')) {
+      closeList();
+      html.push(`<h3>${renderInline(line.slice(3))}</h3>`);
+    } else if (line.startsWith('# ')) {
+      closeList();
+      html.push(`<h2>${renderInline(line.slice(2))}</h2>`);
+    } else if (line.startsWith('- ')) {
+      if (!inList) html.push('<ul>');
+      inList = true;
+      html.push(`<li>${renderInline(line.slice(2))}</li>`);
+    } else if (note) {
+      closeList();
+      html.push(`<p class="note" data-note="${note[1]}"><span class="num">${note[1]}</span><span>${renderInline(note[2])}</span>${noteSuffix(Number(note[1]))}</p>`);
+    } else {
+      closeList();
+      html.push(`<p>${renderInline(line)}</p>`);
+    }
+  });
+  closeList();
+  return html.join('\n');
+};
+
+const timeAttributes = (ann: Annotation) => {
+  const range = getAnnotationTimeRange(ann);
+  return range ? ` data-start="${attr(range.start)}" data-end="${attr(range.end)}"` : '';
+};
+
+const renderShape = (ann: Annotation, note: number) => {
+  const { minX, minY, maxX, maxY } = getAnnotationBounds(ann);
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const color = attr(ann.color);
+  const stroke = `stroke="${color}" stroke-width="3" vector-effect="non-scaling-stroke"`;
+  let shape = '';
+
+  switch (ann.type) {
+    case ToolType.RECTANGLE:
+      shape = `<rect x="${attr(minX)}" y="${attr(minY)}" width="${attr(width)}" height="${attr(height)}" rx="4" fill="${attr(hexToRgba(ann.color, 0.2))}" ${stroke}/>`;
+      break;
+    case ToolType.CIRCLE:
+      shape = `<ellipse cx="${attr(minX + width / 2)}" cy="${attr(minY + height / 2)}" rx="${attr(width / 2)}" ry="${attr(height / 2)}" fill="${attr(hexToRgba(ann.color, 0.2))}" ${stroke}/>`;
+      break;
+    case ToolType.FREEHAND:
+      shape = `<path d="${attr(getFreehandPath(ann.points || []))}" fill="none" stroke-linecap="round" stroke-linejoin="round" ${stroke}/>`;
+      break;
+    case ToolType.TEXT:
+      shape = `<text x="${attr(minX)}" y="${attr(minY + height / 2)}" dominant-baseline="middle" font-size="${attr(getTextFontSize(ann))}" font-weight="bold" fill="${color}" stroke="white" stroke-width="3" paint-order="stroke">${escapeHtml(ann.text || '')}</text>`;
+      break;
+    default:
+      if (isLinearAnnotation(ann)) {
+        shape = `<line x1="${attr(ann.start.x)}" y1="${attr(ann.start.y)}" x2="${attr(ann.end.x)}" y2="${attr(ann.end.y)}" stroke-linecap="round" ${stroke}/>`;
+        if (ann.type === ToolType.ARROW) {
+          const [a, b] = getArrowHeadPoints(ann.start, ann.end, 16);
+          shape += `<polygon points="${attr(`${ann.end.x},${ann.end.y} ${a.x},${a.y} ${b.x},${b.y}`)}" fill="${color}"/>`;
+        }
+      }
+  }
+  return `<g class="shape" data-note="${attr(note)}"${timeAttributes(ann)}>${shape}</g>`;
+};
+
+const renderBadge = (ann: Annotation, note: number, displayWidth: number, displayHeight: number) => {
+  const badge = getBadgePosition(ann);
+  const style = `left:${(badge.x / displayWidth) * 100}%;top:${(badge.y / displayHeight) * 100}%;background:${ann.color}`;
+  return `<div class="badge" data-note="${attr(note)}"${timeAttributes(ann)} style="${attr(style)}">${note}</div>`;
+};
+
+/** Draw the frame with redactions burned in, so hidden content never reaches the file */
+const renderRedactedFrame = (source: CanvasImageSource, naturalWidth: number, naturalHeight: number, displayWidth: number, redactions: Annotation[]) => {
+  const renderWidth = Math.min(naturalWidth, MAX_RENDER_WIDTH);
+  const renderHeight = naturalHeight * (renderWidth / naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = renderWidth;
+  canvas.height = renderHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas creation failed");
+  ctx.drawImage(source, 0, 0, renderWidth, renderHeight);
+  redactions.forEach(ann => drawRedaction(ctx, ann, renderWidth / displayWidth));
+  return canvas.toDataURL('image/png');
+};
+
+const renderSlide = async (slide: Slide, index: number) => {
+  const redactions = slide.annotations.filter(isRedaction);
+  const numbered = getNumberedAnnotations(slide.annotations);
+
+  let naturalWidth: number;
+  let naturalHeight: number;
+  let source: CanvasImageSource;
+  if (slide.type === 'video') {
+    const video = await loadVideoFrame(slide.src, redactions[0]?.timestamp || 0);
+    naturalWidth = video.videoWidth;
+    naturalHeight = video.videoHeight;
+    source = video;
+  } else {
+    const img = await loadImage(slide.src);
+    naturalWidth = img.naturalWidth;
+    naturalHeight = img.naturalHeight;
+    source = img;
+  }
+  if (!naturalWidth || !naturalHeight) throw new Error(`"${slide.name}" has no dimensions.`);
+
+  const displayWidth = slide.displayWidth || naturalWidth * (ESTIMATED_DISPLAY_HEIGHT / naturalHeight);
+  const displayHeight = displayWidth * (naturalHeight / naturalWidth);
+
+  // A recording can only be embedded as-is when nothing in it needs scrubbing
+  const playable = slide.type === 'video' && redactions.length === 0;
+  let media: string;
+  if (playable) {
+    media = `<video src="${attr(slide.src)}" controls preload="metadata"></video>`;
+  } else {
+    const src = redactions.length > 0
+      ? renderRedactedFrame(source, naturalWidth, naturalHeight, displayWidth, redactions)
+      : slide.src;
+    media = `<img src="${attr(src)}" alt="${attr(slide.name)}">`;
+  }
+
+  const shapes = numbered.map((ann, i) => renderShape(ann, i + 1)).join('');
+  const badges = numbered.map((ann, i) => renderBadge(ann, i + 1, displayWidth, displayHeight)).join('');
+  const seekLink = (note: number) => {
+    const time = numbered[note - 1]?.timestamp;
+    return playable && time !== undefined ? `<button class="seek" data-time="${attr(time)}">&#9654; ${formatTime(time)}</button>` : '';
+  };
+  const notice = slide.type === 'video' && !playable
+    ? '<p class="notice">This recording contains redactions, so a redacted frame is shown instead of the video.</p>'
+    : '';
+
+  return `
+<section class="slide${playable ? ' video' : ''}" id="slide-${index + 1}">
+  <h2>${index + 1}. ${escapeHtml(slide.name)}</h2>
+  <div class="layout">
+    <div class="stage">
+      ${media}
+      <svg viewBox="${attr(`0 0 ${displayWidth} ${displayHeight}`)}" preserveAspectRatio="none">${shapes}</svg>
+      ${badges}
+    </div>
+    <aside>
+      ${notice}
+      ${markdownToHtml(generateTaskDescription(slide), seekLink)}
+    </aside>
+  </div>
+</section>`;
+};
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; background: #f8fafc; color: #0f172a; }
+  header { padding: 32px 40px 8px; }
+  header h1 { margin: 0 0 4px; font-size: 26px; }
+  header .meta { color: #64748b; font-size: 13px; }
+  main { padding: 0 40px 40px; }
+  details.summary { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 12px 20px; margin: 16px 0 24px; }
+  details.summary summary { cursor: pointer; font-weight: 600; }
+  .slide { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 20px; margin-bottom: 24px; }
+  .slide > h2 { margin: 0 0 16px; font-size: 18px; }
+  .layout { display: flex; gap: 24px; align-items: flex-start; }
+  .stage { position: relative; flex: 1; min-width: 0; line-height: 0; }
+  .stage img, .stage video { width: 100%; height: auto; border-radius: 6px; background: #000; }
+  .stage svg { position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none; overflow: visible; }
+  .shape { pointer-events: visiblePainted; cursor: pointer; transition: opacity .15s; }
+  .shape.active { filter: drop-shadow(0 0 6px rgba(59, 130, 246, .9)); }
+  .badge { position: absolute; transform: translate(-50%, -50%); width: 24px; height: 24px; border-radius: 6px; color: #fff; font: bold 12px/24px sans-serif; text-align: center; cursor: pointer; transition: transform .15s, opacity .15s; }
+  .badge.active { transform: translate(-50%, -50%) scale(1.3); box-shadow: 0 0 0 3px rgba(59, 130, 246, .6); }
+  .video .off-time:not(.active) { opacity: 0; pointer-events: none; }
+  aside { width: 340px; flex-shrink: 0; font-size: 14px; line-height: 1.5; }
+  aside h3 { margin: 0 0 8px; font-size: 14px; text-transform: uppercase; letter-spacing: .04em; color: #64748b; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; margin: 0 0 12px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e2e8f0; vertical-align: top; word-break: break-word; }
+  th { color: #64748b; font-weight: 600; }
+  .note { display: flex; gap: 8px; align-items: flex-start; margin: 0 0 6px; padding: 6px 8px; border-radius: 8px; cursor: pointer; }
+  .note .num { flex-shrink: 0; width: 20px; height: 20px; border-radius: 5px; background: #e2e8f0; font-size: 11px; font-weight: bold; text-align: center; line-height: 20px; }
+  .note.active { background: #eff6ff; }
+  .note.active .num { background: #3b82f6; color: #fff; }
+  .seek { margin-left: auto; flex-shrink: 0; border: 1px solid #cbd5e1; background: #fff; border-radius: 6px; font-size: 11px; padding: 1px 6px; cursor: pointer; }
+  .notice { font-size: 12px; color: #92400e; background: #fffbeb; border-radius: 8px; padding: 6px 8px; }
+  hr { border: 0; border-top: 1px solid #e2e8f0; margin: 12px 0; }
+  @media (max-width: 900px) { .layout { flex-direction: column; } aside { width: 100%; } }
+`;
+
+// Hover linking between notes and overlays, timestamp jumps, and showing video overlays only within their time range
+const REPORT_SCRIPT = `
+document.querySelectorAll('.slide').forEach(function (slide) {
+  var items = slide.querySelectorAll('[data-note]');
+  items.forEach(function (el) {
+    var note = el.getAttribute('data-note');
+    var linked = slide.querySelectorAll('[data-note="' + note + '"]');
+    el.addEventListener('mouseenter', function () { linked.forEach(function (x) { x.classList.add('active'); }); });
+    el.addEventListener('mouseleave', function () { linked.forEach(function (x) { x.classList.remove('active'); }); });
+  });
+  var video = slide.querySelector('video');
+  if (!video) return;
+  slide.querySelectorAll('.seek').forEach(function (btn) {
+    btn.addEventListener('click', function () {
+      video.currentTime = parseFloat(btn.getAttribute('data-time'));
+      video.pause();
+      video.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+  });
+  var timed = slide.querySelectorAll('.stage [data-start]');
+  var update = function () {
+    timed.forEach(function (el) {
+      var start = parseFloat(el.getAttribute('data-start'));
+      var end = parseFloat(el.getAttribute('data-end'));
+      el.classList.toggle('off-time', video.currentTime < start || video.currentTime > end);
+    });
+  };
+  video.addEventListener('timeupdate', update);
+  video.addEventListener('seeked', update);
+  update();
+});
+`;
+
+/** Build a single self-contained HTML file with every slide, its overlays and notes embedded */
+export const generateHtmlReport = async (title: string, slides: Slide[]): Promise<string> => {
+  const sections: string[] = [];
+  for (let i = 0; i < slides.length; i++) {
+    sections.push(await renderSlide(slides[i], i));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">Generated by BugSnap on ${escapeHtml(new Date().toLocaleString())} &middot; ${slides.length} slide${slides.length === 1 ? '' : 's'}</div>
+</header>
+<main>
+  <details class="summary" open>
+    <summary>Summary</summary>
+    ${markdownToHtml(generateMasterDescription(slides))}
+  </details>
+  ${sections.join('\n')}
+</main>
+<script>${REPORT_SCRIPT}</script>
+</body>
+</html>`;
+};
@@ -0,0 +1,59 @@
+
+// Combos are written like "mod+shift+z": `mod` is Cmd on macOS and Ctrl elsewhere,
+// the last part is the key (a letter, digit, or a KeyboardEvent.key name in lowercase).
+
+const isMac = (): boolean =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Use the physical key for letters and digits so Shift/Alt don't change what we compare against
+const normalizeKey = (e: KeyboardEvent): string => {
+  if (e.code.startsWith('Key')) return e.code.slice(3).toLowerCase();
+  if (e.code.startsWith('Digit')) return e.code.slice(5);
+  return e.key.toLowerCase();
+};
+
+export const matchesShortcut = (e: KeyboardEvent, combo: string): boolean => {
+  const parts = combo.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const mac = isMac();
+
+  const modPressed = mac ? e.metaKey : e.ctrlKey;
+  const otherPressed = mac ? e.ctrlKey : e.metaKey;
+  if (otherPressed) return false;
+  if (modPressed !== parts.includes('mod')) return false;
+  if (e.shiftKey !== parts.includes('shift')) return false;
+  if (e.altKey !== parts.includes('alt')) return false;
+
+  return normalizeKey(e) === key;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  delete: 'Del',
+  backspace: '⌫',
+  escape: 'Esc',
+  pageup: 'PgUp',
+  pagedown: 'PgDn'
+};
+
+/** Human readable form of a combo, e.g. "⌘⇧Z" on macOS or "Ctrl+Shift+Z" elsewhere */
+export const formatShortcut = (combo: string): string => {
+  const mac = isMac();
+  const parts = combo.toLowerCase().split('+').map(part => {
+    if (part === 'mod') return mac ? '⌘' : 'Ctrl';
+    if (part === 'shift') return mac ? '⇧' : 'Shift';
+    if (part === 'alt') return mac ? '⌥' : 'Alt';
+    return KEY_LABELS[part] || part.toUpperCase();
+  });
+  return parts.join(mac ? '' : '+');
+};
+
+/** Typing in a field should never trigger single-key shortcuts */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  return el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable;
+};
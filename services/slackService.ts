@@ -2,6 +2,7 @@
 import { fetchWithProxy } from './proxyService';
 import { ReportedIssue, Slide, IssueMetric } from '../types';
 import { generateTaskDescription } from './clickUpService'; // Reuse markdown generator logic
+import { getEnvironmentFields, formatEnvironmentMrkdwn } from './environmentService';
 
 const SLACK_API_BASE = 'https://slack.com/api';
 
@@ -146,8 +147,9 @@ export const generateDashboardSummary = (metrics: any): string => {
 
 export const generateSlideMessage = (slide: Slide): string => {
     return `*Bug Report: ${slide.name}*\n\n` +
-           generateTaskDescription(slide)
+           generateTaskDescription(slide, false)
              .replace(/##/g, '*') // Basic markdown conversion for Slack
              .replace(/\*\*/g, '*')
-             .replace(/_/g, '_');
+             .replace(/_/g, '_') +
+           `\n\n*Environment*\n${formatEnvironmentMrkdwn(getEnvironmentFields(slide))}`;
 };
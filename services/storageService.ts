@@ -1,87 +1,314 @@
 
-import { Slide } from '../types';
+import { Slide, Annotation, Session } from '../types';
+import { readFileAsDataURL, dataUrlToBlob } from './mediaService';
 
 const DB_NAME = 'BugSnapDB';
-const STORE_NAME = 'slides';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
+// v1 kept whole slides, base64 media included, in a single store
+const LEGACY_STORE = 'slides';
+
+// v2 splits a slide into three records keyed by slide id
+const META_STORE = 'slideMeta';
+const MEDIA_STORE = 'media';
+const ANNOTATION_STORE = 'annotations';
+const SLIDE_STORES = [META_STORE, MEDIA_STORE, ANNOTATION_STORE];
+
+// v3 groups slides into named sessions; slide metadata carries its session id
+const SESSION_STORE = 'sessions';
+const SESSION_INDEX = 'sessionId';
+const ALL_STORES = [SESSION_STORE, ...SLIDE_STORES];
+
+type SlideMeta = Omit<Slide, 'src' | 'audio' | 'annotations'>;
+
+interface SlideMetaRecord extends SlideMeta {
+  sessionId: string;
+}
+
+interface MediaRecord {
+  slideId: string;
+  blob: Blob;
+  audio?: Blob; // Separate soundtrack of a recording
+}
+
+interface AnnotationRecord {
+  slideId: string;
+  annotations: Annotation[];
+}
+
+const toMeta = (slide: Slide): SlideMeta => {
+  const { src, audio, annotations, ...meta } = slide;
+  return meta;
+};
+
+const putMeta = (tx: IDBTransaction, sessionId: string, slide: Slide) => {
+  const record: SlideMetaRecord = { ...toMeta(slide), sessionId };
+  tx.objectStore(META_STORE).put(record);
+};
+
+// dataUrlToBlob is synchronous, so this also works inside the upgrade transaction
+const putMedia = (tx: IDBTransaction, slide: Slide) => {
+  const record: MediaRecord = { slideId: slide.id, blob: dataUrlToBlob(slide.src), audio: slide.audio ? dataUrlToBlob(slide.audio) : undefined };
+  tx.objectStore(MEDIA_STORE).put(record);
+};
+
+const putAnnotations = (tx: IDBTransaction, slide: Slide) => {
+  const record: AnnotationRecord = { slideId: slide.id, annotations: slide.annotations };
+  tx.objectStore(ANNOTATION_STORE).put(record);
+};
+
+const deleteRecords = (tx: IDBTransaction, slideId: string) => {
+  SLIDE_STORES.forEach(name => tx.objectStore(name).delete(slideId));
+};
+
+/** Run `onEach` for every slide meta record of a session inside an open transaction */
+const forEachSessionMeta = (tx: IDBTransaction, sessionId: string, onEach: (meta: SlideMetaRecord) => void) => {
+  const request = tx.objectStore(META_STORE).index(SESSION_INDEX).getAll(sessionId);
+  request.onsuccess = () => (request.result as SlideMetaRecord[]).forEach(onEach);
+};
+
+export const createSession = (name: string): Session => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  exportHistory: []
+});
+
+const migrateFromV1 = (db: IDBDatabase, tx: IDBTransaction, sessionId: string) => {
+  const request = tx.objectStore(LEGACY_STORE).getAll();
+  request.onsuccess = () => {
+    (request.result as Slide[]).forEach(slide => {
+      try {
+        putMeta(tx, sessionId, slide);
+        putMedia(tx, slide);
+        putAnnotations(tx, slide);
+      } catch (e) {
+        console.error("Failed to migrate slide", slide.id, e);
+      }
+    });
+    db.deleteObjectStore(LEGACY_STORE);
+  };
+};
+
+// Slides saved before sessions existed all belong to one default session
+const assignSlidesToSession = (tx: IDBTransaction, sessionId: string) => {
+  const request = tx.objectStore(META_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update({ ...cursor.value, sessionId });
+    cursor.continue();
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// A single shared connection keeps transactions in the order they were requested
 const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onerror = () => reject(request.error);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
     request.onsuccess = () => resolve(request.result);
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const db = request.result;
+      const tx = request.transaction!;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }
+      const metaStore = tx.objectStore(META_STORE);
+      if (!metaStore.indexNames.contains(SESSION_INDEX)) {
+        metaStore.createIndex(SESSION_INDEX, 'sessionId');
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        db.createObjectStore(MEDIA_STORE, { keyPath: 'slideId' });
+      }
+      if (!db.objectStoreNames.contains(ANNOTATION_STORE)) {
+        db.createObjectStore(ANNOTATION_STORE, { keyPath: 'slideId' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 3) {
+        const session = createSession('Session 1');
+        tx.objectStore(SESSION_STORE).put(session);
+        if (event.oldVersion < 2 && db.objectStoreNames.contains(LEGACY_STORE)) {
+          migrateFromV1(db, tx, session.id);
+        } else {
+          assignSlidesToSession(tx, session.id);
+        }
       }
     };
   });
+  return dbPromise;
 };
 
-export const saveSlidesToDB = async (slides: Slide[]) => {
+const runWrite = async (write: (tx: IDBTransaction) => void) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(ALL_STORES, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    write(tx);
+  });
+};
+
+/** Insert or replace every part of a slide */
+export const saveSlideToDB = async (sessionId: string, slide: Slide) => {
+  try {
+    await runWrite(tx => {
+      putMeta(tx, sessionId, slide);
+      putMedia(tx, slide);
+      putAnnotations(tx, slide);
+    });
+  } catch (e) {
+    console.error("Database Save Error:", e);
+  }
+};
+
+export const deleteSlideFromDB = async (slideId: string) => {
+  try {
+    await runWrite(tx => deleteRecords(tx, slideId));
+  } catch (e) {
+    console.error("Database Delete Error:", e);
+  }
+};
+
+/** Wipe every session and slide, e.g. on logout */
+export const clearDatabase = async () => {
+  try {
+    await runWrite(tx => ALL_STORES.forEach(name => tx.objectStore(name).clear()));
+  } catch (e) {
+    console.error("Database Clear Error:", e);
+  }
+};
+
+/**
+ * Write only what differs between two versions of a session's slide list:
+ * removed slides are deleted, and for the rest just the changed records
+ * (metadata, media, annotations) are upserted. Slides are compared by
+ * reference first, so untouched slides cost nothing.
+ */
+export const persistSlideChanges = async (sessionId: string, previous: Slide[], next: Slide[]) => {
+  const previousById = new Map(previous.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+  const removed = previous.filter(s => !nextIds.has(s.id));
+  const changed = next.filter(s => previousById.get(s.id) !== s);
+  if (removed.length === 0 && changed.length === 0) return;
+
+  try {
+    await runWrite(tx => {
+      removed.forEach(slide => deleteRecords(tx, slide.id));
+      changed.forEach(slide => {
+        const before = previousById.get(slide.id);
+        if (!before || before.src !== slide.src || before.audio !== slide.audio) putMedia(tx, slide);
+        if (!before || before.annotations !== slide.annotations) putAnnotations(tx, slide);
+        if (!before || JSON.stringify(toMeta(before)) !== JSON.stringify(toMeta(slide))) putMeta(tx, sessionId, slide);
+      });
+    });
+  } catch (e) {
+    console.error("Database Save Error:", e);
+  }
+};
+
+export const loadSlidesFromDB = async (sessionId: string): Promise<Slide[]> => {
   try {
     const db = await openDB();
-    return new Promise<void>((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
-        
-        // Clear existing to avoid stale data (simple sync)
-        const clearReq = store.clear();
-        
-        clearReq.onsuccess = () => {
-            if (slides.length === 0) {
-                resolve();
-                return;
-            }
-            
-            let completed = 0;
-            let errors = false;
-            
-            slides.forEach(slide => {
-                const req = store.put(slide);
-                req.onsuccess = () => {
-                    completed++;
-                    if (completed === slides.length) resolve();
-                };
-                req.onerror = () => {
-                    console.error("Failed to save slide", slide.id, req.error);
-                    errors = true;
-                    // Try to continue saving others
-                    completed++;
-                    if (completed === slides.length) resolve();
-                };
-            });
-        };
-        
-        clearReq.onerror = () => reject(clearReq.error);
-        
-        tx.oncomplete = () => resolve();
+    const records = await new Promise<{ meta: SlideMetaRecord; media?: MediaRecord; annotations?: AnnotationRecord }[]>((resolve, reject) => {
+        const tx = db.transaction(SLIDE_STORES, 'readonly');
+        const results: { meta: SlideMetaRecord; media?: MediaRecord; annotations?: AnnotationRecord }[] = [];
+        forEachSessionMeta(tx, sessionId, meta => {
+            const entry: typeof results[number] = { meta };
+            results.push(entry);
+            const mediaReq = tx.objectStore(MEDIA_STORE).get(meta.id);
+            mediaReq.onsuccess = () => { entry.media = mediaReq.result; };
+            const annotationReq = tx.objectStore(ANNOTATION_STORE).get(meta.id);
+            annotationReq.onsuccess = () => { entry.annotations = annotationReq.result; };
+        });
+        tx.oncomplete = () => resolve(results);
         tx.onerror = () => reject(tx.error);
     });
+
+    const slides = await Promise.all(records.map(async ({ meta, media, annotations }): Promise<Slide | null> => {
+        if (!media) return null; // Media never finished writing; drop the orphan
+        const { sessionId: _sessionId, ...slideMeta } = meta;
+        return {
+            ...slideMeta,
+            src: await readFileAsDataURL(media.blob),
+            audio: media.audio ? await readFileAsDataURL(media.audio) : undefined,
+            annotations: annotations?.annotations || []
+        };
+    }));
+
+    const loaded = slides.filter((s): s is Slide => s !== null);
+    // Ensure they are sorted by creation time
+    loaded.sort((a, b) => a.createdAt - b.createdAt);
+    return loaded;
   } catch (e) {
-      console.error("Database Save Error:", e);
+      console.error("Database Load Error:", e);
+      return [];
   }
 };
 
-export const loadSlidesFromDB = async (): Promise<Slide[]> => {
+export const loadSessionsFromDB = async (): Promise<Session[]> => {
   try {
     const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_NAME, 'readonly');
-        const store = tx.objectStore(STORE_NAME);
-        const request = store.getAll();
-        
-        request.onsuccess = () => {
-            const slides = request.result as Slide[];
-            // Ensure they are sorted by creation time
-            slides.sort((a, b) => a.createdAt - b.createdAt);
-            resolve(slides);
-        };
+    const sessions = await new Promise<Session[]>((resolve, reject) => {
+        const request = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).getAll();
+        request.onsuccess = () => resolve(request.result);
         request.onerror = () => reject(request.error);
     });
+    return sessions.sort((a, b) => a.createdAt - b.createdAt);
   } catch (e) {
       console.error("Database Load Error:", e);
       return [];
   }
 };
+
+/**
+ * Same diffing idea as persistSlideChanges, for the session list. Removing a
+ * session also deletes every slide that belongs to it.
+ */
+export const persistSessionChanges = async (previous: Session[], next: Session[]) => {
+  const previousById = new Map(previous.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+  const removed = previous.filter(s => !nextIds.has(s.id));
+  const changed = next.filter(s => previousById.get(s.id) !== s);
+  if (removed.length === 0 && changed.length === 0) return;
+
+  try {
+    await runWrite(tx => {
+      removed.forEach(session => {
+        tx.objectStore(SESSION_STORE).delete(session.id);
+        forEachSessionMeta(tx, session.id, meta => deleteRecords(tx, meta.id));
+      });
+      changed.forEach(session => tx.objectStore(SESSION_STORE).put(session));
+    });
+  } catch (e) {
+    console.error("Database Save Error:", e);
+  }
+};
+
+/** Store `copy` as a new session holding a copy of every slide in `sourceId` */
+export const duplicateSessionInDB = async (sourceId: string, copy: Session) => {
+  await runWrite(tx => {
+    tx.objectStore(SESSION_STORE).put(copy);
+    forEachSessionMeta(tx, sourceId, meta => {
+      const newId = crypto.randomUUID();
+      tx.objectStore(META_STORE).put({ ...meta, id: newId, sessionId: copy.id });
+      const mediaReq = tx.objectStore(MEDIA_STORE).get(meta.id);
+      mediaReq.onsuccess = () => {
+        if (mediaReq.result) tx.objectStore(MEDIA_STORE).put({ ...mediaReq.result, slideId: newId });
+      };
+      const annotationReq = tx.objectStore(ANNOTATION_STORE).get(meta.id);
+      annotationReq.onsuccess = () => {
+        if (annotationReq.result) tx.objectStore(ANNOTATION_STORE).put({ ...annotationReq.result, slideId: newId });
+      };
+    });
+  });
+};
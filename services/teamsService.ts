@@ -2,6 +2,7 @@
 import { fetchWithProxy } from './proxyService';
 import { Slide } from '../types';
 import { generateTaskDescription } from './clickUpService';
+import { EnvironmentField, getEnvironmentFields } from './environmentService';
 
 /**
  * Validates a Teams Webhook URL.
@@ -20,6 +21,20 @@ export const validateTeamsWebhookUrl = async (url: string): Promise<boolean> =>
     return true;
 };
 
+// TextBlock markdown has no tables; a FactSet is the card's equivalent
+const environmentBlocks = (fields: EnvironmentField[]) => [
+    {
+        type: "TextBlock",
+        text: "Environment",
+        weight: "Bolder",
+        spacing: "Medium"
+    },
+    {
+        type: "FactSet",
+        facts: fields.map(field => ({ title: field.label, value: field.value }))
+    }
+];
+
 /**
  * Sends a message to Microsoft Teams via Incoming Webhook.
  * Uses Adaptive Cards for rich formatting.
@@ -27,7 +42,8 @@ export const validateTeamsWebhookUrl = async (url: string): Promise<boolean> =>
 export const postTeamsMessage = async (
     webhookUrl: string,
     slide?: Slide, 
-    summaryText?: string
+    summaryText?: string,
+    summaryEnvironment?: EnvironmentField[] | null
 ) => {
     // Construct Adaptive Card Payload
     const cardBody: any[] = [];
@@ -49,7 +65,7 @@ export const postTeamsMessage = async (
         });
 
         // 2. Annotations / Description
-        const descMarkdown = generateTaskDescription(slide);
+        const descMarkdown = generateTaskDescription(slide, false);
         cardBody.push({
             type: "TextBlock",
             text: descMarkdown,
@@ -57,6 +73,9 @@ export const postTeamsMessage = async (
             spacing: "Medium"
         });
 
+        // 3. Environment
+        cardBody.push(...environmentBlocks(getEnvironmentFields(slide)));
+
     } else if (summaryText) {
         // Dashboard Summary
         cardBody.push({
@@ -72,6 +91,7 @@ export const postTeamsMessage = async (
             wrap: true,
             spacing: "Medium"
         });
+        if (summaryEnvironment) cardBody.push(...environmentBlocks(summaryEnvironment));
     }
 
     // Footer
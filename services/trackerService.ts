@@ -0,0 +1,133 @@
+
+import { IntegrationConfig, IntegrationSource, IssueTracker, Slide, TrackerExportRequest, TrackerIssue } from '../types';
+import { clickUpTracker, generateMasterDescription, generateTaskDescription } from './clickUpService';
+import { jiraTracker } from './jiraService';
+import { asanaTracker } from './asanaService';
+import { trelloTracker } from './trelloService';
+import { zohoProjectsTracker } from './zohoService';
+import { zohoSprintsTracker } from './zohoSprintsService';
+import { githubTracker } from './githubService';
+import { gitlabTracker } from './gitlabService';
+import { linearTracker } from './linearService';
+import { azureDevOpsTracker } from './azureDevOpsService';
+import { uploadToDrive } from './googleDriveService';
+
+/**
+ * Tracker Service
+ * Registry of issue tracker adapters and the export pipeline they share.
+ * Adding a tracker means exporting an IssueTracker from its service, listing it here
+ * and giving it an export modal in components/trackerModals; menus are built from this list.
+ */
+
+export const TRACKERS: IssueTracker[] = [clickUpTracker, jiraTracker, asanaTracker, trelloTracker, zohoProjectsTracker, zohoSprintsTracker, githubTracker, gitlabTracker, linearTracker, azureDevOpsTracker]
+  .sort((a, b) => a.order - b.order);
+
+export const getTracker = (source: IntegrationSource): IssueTracker | undefined =>
+  TRACKERS.find(tracker => tracker.source === source);
+
+/** Rendering lives in the Editor (canvas, keyframes, GIFs); the pipeline only decides what goes where */
+export interface ExportRenderer {
+  renderImage: (slide: Slide) => Promise<Blob>;
+  /** Keyframes, GIF clips and captured logs that accompany the slide's image */
+  uploadExtras: (slide: Slide, baseName: string, upload: (blob: Blob, filename: string) => Promise<unknown>) => Promise<void>;
+}
+
+export interface TrackerExportResult {
+  issue: TrackerIssue;
+  usedDriveBackup: boolean; // Attachments went to Google Drive because the tracker's storage was full
+}
+
+/** Hosted files' links, as a section for the end of a description or comment */
+export const formatAttachmentLinks = (links: string[]) =>
+  links.length > 0 ? `\n\n---\n### Attachments\n${links.join('\n')}` : '';
+
+/**
+ * Upload each slide's image and extras to the issue.
+ * Links returned for hosted files are added to the description in one update at the end.
+ * When the tracker's storage is full, the slides that didn't make it go to Google Drive and are linked from the description instead.
+ */
+const attachSlides = async (
+  tracker: IssueTracker,
+  config: IntegrationConfig,
+  issue: TrackerIssue,
+  targets: Slide[],
+  singleSlide: boolean,
+  description: string,
+  renderer: ExportRenderer
+): Promise<boolean> => {
+  const links: string[] = [];
+  const upload = async (blob: Blob, filename: string) => {
+    const link = await tracker.uploadAttachment(config, issue, blob, filename);
+    if (link) links.push(link);
+  };
+  const appendLinks = async (markdown: string) => {
+    if (tracker.appendToIssue) await tracker.appendToIssue(config, issue, markdown);
+    else await tracker.updateIssue(config, issue, { description: description + markdown });
+  };
+  let attached = 0;
+  try {
+    for (const slide of targets) {
+      const baseName = singleSlide ? 'report' : slide.name;
+      await upload(await renderer.renderImage(slide), `${baseName}.jpg`);
+      await renderer.uploadExtras(slide, baseName, upload);
+      attached++;
+    }
+    if (links.length > 0) await appendLinks(formatAttachmentLinks(links));
+    return false;
+  } catch (error) {
+    if (!(error instanceof Error && error.message.includes('Storage Full'))) throw error;
+    if (!config.googleDriveToken) throw new Error(`${tracker.name} storage is full. Connect Google Drive in Integrations to use it as a backup.`);
+
+    let linksMd = "\n\n---\n### Drive Backup Attachments\n";
+    for (const slide of targets.slice(attached)) {
+      const driveFile = await uploadToDrive(config.googleDriveToken, await renderer.renderImage(slide), `BugSnap_${slide.name}.jpg`);
+      linksMd += `- [${slide.name}](${driveFile.webViewLink})\n`;
+    }
+    await appendLinks(formatAttachmentLinks(links) + linksMd);
+    return true;
+  }
+};
+
+/**
+ * File a report with any tracker.
+ * `current` and `attach_to_task` send the active slide; the other modes send every slide,
+ * as attachments on one issue or as one subtask each.
+ */
+export const exportToTracker = async (
+  tracker: IssueTracker,
+  config: IntegrationConfig,
+  request: TrackerExportRequest,
+  slides: Slide[],
+  activeSlide: Slide,
+  renderer: ExportRenderer
+): Promise<TrackerExportResult> => {
+  const { mode, ...input } = request;
+  if (mode === 'attach_to_task' && !input.parentId) throw new Error("No parent task selected.");
+
+  const singleSlide = mode === 'current' || mode === 'attach_to_task';
+  const title = input.title || (singleSlide ? activeSlide.name || 'Bug Report' : `Bug Report - ${new Date().toLocaleString()}`);
+  const description = input.description || (singleSlide ? generateTaskDescription(activeSlide) : generateMasterDescription(slides));
+
+  const issue = await tracker.createIssue(config, { ...input, title, description, parentId: mode === 'attach_to_task' ? input.parentId : undefined });
+
+  if (mode !== 'all_subtasks') {
+    const usedDriveBackup = await attachSlides(tracker, config, issue, singleSlide ? [activeSlide] : slides, singleSlide, description, renderer);
+    return { issue, usedDriveBackup };
+  }
+
+  let usedDriveBackup = false;
+  for (const slide of slides) {
+    const subDescription = generateTaskDescription(slide);
+    const subIssue = await tracker.createIssue(config, {
+      destinationId: input.destinationId,
+      containerId: input.containerId,
+      issueTypeId: input.issueTypeId,
+      parentId: issue.id,
+      title: slide.name || 'Slide Issue',
+      description: subDescription,
+      fields: slide.report
+    });
+    if (await attachSlides(tracker, config, subIssue, [slide], true, subDescription, renderer)) usedDriveBackup = true;
+  }
+  return { issue, usedDriveBackup };
+};
@@ -1,6 +1,6 @@
 
 import { fetchWithProxy } from './proxyService';
-import { TrelloBoard, TrelloList, ReportedIssue } from '../types';
+import { TrelloBoard, TrelloList, ReportedIssue, IssueTracker } from '../types';
 
 const TRELLO_API_BASE = 'https://api.trello.com/1';
 
@@ -120,6 +120,22 @@ export const uploadTrelloAttachment = async (key: string, token: string, cardId:
   return await response.json();
 };
 
+/**
+ * Replace a card's description.
+ */
+export const updateTrelloCard = async (key: string, token: string, cardId: string, desc: string) => {
+  const response = await fetchWithProxy(`${TRELLO_API_BASE}/cards/${cardId}?${getAuthParams(key, token)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ desc })
+  });
+
+  if (!response.ok) throw new Error("Trello Update Failed");
+  return await response.json();
+};
+
 /**
  * Fetch Cards for Dashboard.
  * Fetches "My Cards" (assigned to me) across all boards.
@@ -147,3 +163,33 @@ export const fetchTrelloCards = async (key: string, token: string): Promise<Repo
       url: c.shortUrl
   }));
 };
+
+export const trelloTracker: IssueTracker = {
+  source: 'Trello',
+  name: 'Trello',
+  order: 40,
+  dashboardScope: 'account',
+  isConfigured: (config) => !!config.trelloApiKey && !!config.trelloToken,
+  validate: async (config) => {
+    if (!config.trelloApiKey || !config.trelloToken) throw new Error("API Key and Token are required.");
+    if (!await validateTrelloCredentials(config.trelloApiKey, config.trelloToken)) throw new Error("Trello Authentication Failed.");
+  },
+  listDestinations: async (config) => {
+    const boards = await getTrelloBoards(config.trelloApiKey!, config.trelloToken!);
+    const perBoard = await Promise.all(boards.map(async board =>
+      (await getTrelloLists(config.trelloApiKey!, config.trelloToken!, board.id)).map(list => ({ id: list.id, name: list.name, group: board.name, containerId: board.id }))
+    ));
+    return perBoard.flat();
+  },
+  createIssue: async (config, input) => {
+    const card = await createTrelloCard(config.trelloApiKey!, config.trelloToken!, input.destinationId, input.title, input.description);
+    return { id: card.id, url: card.url, destinationId: input.destinationId };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    await uploadTrelloAttachment(config.trelloApiKey!, config.trelloToken!, issue.id, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    await updateTrelloCard(config.trelloApiKey!, config.trelloToken!, issue.id, update.description);
+  },
+  fetchIssues: (config) => fetchTrelloCards(config.trelloApiKey!, config.trelloToken!)
+};
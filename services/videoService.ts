@@ -0,0 +1,146 @@
+
+import { Annotation } from '../types';
+import { getAnnotationTimeRange, translateAnnotation, getAnnotationBounds } from './annotationService';
+import { loadVideo, seekVideo } from './mediaService';
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoEditOptions {
+  start: number; // Seconds
+  end: number;
+  crop?: CropRect; // In source video pixels
+  maxHeight?: number; // Downscale so the output is at most this tall
+  videoBitsPerSecond: number;
+}
+
+const OUTPUT_FPS = 30;
+const AUDIO_BITS_PER_SECOND = 96_000;
+
+const OUTPUT_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/** Rough output size, used to warn before hitting attachment limits */
+export const estimateVideoSize = (options: VideoEditOptions): number =>
+  Math.round(((options.videoBitsPerSecond + AUDIO_BITS_PER_SECOND) / 8) * Math.max(0, options.end - options.start));
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Even dimensions keep VP8/VP9 encoders happy */
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Re-encode a video with trim, crop and downscale applied. Encoding plays the
+ * clip through a canvas in real time, so it takes as long as the trimmed clip.
+ */
+export const transcodeVideo = async (src: string, options: VideoEditOptions, onProgress?: (progress: number) => void): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') throw new Error("This browser can't re-encode video.");
+  const mimeType = OUTPUT_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+  const video = await loadVideo(src, false);
+  const crop = options.crop || { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+  if (crop.width <= 0 || crop.height <= 0) throw new Error("Crop area is empty.");
+  const ratio = options.maxHeight ? Math.min(1, options.maxHeight / crop.height) : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = even(crop.width * ratio);
+  canvas.height = even(crop.height * ratio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas creation failed");
+
+  // Route the soundtrack into the recording without playing it aloud
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  audioContext.createMediaElementSource(video).connect(audioDestination);
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(OUTPUT_FPS).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks()
+  ]);
+  const recorder = new MediaRecorder(stream, {
+    mimeType: mimeType || undefined,
+    videoBitsPerSecond: options.videoBitsPerSecond,
+    audioBitsPerSecond: AUDIO_BITS_PER_SECOND
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const end = Math.min(options.end, Number.isFinite(video.duration) ? video.duration : options.end);
+  const length = Math.max(0.001, end - options.start);
+
+  try {
+    await seekVideo(video, options.start);
+    const drawFrame = () => ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    drawFrame();
+
+    await new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        video.pause();
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error("Video encoding failed."));
+      video.onended = finish;
+
+      const tick = () => {
+        if (recorder.state === 'inactive') return;
+        drawFrame();
+        onProgress?.(Math.min(1, (video.currentTime - options.start) / length));
+        if (video.currentTime >= end) finish();
+        else requestAnimationFrame(tick);
+      };
+
+      recorder.start(1000);
+      video.play().then(() => requestAnimationFrame(tick)).catch(reject);
+    });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+    video.removeAttribute('src');
+  }
+
+  if (chunks.length === 0) throw new Error("Encoder produced no data.");
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Move annotations into the edited clip's frame of reference: timestamps shift
+ * by the trim start and coordinates by the crop offset. Annotations that fall
+ * outside the kept segment or area are dropped.
+ * `displayScale` is display pixels per source pixel (displayWidth / videoWidth).
+ */
+export const adjustAnnotationsForEdit = (annotations: Annotation[], options: VideoEditOptions, displayScale: number): Annotation[] => {
+  const length = options.end - options.start;
+  const crop = options.crop;
+
+  return annotations.flatMap(ann => {
+    let next = ann;
+
+    const range = getAnnotationTimeRange(ann);
+    if (range) {
+      if (range.end < options.start || range.start > options.end) return [];
+      const start = Math.max(0, range.start - options.start);
+      next = {
+        ...next,
+        timestamp: start,
+        endTimestamp: Math.max(start + 0.1, Math.min(length, range.end - options.start))
+      };
+    }
+
+    if (crop) {
+      next = translateAnnotation(next, -crop.x * displayScale, -crop.y * displayScale);
+      const bounds = getAnnotationBounds(next);
+      const width = crop.width * displayScale;
+      const height = crop.height * displayScale;
+      if (bounds.maxX < 0 || bounds.maxY < 0 || bounds.minX > width || bounds.minY > height) return [];
+    }
+
+    return [next];
+  });
+};
@@ -1,6 +1,7 @@
 
 import { fetchWithProxy } from './proxyService';
-import { ZohoPortal, ZohoProject, ReportedIssue } from '../types';
+import { ZohoPortal, ZohoProject, ReportedIssue, BugReportFields, BugSeverity, IssueTracker, IntegrationConfig } from '../types';
+import { matchOptionByName } from './reportFieldsService';
 
 /**
  * Zoho Projects Service
@@ -140,6 +141,21 @@ export const getZohoProjects = async (dc: string, token: string, portalId: strin
   }));
 };
 
+/**
+ * Look up the portal's severity id matching a BugSnap severity.
+ * Severities are configurable per portal, so they're matched by name.
+ */
+const getZohoSeverityId = async (dc: string, token: string, portalId: string, projectId: string, severity: BugSeverity): Promise<string | undefined> => {
+  const response = await fetchWithProxy(`${getBaseUrl(dc)}/portal/${portalId}/projects/${projectId}/bugs/defaultfields/`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) return undefined;
+
+  const data = await response.json();
+  const options = (data.defaultfields?.severity_details || []).map((d: any) => ({ id: String(d.severity_id), name: d.severity_name || '' }));
+  return matchOptionByName<{ id: string; name: string }>(options, severity)?.id;
+};
+
 /**
  * Create a Bug in Zoho Projects
  */
@@ -149,7 +165,8 @@ export const createZohoBug = async (
   portalId: string, 
   projectId: string, 
   title: string, 
-  description: string
+  description: string,
+  fields?: BugReportFields
 ) => {
   const url = `${getBaseUrl(dc)}/portal/${portalId}/projects/${projectId}/bugs/`;
   
@@ -157,6 +174,10 @@ export const createZohoBug = async (
   formData.append('title', title);
   formData.append('description', description); 
   // Optional: formData.append('classification_id', '...'); // e.g. Bug type
+  if (fields?.severity) {
+    const severityId = await getZohoSeverityId(dc, token, portalId, projectId, fields.severity);
+    if (severityId) formData.append('severity_id', severityId);
+  }
 
   const response = await fetchWithProxy(url, {
     method: 'POST',
@@ -197,6 +218,27 @@ export const uploadZohoAttachment = async (dc: string, token: string, portalId:
   return await response.json();
 };
 
+/**
+ * Replace a bug's description
+ */
+export const updateZohoBug = async (dc: string, token: string, portalId: string, projectId: string, bugId: string, description: string) => {
+  const url = `${getBaseUrl(dc)}/portal/${portalId}/projects/${projectId}/bugs/${bugId}/`;
+
+  const formData = new FormData();
+  formData.append('description', description);
+
+  const response = await fetchWithProxy(url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`
+    },
+    body: formData
+  });
+
+  if (!response.ok) throw new Error("Zoho Update Failed");
+  return await response.json();
+};
+
 /**
  * Fetch Bugs for Dashboard
  */
@@ -231,3 +273,46 @@ export const fetchZohoBugs = async (dc: string, token: string, portalId: string,
       url: b.link ? b.link.self : undefined // Link might need construction based on portal settings
   }));
 };
+
+const getCredentials = (config: IntegrationConfig) => ({ dc: config.zohoDC!, token: config.zohoToken! });
+
+export const zohoProjectsTracker: IssueTracker = {
+  source: 'Zoho',
+  name: 'Zoho Projects',
+  order: 50,
+  dashboardScope: 'destination',
+  isConfigured: (config) => !!config.zohoToken && !!config.zohoDC,
+  validate: async (config) => {
+    if (!config.zohoToken || !config.zohoDC) throw new Error("Missing Zoho Projects configuration.");
+    const { dc, token } = getCredentials(config);
+    await validateZohoToken(dc, token);
+  },
+  // Projects live under portals; the portal ID rides along as the container
+  listDestinations: async (config) => {
+    const { dc, token } = getCredentials(config);
+    const portals = await getZohoPortals(dc, token);
+    const perPortal = await Promise.all(portals.map(async portal =>
+      (await getZohoProjects(dc, token, portal.id)).map(project => ({ id: project.id, name: project.name, group: portal.name, containerId: portal.id }))
+    ));
+    return perPortal.flat();
+  },
+  createIssue: async (config, input) => {
+    const { dc, token } = getCredentials(config);
+    const portalId = input.containerId || '';
+    const bug = await createZohoBug(dc, token, portalId, input.destinationId, input.title, input.description, input.fields);
+    return { id: bug.id_string || String(bug.id), url: bug.link?.web?.url || bug.link?.self?.url || 'https://projects.zoho.com', destinationId: input.destinationId, containerId: portalId };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    const { dc, token } = getCredentials(config);
+    await uploadZohoAttachment(dc, token, issue.containerId || '', issue.destinationId, issue.id, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    const { dc, token } = getCredentials(config);
+    await updateZohoBug(dc, token, issue.containerId || '', issue.destinationId, issue.id, update.description);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    const { dc, token } = getCredentials(config);
+    return fetchZohoBugs(dc, token, destination.containerId || '', destination.id);
+  }
+};
@@ -1,6 +1,7 @@
 
 import { fetchWithProxy } from './proxyService';
-import { ZohoSprintsTeam, ZohoSprintsProject, ZohoSprintsItemType, ReportedIssue } from '../types';
+import { ZohoSprintsTeam, ZohoSprintsProject, ZohoSprintsItemType, ReportedIssue, IssueTracker, IntegrationConfig, BugReportFields } from '../types';
+import { matchOptionByName } from './reportFieldsService';
 
 /**
  * Zoho Sprints Service
@@ -146,6 +147,25 @@ export const getZohoSprintsItemTypes = async (dc: string, token: string, teamId:
     }));
 };
 
+/**
+ * Look up the project priority matching a report.
+ * Sprints items have no severity field, so severity stands in when no priority was set.
+ * Priorities are configurable per project, so they're matched by name.
+ */
+const getZohoSprintsPriorityId = async (dc: string, token: string, teamId: string, projectId: string, fields: BugReportFields): Promise<string | undefined> => {
+  const value = fields.priority || fields.severity;
+  if (!value) return undefined;
+
+  const response = await fetchWithProxy(`${getBaseUrl(dc)}/teams/${teamId}/projects/${projectId}/priority`, {
+    headers: { 'Authorization': `Zoho-oauthtoken ${token}` }
+  });
+  if (!response.ok) return undefined;
+
+  const data = await response.json();
+  const options = (data || []).map((p: any) => ({ id: String(p.id), name: p.name || '' }));
+  return matchOptionByName<{ id: string; name: string }>(options, value)?.id;
+};
+
 /**
  * Create an Item in Zoho Sprints
  */
@@ -156,7 +176,8 @@ export const createZohoSprintsItem = async (
   projectId: string,
   itemTypeId: string,
   title: string, 
-  description: string
+  description: string,
+  fields?: BugReportFields
 ) => {
   const url = `${getBaseUrl(dc)}/teams/${teamId}/projects/${projectId}/items`;
   
@@ -164,6 +185,10 @@ export const createZohoSprintsItem = async (
   formData.append('name', title);
   formData.append('description', description); 
   formData.append('itemtypeId', itemTypeId);
+  if (fields) {
+    const priorityId = await getZohoSprintsPriorityId(dc, token, teamId, projectId, fields);
+    if (priorityId) formData.append('priorityId', priorityId);
+  }
 
   const response = await fetchWithProxy(url, {
     method: 'POST',
@@ -204,6 +229,27 @@ export const uploadZohoSprintsAttachment = async (dc: string, token: string, tea
   return await response.json();
 };
 
+/**
+ * Replace an item's description
+ */
+export const updateZohoSprintsItem = async (dc: string, token: string, teamId: string, projectId: string, itemId: string, description: string) => {
+  const url = `${getBaseUrl(dc)}/teams/${teamId}/projects/${projectId}/items/${itemId}`;
+
+  const formData = new FormData();
+  formData.append('description', description);
+
+  const response = await fetchWithProxy(url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Zoho-oauthtoken ${token}`
+    },
+    body: formData
+  });
+
+  if (!response.ok) throw new Error("Sprints Update Failed");
+  return await response.json();
+};
+
 /**
  * Fetch Items for Dashboard
  */
@@ -235,3 +281,46 @@ export const fetchZohoSprintsItems = async (dc: string, token: string, teamId: s
       url: i.link || undefined
   }));
 };
+
+const getCredentials = (config: IntegrationConfig) => ({ dc: config.zohoSprintsDC!, token: config.zohoSprintsToken! });
+
+export const zohoSprintsTracker: IssueTracker = {
+  source: 'ZohoSprints',
+  name: 'Zoho Sprints',
+  order: 60,
+  dashboardScope: 'destination',
+  isConfigured: (config) => !!config.zohoSprintsToken && !!config.zohoSprintsDC,
+  validate: async (config) => {
+    if (!config.zohoSprintsToken || !config.zohoSprintsDC) throw new Error("Missing Zoho Sprints configuration.");
+    const { dc, token } = getCredentials(config);
+    await validateZohoSprintsToken(dc, token);
+  },
+  // Projects live under teams; the team ID rides along as the container
+  listDestinations: async (config) => {
+    const { dc, token } = getCredentials(config);
+    const teams = await getZohoSprintsTeams(dc, token);
+    const perTeam = await Promise.all(teams.map(async team =>
+      (await getZohoSprintsProjects(dc, token, team.id)).map(project => ({ id: project.id, name: project.name, group: team.name, containerId: team.id }))
+    ));
+    return perTeam.flat();
+  },
+  createIssue: async (config, input) => {
+    const { dc, token } = getCredentials(config);
+    const teamId = input.containerId || '';
+    const item = await createZohoSprintsItem(dc, token, teamId, input.destinationId, input.issueTypeId || '', input.title, input.description, input.fields);
+    return { id: item.itemNo || item.id, url: 'https://sprints.zoho.com', destinationId: input.destinationId, containerId: teamId };
+  },
+  uploadAttachment: async (config, issue, file, filename) => {
+    const { dc, token } = getCredentials(config);
+    await uploadZohoSprintsAttachment(dc, token, issue.containerId || '', issue.destinationId, issue.id, file, filename);
+  },
+  updateIssue: async (config, issue, update) => {
+    const { dc, token } = getCredentials(config);
+    await updateZohoSprintsItem(dc, token, issue.containerId || '', issue.destinationId, issue.id, update.description);
+  },
+  fetchIssues: async (config, destination) => {
+    if (!destination) return [];
+    const { dc, token } = getCredentials(config);
+    return fetchZohoSprintsItems(dc, token, destination.containerId || '', destination.id);
+  }
+};
@@ -2,9 +2,16 @@
 export enum ToolType {
   SELECT = 'SELECT',
   RECTANGLE = 'RECTANGLE',
-  CIRCLE = 'CIRCLE'
+  CIRCLE = 'CIRCLE',
+  ARROW = 'ARROW',
+  LINE = 'LINE',
+  FREEHAND = 'FREEHAND',
+  TEXT = 'TEXT',
+  REDACT = 'REDACT'
 }
 
+export type RedactionStyle = 'solid' | 'pixelate' | 'blur';
+
 export interface Point {
   x: number;
   y: number;
@@ -15,8 +22,12 @@ export interface Annotation {
   type: ToolType;
   start: Point;
   end: Point;
+  points?: Point[]; // For FREEHAND strokes
+  text?: string; // For TEXT labels drawn on the image
+  redactStyle?: RedactionStyle; // For REDACT regions
   comment: string;
-  timestamp?: number; // For video
+  timestamp?: number; // For video: when the annotation appears (seconds)
+  endTimestamp?: number; // For video: when it disappears; unset on older single-moment annotations
   color: string;
 }
 
@@ -27,7 +38,93 @@ export interface Slide {
   thumbnail?: string;
   name: string;
   annotations: Annotation[];
+  displayWidth?: number; // On-screen width annotation coordinates were drawn against
+  audio?: string; // Microphone/system soundtrack recorded with a video, kept separately for transcription
+  logs?: SlideLogs; // Console and network activity captured from the page under test
+  environment?: EnvironmentInfo; // Reporter's browser and device at capture time
+  report?: BugReportFields; // Structured details mapped onto tracker fields on export
+  createdAt: number;
+}
+
+export type BugSeverity = 'blocker' | 'critical' | 'major' | 'minor' | 'trivial';
+export type BugPriority = 'urgent' | 'high' | 'medium' | 'low';
+
+export interface BugReportFields {
+  title?: string; // Preferred export title over the AI-generated one
+  steps: string[];
+  expected: string;
+  actual: string;
+  suspectedArea?: string; // Where in the product the cause likely lives, free text
+  severity?: BugSeverity;
+  priority?: BugPriority;
+  component?: string;
+  labels: string[];
+}
+
+export type CaptureSource = 'browser' | 'window' | 'monitor' | 'file';
+
+export interface EnvironmentInfo {
+  browser: string; // e.g. "Chrome 126"
+  os: string; // e.g. "macOS 14.5"
+  userAgent: string;
+  viewportWidth: number;
+  viewportHeight: number;
+  screenWidth: number;
+  screenHeight: number;
+  devicePixelRatio: number;
+  locale: string;
+  timezone: string;
+  appVersion: string;
+  pageUrl?: string;
+  pageTitle?: string;
+  captureSource?: CaptureSource;
+  captureWidth?: number; // Resolution of the captured surface, when it came from a screen share
+  captureHeight?: number;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+  timestamp: number; // Epoch ms
+  stack?: string;
+  source?: 'console' | 'uncaught' | 'rejection';
+}
+
+export interface NetworkEntry {
+  method: string;
+  url: string;
+  status: number; // 0 when the request never got a response
+  statusText?: string;
+  startedAt: number; // Epoch ms
+  duration: number; // ms
+  mimeType?: string;
+  responseSize?: number; // Bytes, -1 if unknown
+  error?: string;
+}
+
+export interface SlideLogs {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+  pageUrl?: string;
+  capturedAt: number;
+}
+
+export interface SessionExport {
+  platform: string;
+  url?: string;
+  exportedAt: number;
+}
+
+// A named capture session (e.g. one QA test pass) owning its own slides
+export interface Session {
+  id: string;
+  name: string;
   createdAt: number;
+  updatedAt: number;
+  archived?: boolean;
+  exportHistory: SessionExport[];
 }
 
 export interface User {
@@ -67,7 +164,27 @@ export interface IntegrationConfig {
   zohoDC?: string; // Zoho Data Center (eu, com, etc.)
   zohoSprintsToken?: string; // Zoho Sprints OAuth Token
   zohoSprintsDC?: string; // Zoho Sprints Data Center
+  // GitHub Configuration
+  githubToken?: string; // Personal access token with repo scope
+  githubRepo?: string; // "owner/name" last exported to
+  githubAttachmentStorage?: 'branch' | 'drive'; // Where screenshots are hosted; GitHub issues have no attachment API
+  // GitLab Configuration
+  gitlabUrl?: string; // e.g. https://gitlab.com or a self-hosted instance
+  gitlabToken?: string; // Personal access token with api scope
+  gitlabProject?: string; // "group/project" path last exported to
+  // Linear Configuration
+  linearApiKey?: string; // Personal API key
+  linearTeamId?: string; // Team last exported to
+  // Azure DevOps Configuration
+  azureDevOpsToken?: string; // Personal access token with Work Items read & write
+  azureDevOpsOrganization?: string; // Default organization, e.g. "contoso" in dev.azure.com/contoso
+  azureDevOpsProject?: string; // Project last exported to
   googleDriveToken?: string; // Google Drive Access Token for Backup
+  attachVideoKeyframes?: boolean; // Upload a still per observation alongside video slides (default on)
+  attachVideoGifs?: boolean; // Upload an annotated GIF per observation's time range alongside video slides
+  recordMicrophone?: boolean; // Mix microphone narration into screen recordings
+  recordSystemAudio?: boolean; // Capture tab/system audio with screen recordings (default on)
+  duplicateSemanticMatch?: boolean; // Also compare Gemini embeddings when looking for duplicate issues
 
   // Scheduled Reporting
   scheduleEnabled?: boolean;
@@ -90,7 +207,7 @@ export interface IssueMetric {
   fill: string;
 }
 
-export type IntegrationSource = 'ClickUp' | 'Jira' | 'Slack' | 'Teams' | 'Asana' | 'Trello' | 'Webhook' | 'Zoho' | 'ZohoSprints' | 'GoogleDrive';
+export type IntegrationSource = 'ClickUp' | 'Jira' | 'Slack' | 'Teams' | 'Asana' | 'Trello' | 'Webhook' | 'Zoho' | 'ZohoSprints' | 'GoogleDrive' | 'GitHub' | 'GitLab' | 'Linear' | 'AzureDevOps';
 
 export interface ReportedIssue {
   id: string;
@@ -110,6 +227,19 @@ export interface ReportedIssue {
   tags?: string[];
 }
 
+/** An open issue in the export destination, as compared for duplicates */
+export interface DuplicateCandidate {
+  id: string; // Key or ID the tracker's comment and attachment endpoints accept
+  title: string;
+  description: string; // Plain text
+  status: string;
+  url?: string;
+}
+
+export interface DuplicateMatch extends DuplicateCandidate {
+  score: number; // 0-1 similarity to the report being exported
+}
+
 export type ClickUpExportMode = 'current' | 'all_attachments' | 'all_subtasks' | 'attach_to_task';
 export type SlackExportMode = 'current' | 'all_files' | 'thread';
 export type JiraExportMode = 'current' | 'all_attachments';
@@ -119,6 +249,88 @@ export type TrelloExportMode = 'current' | 'all_attachments';
 export type WebhookExportMode = 'current' | 'all_attachments';
 export type ZohoExportMode = 'current' | 'all_attachments';
 export type ZohoSprintsExportMode = 'current' | 'all_attachments';
+export type GitHubExportMode = 'current' | 'all_attachments';
+export type GitLabExportMode = 'current' | 'all_attachments';
+export type LinearExportMode = 'current' | 'all_attachments';
+export type AzureDevOpsExportMode = 'current' | 'all_attachments';
+
+// --- Issue tracker adapters ---
+// Every tracker service exports an IssueTracker; the Editor and Dashboard only talk to that contract.
+
+/** Union of the per-tracker modes; a tracker's modal only offers the ones it supports */
+export type TrackerExportMode = 'current' | 'all_attachments' | 'all_subtasks' | 'attach_to_task';
+
+/** Where an issue can be filed: a list, project or board column */
+export interface TrackerDestination {
+  id: string;
+  name: string;
+  group?: string; // Space, board or workspace name, for grouping in pickers
+  containerId?: string; // Workspace, team or portal the destination lives in, for trackers whose API needs it
+}
+
+/** A created or existing issue, with enough context for follow-up calls */
+export interface TrackerIssue {
+  id: string; // The ID the tracker's attachment and comment endpoints take
+  url?: string;
+  destinationId: string;
+  containerId?: string;
+}
+
+export interface TrackerIssueInput {
+  destinationId: string;
+  containerId?: string;
+  issueTypeId?: string; // Jira issue type, Zoho Sprints item type
+  parentId?: string; // Files the issue as a subtask
+  labels?: string[]; // Tracker-native label names, or IDs where the API wants them (Linear)
+  assignees?: string[]; // Tracker user IDs or logins
+  milestoneId?: string;
+  title: string;
+  description: string; // Markdown
+  fields?: BugReportFields;
+  /** Options only one tracker understands; its adapter reads and checks them */
+  extra?: Record<string, unknown>;
+}
+
+/** What an export modal hands back; blank title and description fall back to the generated ones */
+export interface TrackerExportRequest extends TrackerIssueInput {
+  mode: TrackerExportMode;
+}
+
+export interface IssueTracker {
+  source: IntegrationSource;
+  name: string; // Display name, e.g. "Zoho Sprints"
+  order: number; // Position in the Editor's export menu and the Dashboard's source picker, lowest first
+  isConfigured: (config: IntegrationConfig) => boolean;
+  /** Throws with a user-facing message when credentials are missing or rejected */
+  validate: (config: IntegrationConfig) => Promise<void>;
+  listDestinations: (config: IntegrationConfig) => Promise<TrackerDestination[]>;
+  createIssue: (config: IntegrationConfig, input: TrackerIssueInput) => Promise<TrackerIssue>;
+  /** Trackers that can't attach files to an issue host them instead and return Markdown linking them, which the caller adds once for the batch */
+  uploadAttachment: (config: IntegrationConfig, issue: TrackerIssue, file: Blob, filename: string) => Promise<string | void>;
+  updateIssue: (config: IntegrationConfig, issue: TrackerIssue, update: { description: string }) => Promise<void>;
+  /** Append Markdown to the description as it stands; for trackers whose description changes after creation, so updateIssue would clobber it */
+  appendToIssue?: (config: IntegrationConfig, issue: TrackerIssue, markdown: string) => Promise<void>;
+  /** Dashboard issues; trackers with `dashboardScope: 'destination'` need the picked destination */
+  fetchIssues: (config: IntegrationConfig, destination?: TrackerDestination) => Promise<ReportedIssue[]>;
+  dashboardScope: 'account' | 'destination';
+  destinationLabel?: string; // Picker label, e.g. "List"; defaults to "Project"
+  // Optional: duplicate detection and adding to existing issues
+  fetchOpenIssues?: (config: IntegrationConfig, destination: TrackerDestination) => Promise<DuplicateCandidate[]>;
+  addComment?: (config: IntegrationConfig, issue: TrackerIssue, markdown: string) => Promise<void>;
+}
+
+/** Props every tracker export modal takes, so the Editor can open any of them from the registry */
+export interface TrackerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (request: TrackerExportRequest) => void;
+  onAttachToExisting?: (issue: DuplicateMatch, title: string, description: string, singleSlide: boolean) => void;
+  loading: boolean;
+  slides: Slide[];
+  activeSlideId: string;
+  error?: string | null;
+  onConfigure?: () => void;
+}
 
 // New Video Recording Types
 export type CaptureMode = 'screenshot' | 'video' | 'floating';
@@ -195,6 +407,71 @@ export interface ZohoSprintsItemType {
     name: string;
 }
 
+// GitHub Types
+export interface GitHubRepo {
+    id: string;
+    fullName: string; // "owner/name"
+    isPrivate: boolean;
+}
+export interface GitHubLabel {
+    name: string;
+    color: string; // Hex without "#"
+}
+export interface GitHubUser {
+    login: string;
+    avatarUrl: string;
+}
+export interface GitHubMilestone {
+    number: number;
+    title: string;
+}
+
+// GitLab Types
+export interface GitLabProject {
+    id: string;
+    pathWithNamespace: string; // "group/project"
+}
+export interface GitLabLabel {
+    name: string;
+    color: string; // Hex with "#"
+}
+export interface GitLabMilestone {
+    id: string; // Global ID, as issue creation expects
+    title: string;
+}
+
+// Linear Types
+export interface LinearTeam {
+    id: string;
+    name: string;
+    key: string; // Issue identifier prefix, e.g. "ENG"
+}
+export interface LinearProject {
+    id: string;
+    name: string;
+}
+export interface LinearCycle {
+    id: string;
+    name: string; // Cycle name, or "Cycle 12" when unnamed
+    isActive: boolean;
+}
+export interface LinearLabel {
+    id: string;
+    name: string;
+    color: string; // Hex with "#"
+}
+
+// Azure DevOps Types
+export interface AzureDevOpsProject {
+    id: string;
+    name: string;
+}
+export interface AzureDevOpsIteration {
+    path: string; // "Project\Sprint 12"
+    name: string;
+    isCurrent: boolean;
+}
+
 // Dashboard Filters
 export interface DashboardFilter {
   status?: string[];